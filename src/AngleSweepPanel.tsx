@@ -0,0 +1,161 @@
+import { useMemo, useState } from "react";
+import type { AngleSample } from "./extraction";
+import { getAttributeLabel } from "./points";
+
+type AngleObjective = "max" | "min" | "target";
+
+interface AngleSweepPanelProps {
+  attribute: string;
+  currentAngle: number;
+  onSweep: (stepDegrees: number) => AngleSample[];
+  onApplyAngle: (angle: number) => void;
+}
+
+const CHART_WIDTH = 260;
+const CHART_HEIGHT = 110;
+const CHART_PADDING = 6;
+
+function findBestSample(samples: AngleSample[], objective: AngleObjective, target: number): AngleSample | null {
+  let best: AngleSample | null = null;
+  const score = (sample: AngleSample): number => {
+    if (objective === "max") {
+      return -sample.average;
+    }
+    if (objective === "min") {
+      return sample.average;
+    }
+    return Math.abs(sample.average - target);
+  };
+
+  for (const sample of samples) {
+    if (sample.tonnage > 0 && (!best || score(sample) < score(best))) {
+      best = sample;
+    }
+  }
+  return best;
+}
+
+/** SVG polyline points for one series, scaled to its own range. */
+function toPolyline(samples: AngleSample[], valueOf: (sample: AngleSample) => number): string {
+  const values = samples.map(valueOf);
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  const span = max > min ? max - min : 1;
+  const innerWidth = CHART_WIDTH - CHART_PADDING * 2;
+  const innerHeight = CHART_HEIGHT - CHART_PADDING * 2;
+
+  return samples
+    .map((sample, index) => {
+      const x = CHART_PADDING + (sample.angle / 360) * innerWidth;
+      const y = CHART_PADDING + innerHeight - (((values[index] as number) - min) / span) * innerHeight;
+      return `${x.toFixed(1)},${y.toFixed(1)}`;
+    })
+    .join(" ");
+}
+
+export function AngleSweepPanel({ attribute, currentAngle, onSweep, onApplyAngle }: AngleSweepPanelProps) {
+  const [stepDegrees, setStepDegrees] = useState(5);
+  const [objective, setObjective] = useState<AngleObjective>("max");
+  const [target, setTarget] = useState(0);
+  const [samples, setSamples] = useState<AngleSample[] | null>(null);
+  const label = getAttributeLabel(attribute);
+
+  const best = useMemo(
+    () => (samples ? findBestSample(samples, objective, target) : null),
+    [samples, objective, target],
+  );
+
+  const angleToX = (angle: number): number =>
+    CHART_PADDING + (angle / 360) * (CHART_WIDTH - CHART_PADDING * 2);
+
+  return (
+    <div className="angle-sweep">
+      <div className="recipe-grid">
+        <label className="label">Step (deg)</label>
+        <input
+          type="number"
+          min={1}
+          max={90}
+          step={1}
+          value={stepDegrees}
+          onChange={(event) => setStepDegrees(Math.round(Number(event.target.value)) || 1)}
+        />
+        <label className="label">Objective</label>
+        <select value={objective} onChange={(event) => setObjective(event.target.value as AngleObjective)}>
+          <option value="max">Max avg. {label}</option>
+          <option value="min">Min avg. {label}</option>
+          <option value="target">Closest to target</option>
+        </select>
+        {objective === "target" ? (
+          <>
+            <label className="label">Target {label}</label>
+            <input
+              type="number"
+              step={0.1}
+              value={target}
+              onChange={(event) => setTarget(Number(event.target.value))}
+            />
+          </>
+        ) : null}
+      </div>
+      <div className="toolbar">
+        <button type="button" onClick={() => setSamples(onSweep(stepDegrees))}>
+          Sweep angles
+        </button>
+        {best ? (
+          <button
+            className="btn btn-primary"
+            type="button"
+            disabled={best.angle === currentAngle}
+            onClick={() => onApplyAngle(best.angle)}
+          >
+            Apply {best.angle} deg
+          </button>
+        ) : null}
+      </div>
+
+      {samples && samples.length > 1 ? (
+        <>
+          <svg
+            className="angle-sweep-chart"
+            viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`}
+            role="img"
+            aria-label={`Extracted ${label} by face angle`}
+          >
+            <line
+              className="angle-sweep-current"
+              x1={angleToX(currentAngle)}
+              x2={angleToX(currentAngle)}
+              y1={0}
+              y2={CHART_HEIGHT}
+            />
+            {best ? (
+              <line
+                className="angle-sweep-best"
+                x1={angleToX(best.angle)}
+                x2={angleToX(best.angle)}
+                y1={0}
+                y2={CHART_HEIGHT}
+              />
+            ) : null}
+            <polyline className="angle-sweep-total" points={toPolyline(samples, (sample) => sample.total)} />
+            <polyline className="angle-sweep-average" points={toPolyline(samples, (sample) => sample.average)} />
+          </svg>
+          <div className="angle-sweep-legend">
+            <span className="angle-sweep-key-average">Avg. {label}</span>
+            <span className="angle-sweep-key-total">Total {label}</span>
+            <span>0–360 deg</span>
+          </div>
+          {best ? (
+            <div className="display-grid">
+              <span>Best angle:</span>
+              <span>{best.angle} deg</span>
+              <span>Avg. / total {label}:</span>
+              <span>{best.average.toFixed(2)} / {best.total.toFixed(1)}</span>
+            </div>
+          ) : null}
+        </>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,247 @@
+import { useEffect, useRef, useState } from "react";
+import type { BlendConstraintReport, BlendObjective, BlendResult, BlendSettings } from "./blend";
+import { getAttributeLabel } from "./points";
+import { isAbortError, type WorkControl } from "./slicedWork";
+
+interface BlendOptimiserProps {
+  attributes: string[];
+  hasPlanItems: boolean;
+  onOptimiseBlend: (settings: BlendSettings, control: WorkControl) => Promise<BlendResult | null>;
+  /** Puts a result's quantities into the plan; feasible results are applied by the search itself. */
+  onApplyBlend: (quantities: Record<string, number>) => void;
+}
+
+interface LimitDraft {
+  min: string;
+  max: string;
+  target: string;
+}
+
+const EMPTY_LIMIT: LimitDraft = { min: "", max: "", target: "" };
+
+function toOptionalNumber(value: string): number | null {
+  const trimmed = value.trim();
+  if (trimmed === "") {
+    return null;
+  }
+  const parsed = Number(trimmed);
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+function describeConstraint(report: BlendConstraintReport): string {
+  switch (report.kind) {
+    case "min":
+      return `${getAttributeLabel(report.subject)} ≥ ${report.limit.toFixed(2)} (at ${report.value.toFixed(2)})`;
+    case "max":
+      return `${getAttributeLabel(report.subject)} ≤ ${report.limit.toFixed(2)} (at ${report.value.toFixed(2)})`;
+    case "tonnage":
+      return `Tonnes ≤ ${report.limit.toFixed(0)} (at ${report.value.toFixed(0)})`;
+    case "capacity":
+      return `${report.subject} fully dug (${report.value.toFixed(0)} of ${report.limit.toFixed(0)} t)`;
+  }
+}
+
+export function BlendOptimiser({ attributes, hasPlanItems, onOptimiseBlend, onApplyBlend }: BlendOptimiserProps) {
+  const [objective, setObjective] = useState<BlendObjective>("maxTonnage");
+  const [tonnage, setTonnage] = useState("");
+  const [limits, setLimits] = useState<Record<string, LimitDraft>>({});
+  const [result, setResult] = useState<BlendResult | null>(null);
+  const [applied, setApplied] = useState(false);
+  const [message, setMessage] = useState("");
+  /** Share of the search done while it runs, null otherwise. */
+  const [progress, setProgress] = useState<number | null>(null);
+  const runRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => runRef.current?.abort(), []);
+
+  const updateLimit = (attribute: string, field: keyof LimitDraft, value: string): void => {
+    setLimits((prev) => ({
+      ...prev,
+      [attribute]: { ...(prev[attribute] ?? EMPTY_LIMIT), [field]: value },
+    }));
+  };
+
+  const getSettings = (): BlendSettings => ({
+    objective,
+    tonnage: toOptionalNumber(tonnage),
+    limits: attributes.map((attribute) => {
+      const draft = limits[attribute] ?? EMPTY_LIMIT;
+      return {
+        attribute,
+        min: toOptionalNumber(draft.min),
+        max: toOptionalNumber(draft.max),
+        target: objective === "closestToTarget" ? toOptionalNumber(draft.target) : null,
+      };
+    }),
+  });
+
+  const onOptimise = async (): Promise<void> => {
+    const run = new AbortController();
+    runRef.current = run;
+    setProgress(0);
+    setMessage("");
+    try {
+      const next = await onOptimiseBlend(getSettings(), { signal: run.signal, onProgress: setProgress });
+      setResult(next);
+      setApplied(next?.feasible ?? false);
+    } catch (error) {
+      if (!isAbortError(error)) {
+        setMessage(error instanceof Error ? error.message : String(error));
+      }
+    } finally {
+      if (runRef.current === run) {
+        runRef.current = null;
+        setProgress(null);
+      }
+    }
+  };
+
+  return (
+    <div className="card blend-card">
+      <h4>Blend optimiser</h4>
+
+      <div className="recipe-grid">
+        <label className="label" htmlFor="blend-objective">Objective</label>
+        <select
+          id="blend-objective"
+          value={objective}
+          onChange={(event) => setObjective(event.target.value as BlendObjective)}
+        >
+          <option value="maxTonnage">Maximise tonnes</option>
+          <option value="closestToTarget">Closest to target</option>
+        </select>
+        <label className="label" htmlFor="blend-tonnage">
+          {objective === "maxTonnage" ? "Max tonnes" : "Target tonnes"}
+        </label>
+        <input
+          id="blend-tonnage"
+          type="number"
+          min={0}
+          step={100}
+          placeholder="Any"
+          value={tonnage}
+          onChange={(event) => setTonnage(event.target.value)}
+        />
+      </div>
+
+      <table className="blend-limits">
+        <thead>
+          <tr>
+            <th />
+            <th>Min</th>
+            <th>Max</th>
+            {objective === "closestToTarget" ? <th>Target</th> : null}
+          </tr>
+        </thead>
+        <tbody>
+          {attributes.map((attribute) => {
+            const draft = limits[attribute] ?? EMPTY_LIMIT;
+            return (
+              <tr key={attribute}>
+                <th>{getAttributeLabel(attribute)}</th>
+                <td>
+                  <input
+                    type="number"
+                    aria-label={`${getAttributeLabel(attribute)} minimum`}
+                    value={draft.min}
+                    onChange={(event) => updateLimit(attribute, "min", event.target.value)}
+                  />
+                </td>
+                <td>
+                  <input
+                    type="number"
+                    aria-label={`${getAttributeLabel(attribute)} maximum`}
+                    value={draft.max}
+                    onChange={(event) => updateLimit(attribute, "max", event.target.value)}
+                  />
+                </td>
+                {objective === "closestToTarget" ? (
+                  <td>
+                    <input
+                      type="number"
+                      aria-label={`${getAttributeLabel(attribute)} target`}
+                      value={draft.target}
+                      onChange={(event) => updateLimit(attribute, "target", event.target.value)}
+                    />
+                  </td>
+                ) : null}
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+
+      <div className="toolbar recipe-actions">
+        {progress === null ? (
+          <button className="btn btn-primary" type="button" disabled={!hasPlanItems} onClick={() => void onOptimise()}>
+            Optimise plan quantities
+          </button>
+        ) : (
+          <>
+            <button type="button" onClick={() => runRef.current?.abort()}>Cancel</button>
+            <span>Optimising… {(progress * 100).toFixed(0)}%</span>
+          </>
+        )}
+      </div>
+      {!hasPlanItems ? <p className="plan-empty">Add regions to the plan and set their angles first.</p> : null}
+      {message ? <div className="overlay-status">{message}</div> : null}
+
+      {result ? (
+        <div className="blend-result">
+          <div className={result.feasible ? "blend-status" : "blend-status recipe-infeasible"}>
+            {result.feasible ? "All limits met." : "No blend meets every limit; showing the closest found."}
+          </div>
+          {!applied ? (
+            <div className="toolbar recipe-actions">
+              <button
+                type="button"
+                onClick={() => {
+                  onApplyBlend(result.quantities);
+                  setApplied(true);
+                }}
+              >
+                Apply closest blend
+              </button>
+            </div>
+          ) : null}
+          <div className="display-grid">
+            <span>Tonnes:</span>
+            <span>{result.tonnage.toFixed(0)}</span>
+            {Object.entries(result.averages).map(([attribute, average]) => (
+              <BlendAverageRow key={attribute} attribute={attribute} average={average} />
+            ))}
+          </div>
+          {result.violated.length > 0 ? (
+            <>
+              <p>Violated:</p>
+              <ul className="blend-constraints">
+                {result.violated.map((report, index) => (
+                  <li key={index}>{describeConstraint(report)}</li>
+                ))}
+              </ul>
+            </>
+          ) : null}
+          <p>Binding:</p>
+          {result.binding.length === 0 ? (
+            <div className="overlay-empty">None</div>
+          ) : (
+            <ul className="blend-constraints">
+              {result.binding.map((report, index) => (
+                <li key={index}>{describeConstraint(report)}</li>
+              ))}
+            </ul>
+          )}
+        </div>
+      ) : null}
+    </div>
+  );
+}
+
+function BlendAverageRow({ attribute, average }: { attribute: string; average: number }) {
+  return (
+    <>
+      <span>Avg. {getAttributeLabel(attribute)}:</span>
+      <span>{average.toFixed(2)}</span>
+    </>
+  );
+}
@@ -0,0 +1,302 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { deleteImportedDataset, listImportedDatasets, uploadDataset } from "./datasetApi";
+import {
+  guessHasHeader,
+  guessImportFormat,
+  guessImportMapping,
+  IMPORT_ATTRIBUTES,
+  IMPORTED_SOURCE_PREFIX,
+  parseImportText,
+  toImportedPoints,
+  type ImportColumnMapping,
+  type ImportedDataset,
+  type ImportFormat,
+} from "./pointImport";
+
+const PREVIEW_ROW_COUNT = 5;
+const MAPPED_FIELDS = ["x", "y", "z", "w", "time", "mass"] as const;
+
+interface DataTabProps {
+  activeDatasetId: string | null;
+  onSelectDataset: (datasetId: string) => void;
+  onDatasetsChanged: () => void;
+}
+
+interface ImportDraft {
+  fileName: string;
+  text: string;
+  name: string;
+  format: ImportFormat;
+  hasHeader: boolean;
+  mapping: ImportColumnMapping;
+}
+
+export function DataTab({ activeDatasetId, onSelectDataset, onDatasetsChanged }: DataTabProps) {
+  const [datasets, setDatasets] = useState<ImportedDataset[]>([]);
+  const [draft, setDraft] = useState<ImportDraft | null>(null);
+  const [message, setMessage] = useState("");
+  const [busy, setBusy] = useState(false);
+
+  const refreshDatasets = useCallback(async (): Promise<void> => {
+    try {
+      setDatasets(await listImportedDatasets());
+    } catch (error) {
+      setMessage(error instanceof Error ? error.message : String(error));
+    }
+  }, []);
+
+  useEffect(() => {
+    void refreshDatasets();
+  }, [refreshDatasets]);
+
+  const table = useMemo(
+    () => (draft ? parseImportText(draft.text, draft.format, draft.hasHeader) : null),
+    [draft?.text, draft?.format, draft?.hasHeader],
+  );
+  const validation = useMemo(
+    () => (draft && table ? toImportedPoints(table, draft.mapping) : null),
+    [draft?.mapping, table],
+  );
+
+  const onFileChosen = async (file: File | undefined): Promise<void> => {
+    if (!file) {
+      return;
+    }
+
+    const text = await file.text();
+    const format = guessImportFormat(file.name, text);
+    const hasHeader = guessHasHeader(text, format);
+    const { columns } = parseImportText(text, format, hasHeader);
+    setDraft({
+      fileName: file.name,
+      text,
+      name: file.name.replace(/\.[^.]+$/, ""),
+      format,
+      hasHeader,
+      mapping: guessImportMapping(columns),
+    });
+    setMessage("");
+  };
+
+  const updateDraftLayout = (next: Pick<ImportDraft, "format" | "hasHeader">): void => {
+    if (!draft) {
+      return;
+    }
+    const { columns } = parseImportText(draft.text, next.format, next.hasHeader);
+    setDraft({ ...draft, ...next, mapping: guessImportMapping(columns) });
+  };
+
+  const onImport = async (): Promise<void> => {
+    if (!draft) {
+      return;
+    }
+
+    setBusy(true);
+    try {
+      const result = await uploadDataset({
+        name: draft.name.trim() || draft.fileName,
+        format: draft.format,
+        hasHeader: draft.hasHeader,
+        mapping: draft.mapping,
+        text: draft.text,
+      });
+      setMessage(
+        `Imported ${result.dataset.pointCount} points into "${result.dataset.name}" (${result.rejectedCount} rejected).`,
+      );
+      setDraft(null);
+      await refreshDatasets();
+      onDatasetsChanged();
+      onSelectDataset(result.sourceId);
+    } catch (error) {
+      setMessage(error instanceof Error ? error.message : String(error));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const onDelete = async (dataset: ImportedDataset): Promise<void> => {
+    try {
+      await deleteImportedDataset(dataset.id);
+      await refreshDatasets();
+      onDatasetsChanged();
+    } catch (error) {
+      setMessage(error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  return (
+    <div className="overlay-tab-content data-tab" role="tabpanel" aria-labelledby="overlay-tab-data">
+      {message ? <div className="overlay-status">{message}</div> : null}
+
+      <div className="card">
+        <h4>Imported datasets</h4>
+        {datasets.length === 0 ? (
+          <div className="overlay-empty">No imported datasets</div>
+        ) : (
+          <div className="overlay-region-list">
+            {datasets.map((dataset) => {
+              const sourceId = IMPORTED_SOURCE_PREFIX + dataset.id;
+              return (
+                <div
+                  key={dataset.id}
+                  className={`overlay-region-item${activeDatasetId === sourceId ? " is-selected" : ""}`}
+                >
+                  <div className="overlay-region-row">
+                    <strong>{dataset.name}</strong>
+                    <div className="toolbar">
+                      <button
+                        type="button"
+                        disabled={activeDatasetId === sourceId}
+                        onClick={() => onSelectDataset(sourceId)}
+                      >
+                        Use
+                      </button>
+                      <button type="button" onClick={() => void onDelete(dataset)}>
+                        Delete
+                      </button>
+                    </div>
+                  </div>
+                  <div className="overlay-region-meta">
+                    Points: {dataset.pointCount} | {new Date(dataset.createdAt).toLocaleDateString()}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+
+      <div className="card data-import-card">
+        <h4>Import CSV / XYZ</h4>
+        <input
+          type="file"
+          accept=".csv,.txt,.xyz,text/csv,text/plain"
+          onChange={(event) => void onFileChosen(event.target.files?.[0])}
+        />
+
+        {draft && table ? (
+          <>
+            <div className="data-import-grid">
+              <label className="label" htmlFor="data-import-name">Name</label>
+              <input
+                id="data-import-name"
+                type="text"
+                value={draft.name}
+                onChange={(event) => setDraft({ ...draft, name: event.target.value })}
+              />
+              <label className="label" htmlFor="data-import-format">Format</label>
+              <select
+                id="data-import-format"
+                value={draft.format}
+                onChange={(event) =>
+                  updateDraftLayout({ format: event.target.value as ImportFormat, hasHeader: draft.hasHeader })}
+              >
+                <option value="csv">CSV</option>
+                <option value="xyz">XYZ (space delimited)</option>
+              </select>
+              <label className="label" htmlFor="data-import-header">Header row</label>
+              <input
+                id="data-import-header"
+                type="checkbox"
+                checked={draft.hasHeader}
+                onChange={(event) => updateDraftLayout({ format: draft.format, hasHeader: event.target.checked })}
+              />
+              {MAPPED_FIELDS.map((field) => (
+                <ColumnSelect
+                  key={field}
+                  field={field}
+                  columns={table.columns}
+                  value={draft.mapping[field]}
+                  optional={field === "w" || field === "time" || field === "mass"}
+                  onChange={(value) => setDraft({ ...draft, mapping: { ...draft.mapping, [field]: value } })}
+                />
+              ))}
+              {IMPORT_ATTRIBUTES.map((attribute) => (
+                <ColumnSelect
+                  key={attribute}
+                  field={attribute}
+                  columns={table.columns}
+                  value={draft.mapping.attributes[attribute]}
+                  optional
+                  onChange={(value) =>
+                    setDraft({
+                      ...draft,
+                      mapping: { ...draft.mapping, attributes: { ...draft.mapping.attributes, [attribute]: value } },
+                    })}
+                />
+              ))}
+            </div>
+
+            <div className="data-import-preview">
+              <table>
+                <thead>
+                  <tr>
+                    {table.columns.map((column, index) => (
+                      <th key={index}>{column}</th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {table.rows.slice(0, PREVIEW_ROW_COUNT).map((row, rowIndex) => (
+                    <tr key={rowIndex}>
+                      {table.columns.map((_, index) => (
+                        <td key={index}>{row[index] ?? ""}</td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            {validation ? (
+              <div className="overlay-region-meta">
+                Valid rows: {validation.points.length} | Rejected: {validation.rejectedCount}
+              </div>
+            ) : null}
+
+            <div className="actions">
+              <button
+                className="btn btn-primary"
+                type="button"
+                disabled={busy || !validation || validation.points.length === 0}
+                onClick={() => void onImport()}
+              >
+                Import
+              </button>
+              <button className="btn" type="button" disabled={busy} onClick={() => setDraft(null)}>
+                Cancel
+              </button>
+            </div>
+          </>
+        ) : null}
+      </div>
+    </div>
+  );
+}
+
+interface ColumnSelectProps {
+  field: string;
+  columns: string[];
+  value: number | null;
+  optional: boolean;
+  onChange: (value: number | null) => void;
+}
+
+function ColumnSelect({ field, columns, value, optional, onChange }: ColumnSelectProps) {
+  const id = `data-import-column-${field}`;
+  return (
+    <>
+      <label className="label" htmlFor={id}>{field}</label>
+      <select
+        id={id}
+        value={value === null ? "" : String(value)}
+        onChange={(event) => onChange(event.target.value === "" ? null : Number(event.target.value))}
+      >
+        {optional ? <option value="">(none)</option> : null}
+        {columns.map((column, index) => (
+          <option key={index} value={index}>{column}</option>
+        ))}
+      </select>
+    </>
+  );
+}
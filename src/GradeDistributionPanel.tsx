@@ -0,0 +1,113 @@
+import type { GradeDistribution, GradeTonnageSample } from "./distribution";
+import { getAttributeLabel } from "./points";
+
+interface GradeDistributionPanelProps {
+  distribution: GradeDistribution | null;
+  attribute: string;
+}
+
+const CHART_WIDTH = 260;
+const CHART_HEIGHT = 100;
+const CHART_PADDING = 6;
+const INNER_WIDTH = CHART_WIDTH - CHART_PADDING * 2;
+const INNER_HEIGHT = CHART_HEIGHT - CHART_PADDING * 2;
+
+/** SVG polyline points for one grade-tonnage series against cutoff, scaled to its own range. */
+function toPolyline(
+  samples: GradeTonnageSample[],
+  valueOf: (sample: GradeTonnageSample) => number,
+  minCutoff: number,
+  maxCutoff: number,
+): string {
+  const values = samples.map(valueOf);
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  const span = max > min ? max - min : 1;
+  const cutoffSpan = maxCutoff > minCutoff ? maxCutoff - minCutoff : 1;
+
+  return samples
+    .map((sample, index) => {
+      const x = CHART_PADDING + ((sample.cutoff - minCutoff) / cutoffSpan) * INNER_WIDTH;
+      const y = CHART_PADDING + INNER_HEIGHT - (((values[index] as number) - min) / span) * INNER_HEIGHT;
+      return `${x.toFixed(1)},${y.toFixed(1)}`;
+    })
+    .join(" ");
+}
+
+export function GradeDistributionPanel({ distribution, attribute }: GradeDistributionPanelProps) {
+  const label = getAttributeLabel(attribute);
+  if (!distribution) {
+    return <div className="overlay-empty">No points</div>;
+  }
+
+  const { histogram, gradeTonnage, percentiles } = distribution;
+  const maxBinTonnage = histogram.reduce((max, bin) => Math.max(max, bin.tonnage), 0) || 1;
+  const barWidth = INNER_WIDTH / histogram.length;
+
+  return (
+    <div className="grade-distribution">
+      <div className="display-grid">
+        <span>Std. dev. {label}:</span>
+        <span>{distribution.stdDev.toFixed(3)}</span>
+        <span>P10 / P25 / P50:</span>
+        <span>{percentiles[10].toFixed(3)} / {percentiles[25].toFixed(3)} / {percentiles[50].toFixed(3)}</span>
+        <span>P75 / P90:</span>
+        <span>{percentiles[75].toFixed(3)} / {percentiles[90].toFixed(3)}</span>
+      </div>
+
+      <svg
+        className="grade-distribution-chart"
+        viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`}
+        role="img"
+        aria-label={`Tonnes by ${label}`}
+      >
+        {histogram.map((bin, index) => {
+          const height = (bin.tonnage / maxBinTonnage) * INNER_HEIGHT;
+          return (
+            <rect
+              key={index}
+              className="grade-distribution-bar"
+              x={CHART_PADDING + index * barWidth + 0.5}
+              y={CHART_PADDING + INNER_HEIGHT - height}
+              width={Math.max(0.5, barWidth - 1)}
+              height={height}
+            >
+              <title>
+                {bin.from.toFixed(2)}–{bin.to.toFixed(2)}: {bin.tonnage.toFixed(0)} t ({bin.count} points)
+              </title>
+            </rect>
+          );
+        })}
+      </svg>
+      <div className="grade-distribution-legend">
+        <span>{distribution.min.toFixed(2)}</span>
+        <span>Tonnes by {label}</span>
+        <span>{distribution.max.toFixed(2)}</span>
+      </div>
+
+      {gradeTonnage.length > 1 ? (
+        <>
+          <svg
+            className="grade-distribution-chart"
+            viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`}
+            role="img"
+            aria-label={`Grade-tonnage curve for ${label}`}
+          >
+            <polyline
+              className="grade-tonnage-tonnes"
+              points={toPolyline(gradeTonnage, (sample) => sample.tonnage, distribution.min, distribution.max)}
+            />
+            <polyline
+              className="grade-tonnage-average"
+              points={toPolyline(gradeTonnage, (sample) => sample.average, distribution.min, distribution.max)}
+            />
+          </svg>
+          <div className="grade-distribution-legend">
+            <span className="grade-tonnage-key-tonnes">Tonnes above cutoff</span>
+            <span className="grade-tonnage-key-average">Avg. {label} above cutoff</span>
+          </div>
+        </>
+      ) : null}
+    </div>
+  );
+}
@@ -1,9 +1,39 @@
+import { useEffect, useRef, useState } from "react";
+import { AngleSweepPanel } from "./AngleSweepPanel";
+import {
+  EXTRACTION_MODES,
+  MIN_FACE_DIP,
+  getExtractionModeLabel,
+  usesExtractionIncrement,
+  type AngleSample,
+  type ExtractionMode,
+} from "./extraction";
 import type { RegionMeta } from "./overlay";
+import { PlanTimeline } from "./PlanTimeline";
+import { getLastPeriod, getPeriodLabel } from "./schedule";
+import { formatAttributeAverage, getAttributeLabel, getAttributeTotal, type AttributeTotal } from "./points";
+import {
+  DEFAULT_GPS_ERROR,
+  DEFAULT_UNCERTAINTY_RUNS,
+  MAX_UNCERTAINTY_RUNS,
+  type GradeInterval,
+  type PlanUncertainty,
+  type UncertaintySettings,
+} from "./uncertainty";
+import { isAbortError, type WorkControl } from "./slicedWork";
 
 export interface PlanItem {
   id: string;
   regionKey: string;
+  /** Schedule period (shift) the item is dug in; see `getPeriodLabel`. */
+  period: number;
   angle: number;
+  /** Face inclination from horizontal in degrees. */
+  dip: number;
+  mode: ExtractionMode;
+  /** Bench height or slice width for the modes that use one. */
+  increment: number;
+  /** Tonnes to extract. */
   quantity: number;
 }
 
@@ -11,40 +41,112 @@ export interface PlanOutcomeItem {
   planItemId: string;
   regionId: string;
   regionPointCount: number;
-  regionTotalW: number;
-  regionAverageW: number;
+  regionTonnage: number;
+  /** Totals for `w` and every named attribute over the whole region. */
+  regionAttributes: Record<string, AttributeTotal>;
   extractedPointCount: number;
-  extractedTotalW: number;
-  extractedAverageW: number;
+  extractedTonnage: number;
+  extractedAttributes: Record<string, AttributeTotal>;
 }
 
 export interface PlanGrandTotal {
   extractedPointCount: number;
-  totalW: number;
-  averageW: number;
+  tonnage: number;
+  attributes: Record<string, AttributeTotal>;
+}
+
+export interface PlanPeriodOutcome extends PlanGrandTotal {
+  period: number;
 }
 
 interface OperationalPlanProps {
   regions: RegionMeta[];
   plan: PlanItem[];
+  attribute: string;
   outcomeByItemId: Record<string, PlanOutcomeItem>;
   grandTotal: PlanGrandTotal;
+  periodOutcomes: PlanPeriodOutcome[];
+  timelinePeriod: number | null;
+  onChangeTimelinePeriod: (period: number | null) => void;
   onAddRegionToPlan: (region: RegionMeta) => void;
   onUpdatePlanAngle: (planItemId: string, angle: number) => void;
+  onUpdatePlanPeriod: (planItemId: string, period: number) => void;
+  onUpdatePlanDip: (planItemId: string, dip: number) => void;
+  onUpdatePlanMode: (planItemId: string, mode: ExtractionMode) => void;
+  onUpdatePlanIncrement: (planItemId: string, increment: number) => void;
+  onSweepPlanAngle: (planItemId: string, stepDegrees: number) => AngleSample[];
   onUpdatePlanQuantity: (planItemId: string, quantity: number) => void;
   onDeletePlanItem: (planItemId: string) => void;
+  onAnalysePlanUncertainty: (settings: UncertaintySettings, control: WorkControl) => Promise<PlanUncertainty | null>;
+}
+
+function formatInterval(interval: GradeInterval): string {
+  return `${interval.p10.toFixed(2)} / ${interval.p50.toFixed(2)} / ${interval.p90.toFixed(2)}`;
 }
 
 export default function OperationalPlan({
   regions,
   plan,
+  attribute,
   outcomeByItemId,
   grandTotal,
+  periodOutcomes,
+  timelinePeriod,
+  onChangeTimelinePeriod,
   onAddRegionToPlan,
   onUpdatePlanAngle,
+  onUpdatePlanPeriod,
+  onUpdatePlanDip,
+  onUpdatePlanMode,
+  onUpdatePlanIncrement,
+  onSweepPlanAngle,
   onUpdatePlanQuantity,
   onDeletePlanItem,
+  onAnalysePlanUncertainty,
 }: OperationalPlanProps) {
+  const [sweepItemId, setSweepItemId] = useState<string | null>(null);
+  const [uncertaintyRuns, setUncertaintyRuns] = useState(DEFAULT_UNCERTAINTY_RUNS);
+  const [gpsError, setGpsError] = useState(DEFAULT_GPS_ERROR);
+  const [uncertainty, setUncertainty] = useState<PlanUncertainty | null>(null);
+  /** Share of the runs done while an analysis runs, null otherwise. */
+  const [uncertaintyProgress, setUncertaintyProgress] = useState<number | null>(null);
+  const uncertaintyRunRef = useRef<AbortController | null>(null);
+  const [uncertaintyMessage, setUncertaintyMessage] = useState("");
+  // Offer one period past the last in use so items can be pushed into a new shift
+  const periodOptions = Array.from({ length: getLastPeriod(plan) + 2 }, (_, period) => period);
+  const label = getAttributeLabel(attribute);
+  const grandTotalAttribute = getAttributeTotal(grandTotal.attributes, attribute);
+
+  // Bands describe the plan they were run on, so any edit makes them stale
+  useEffect(() => {
+    uncertaintyRunRef.current?.abort();
+    setUncertainty(null);
+  }, [plan, attribute]);
+
+  useEffect(() => () => uncertaintyRunRef.current?.abort(), []);
+
+  const runUncertainty = async (): Promise<void> => {
+    const run = new AbortController();
+    uncertaintyRunRef.current = run;
+    setUncertaintyProgress(0);
+    setUncertaintyMessage("");
+    try {
+      setUncertainty(await onAnalysePlanUncertainty(
+        { runs: uncertaintyRuns, gpsError },
+        { signal: run.signal, onProgress: setUncertaintyProgress },
+      ));
+    } catch (error) {
+      if (!isAbortError(error)) {
+        setUncertaintyMessage(error instanceof Error ? error.message : String(error));
+      }
+    } finally {
+      if (uncertaintyRunRef.current === run) {
+        uncertaintyRunRef.current = null;
+        setUncertaintyProgress(null);
+      }
+    }
+  };
+
   return (
     <div className="card plan-card">
       <h4>Plan</h4>
@@ -74,6 +176,14 @@ export default function OperationalPlan({
                   <strong>{regions.find((region) => region.key === item.regionKey)?.regionId ?? `region-${item.regionKey}`}</strong>
                   <div className="toolbar plan-item-actions">
                     <span>{item.angle} deg</span>
+                    <button
+                      type="button"
+                      className={sweepItemId === item.id ? "is-active" : undefined}
+                      aria-pressed={sweepItemId === item.id}
+                      onClick={() => setSweepItemId((prev) => (prev === item.id ? null : item.id))}
+                    >
+                      Optimise angle
+                    </button>
                     <button
                       className="btn overlay-btn-icon"
                       type="button"
@@ -99,8 +209,56 @@ export default function OperationalPlan({
                   value={item.angle}
                   onChange={(event) => onUpdatePlanAngle(item.id, Number(event.target.value))}
                 />
+                {sweepItemId === item.id ? (
+                  <AngleSweepPanel
+                    key={attribute}
+                    attribute={attribute}
+                    currentAngle={item.angle}
+                    onSweep={(stepDegrees) => onSweepPlanAngle(item.id, stepDegrees)}
+                    onApplyAngle={(angle) => onUpdatePlanAngle(item.id, angle)}
+                  />
+                ) : null}
                 <div className="display-grid">
-                  <span>Quantity:</span>
+                  <span>Period:</span>
+                  <select
+                    value={item.period}
+                    onChange={(event) => onUpdatePlanPeriod(item.id, Number(event.target.value))}
+                  >
+                    {periodOptions.map((period) => (
+                      <option key={period} value={period}>{getPeriodLabel(period)}</option>
+                    ))}
+                  </select>
+                  <span>Extraction:</span>
+                  <select
+                    value={item.mode}
+                    onChange={(event) => onUpdatePlanMode(item.id, event.target.value as ExtractionMode)}
+                  >
+                    {EXTRACTION_MODES.map((mode) => (
+                      <option key={mode} value={mode}>{getExtractionModeLabel(mode)}</option>
+                    ))}
+                  </select>
+                  {usesExtractionIncrement(item.mode) ? (
+                    <>
+                      <span>{item.mode === "bench" ? "Bench height:" : "Slice width:"}</span>
+                      <input
+                        type="number"
+                        min={0.1}
+                        step={0.5}
+                        value={item.increment}
+                        onChange={(event) => onUpdatePlanIncrement(item.id, Number(event.target.value))}
+                      />
+                    </>
+                  ) : null}
+                  <span>Face dip (deg):</span>
+                  <input
+                    type="number"
+                    min={MIN_FACE_DIP}
+                    max={90}
+                    step={1}
+                    value={item.dip}
+                    onChange={(event) => onUpdatePlanDip(item.id, Number(event.target.value))}
+                  />
+                  <span>Quantity (t):</span>
                   <input
                     type="number"
                     min={0}
@@ -109,14 +267,29 @@ export default function OperationalPlan({
                     onChange={(event) => onUpdatePlanQuantity(item.id, Number(event.target.value))}
                   />
                 </div>
-                {itemOutcome ? (
-                  <div className="display-grid">
-                    <span>Region grade (avg/total):</span>
-                    <span>{itemOutcome.regionAverageW.toFixed(2)} / {itemOutcome.regionTotalW.toFixed(2)}</span>
-                    <span>Extracted grade (avg/total):</span>
-                    <span>{itemOutcome.extractedAverageW.toFixed(2)} / {itemOutcome.extractedTotalW.toFixed(2)}</span>
-                  </div>
-                ) : null}
+                {itemOutcome ? (() => {
+                  const regionTotal = getAttributeTotal(itemOutcome.regionAttributes, attribute);
+                  const extractedTotal = getAttributeTotal(itemOutcome.extractedAttributes, attribute);
+                  const interval = uncertainty?.byItemId[item.id];
+                  return (
+                    <div className="display-grid">
+                      <span>Region tonnes:</span>
+                      <span>{itemOutcome.regionTonnage.toFixed(0)}</span>
+                      <span>Extracted tonnes:</span>
+                      <span>{itemOutcome.extractedTonnage.toFixed(0)}</span>
+                      <span>Region {label} (avg/total):</span>
+                      <span>{formatAttributeAverage(regionTotal, 2)} / {regionTotal.total.toFixed(2)}</span>
+                      <span>Extracted {label} (avg/total):</span>
+                      <span>{formatAttributeAverage(extractedTotal, 2)} / {extractedTotal.total.toFixed(2)}</span>
+                      {interval ? (
+                        <>
+                          <span>Extracted avg. {label} P10/P50/P90:</span>
+                          <span>{formatInterval(interval)}</span>
+                        </>
+                      ) : null}
+                    </div>
+                  );
+                })() : null}
                     </>
                   );
                 })()}
@@ -126,15 +299,69 @@ export default function OperationalPlan({
         )}
       </div>
 
+      <PlanTimeline
+        periodOutcomes={periodOutcomes}
+        attribute={attribute}
+        timelinePeriod={timelinePeriod}
+        onChangeTimelinePeriod={onChangeTimelinePeriod}
+      />
+
+      <h3>Uncertainty:</h3>
+      <div className="recipe-grid">
+        <label className="label" htmlFor="plan-uncertainty-runs">Runs</label>
+        <input
+          id="plan-uncertainty-runs"
+          type="number"
+          min={1}
+          max={MAX_UNCERTAINTY_RUNS}
+          step={10}
+          value={uncertaintyRuns}
+          onChange={(event) => setUncertaintyRuns(Math.round(Number(event.target.value)) || 1)}
+        />
+        <label className="label" htmlFor="plan-uncertainty-gps">GPS error (m)</label>
+        <input
+          id="plan-uncertainty-gps"
+          type="number"
+          min={0}
+          step={0.1}
+          value={gpsError}
+          onChange={(event) => setGpsError(Math.max(0, Number(event.target.value) || 0))}
+        />
+      </div>
+      <div className="toolbar recipe-actions">
+        {uncertaintyProgress === null ? (
+          <button type="button" disabled={plan.length === 0} onClick={() => void runUncertainty()}>
+            Run uncertainty
+          </button>
+        ) : (
+          <>
+            <button type="button" onClick={() => uncertaintyRunRef.current?.abort()}>Cancel</button>
+            <span>Running… {(uncertaintyProgress * 100).toFixed(0)}%</span>
+          </>
+        )}
+        {uncertainty && uncertaintyProgress === null ? (
+          <span>{uncertainty.runs} runs, {uncertainty.gpsError} m</span>
+        ) : null}
+      </div>
+      {uncertaintyMessage ? <div className="overlay-status">{uncertaintyMessage}</div> : null}
+
       <h3>Outcome:</h3>
       <div className="plan-item">
         <div className="display-grid">
           <span>Extracted points:</span>
           <span>{grandTotal.extractedPointCount}</span>
-          <span>Total grade:</span>
-          <span>{grandTotal.totalW.toFixed(1)}</span>
-          <span>Average grade:</span>
-          <span>{grandTotal.averageW.toFixed(1)}</span>
+          <span>Extracted tonnes:</span>
+          <span>{grandTotal.tonnage.toFixed(0)}</span>
+          <span>Total {label}:</span>
+          <span>{grandTotalAttribute.total.toFixed(1)}</span>
+          <span>Average {label}:</span>
+          <span>{formatAttributeAverage(grandTotalAttribute, 1)}</span>
+          {uncertainty?.grandTotal ? (
+            <>
+              <span>Average {label} P10/P50/P90:</span>
+              <span>{formatInterval(uncertainty.grandTotal)}</span>
+            </>
+          ) : null}
         </div>
       </div>
     </div>
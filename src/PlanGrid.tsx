@@ -0,0 +1,76 @@
+import {
+  formatGridValue,
+  getGridLines,
+  getGridStep,
+  getMinorGridStep,
+  getPlanPixelSize,
+  toPlanScreen,
+  type PlanViewBounds,
+} from "./planView";
+
+/** Narrowest spacing, in pixels, between easting labels before every other one is skipped. */
+const MIN_LABEL_SPACING = 64;
+
+interface PlanGridProps {
+  bounds: PlanViewBounds;
+  /** Footprint being drawn, in render coordinates. */
+  drawingVertices: Array<{ x: number; y: number }>;
+  drawingCursor: { x: number; y: number } | null;
+}
+
+/** Mine-grid lines and labels over the plan view, plus the footprint being drawn. */
+export function PlanGrid({ bounds, drawingVertices, drawingCursor }: PlanGridProps) {
+  const step = getGridStep(bounds);
+  const major = getGridLines(bounds, step);
+  const minor = getGridLines(bounds, getMinorGridStep(step));
+  // Long eastings overlap sooner than the northings stacked down the side
+  const labelEvery = Math.max(1, Math.ceil(MIN_LABEL_SPACING / (step / getPlanPixelSize(bounds))));
+  const eastingLabels = major.eastings.filter((line) => Math.round(line.value / step) % labelEvery === 0);
+  const drawing = [...drawingVertices, ...(drawingCursor ? [drawingCursor] : [])]
+    .map((point) => toPlanScreen(bounds, point));
+  const first = drawing[0];
+
+  return (
+    <svg className="plan-grid" width={bounds.width} height={bounds.height}>
+      <g className="plan-grid-minor">
+        {minor.eastings.map((line) => (
+          <line key={`e${line.value}`} x1={line.position} x2={line.position} y1={0} y2={bounds.height} />
+        ))}
+        {minor.northings.map((line) => (
+          <line key={`n${line.value}`} x1={0} x2={bounds.width} y1={line.position} y2={line.position} />
+        ))}
+      </g>
+      <g className="plan-grid-major">
+        {major.eastings.map((line) => (
+          <line key={`e${line.value}`} x1={line.position} x2={line.position} y1={0} y2={bounds.height} />
+        ))}
+        {major.northings.map((line) => (
+          <line key={`n${line.value}`} x1={0} x2={bounds.width} y1={line.position} y2={line.position} />
+        ))}
+      </g>
+      <g className="plan-grid-labels">
+        {eastingLabels.map((line) => (
+          <text key={`e${line.value}`} x={line.position + 3} y={bounds.height - 6}>
+            {formatGridValue(line.value, step)}E
+          </text>
+        ))}
+        {major.northings.map((line) => (
+          <text key={`n${line.value}`} x={6} y={line.position - 3}>
+            {formatGridValue(line.value, step)}N
+          </text>
+        ))}
+      </g>
+      {drawing.length > 0 ? (
+        <g className="plan-drawing">
+          <polyline points={drawing.map((point) => `${point.x},${point.y}`).join(" ")} />
+          {drawingVertices.length > 0 && first ? (
+            <circle className="plan-drawing-first" cx={first.x} cy={first.y} r={5} />
+          ) : null}
+          {drawing.slice(1, drawingVertices.length).map((point, index) => (
+            <circle key={index} cx={point.x} cy={point.y} r={3} />
+          ))}
+        </g>
+      ) : null}
+    </svg>
+  );
+}
@@ -0,0 +1,135 @@
+import { useEffect, useState } from "react";
+import type { PlanGrandTotal, PlanItem } from "./OperationPlan";
+import type { RegionMeta } from "./overlay";
+import { ScenarioComparison } from "./ScenarioComparison";
+
+/** A named alternative plan; only the active scenario is edited and shown in the scene. */
+export interface PlanScenario {
+  id: string;
+  name: string;
+  plan: PlanItem[];
+}
+
+/** What a scenario's plan extracts, in total and per region key. */
+export interface ScenarioSummary {
+  scenarioId: string;
+  name: string;
+  grandTotal: PlanGrandTotal;
+  regionTotals: Record<string, PlanGrandTotal>;
+}
+
+interface PlanScenariosProps {
+  regions: RegionMeta[];
+  attribute: string;
+  scenarios: PlanScenario[];
+  activeScenarioId: string | null;
+  onSelectScenario: (scenarioId: string) => void;
+  onCreateScenario: () => void;
+  onDuplicateScenario: (scenarioId: string) => void;
+  onRenameScenario: (scenarioId: string, name: string) => void;
+  onDeleteScenario: (scenarioId: string) => void;
+  onSummariseScenarios: () => ScenarioSummary[];
+}
+
+export function PlanScenarios({
+  regions,
+  attribute,
+  scenarios,
+  activeScenarioId,
+  onSelectScenario,
+  onCreateScenario,
+  onDuplicateScenario,
+  onRenameScenario,
+  onDeleteScenario,
+  onSummariseScenarios,
+}: PlanScenariosProps) {
+  const activeScenario = scenarios.find((scenario) => scenario.id === activeScenarioId) ?? null;
+  const [draftName, setDraftName] = useState(activeScenario?.name ?? "");
+  const [comparing, setComparing] = useState(false);
+
+  useEffect(() => {
+    setDraftName(activeScenario?.name ?? "");
+  }, [activeScenario?.id, activeScenario?.name]);
+
+  const commitName = (): void => {
+    if (!activeScenario) {
+      return;
+    }
+    const name = draftName.trim();
+    if (name === "") {
+      setDraftName(activeScenario.name);
+    } else if (name !== activeScenario.name) {
+      onRenameScenario(activeScenario.id, name);
+    }
+  };
+
+  return (
+    <div className="card scenario-card">
+      <h4>Scenarios</h4>
+
+      <div className="recipe-grid">
+        <label className="label" htmlFor="plan-scenario">Scenario</label>
+        <select
+          id="plan-scenario"
+          value={activeScenario?.id ?? ""}
+          onChange={(event) => onSelectScenario(event.target.value)}
+        >
+          {scenarios.map((scenario) => (
+            <option key={scenario.id} value={scenario.id}>
+              {scenario.name} ({scenario.plan.length})
+            </option>
+          ))}
+        </select>
+        <label className="label" htmlFor="plan-scenario-name">Name</label>
+        <input
+          id="plan-scenario-name"
+          type="text"
+          value={draftName}
+          disabled={!activeScenario}
+          onChange={(event) => setDraftName(event.target.value)}
+          onBlur={commitName}
+          onKeyDown={(event) => {
+            if (event.key === "Enter") {
+              commitName();
+            }
+          }}
+        />
+      </div>
+
+      <div className="toolbar recipe-actions">
+        <button type="button" onClick={onCreateScenario}>New</button>
+        <button
+          type="button"
+          disabled={!activeScenario}
+          onClick={() => activeScenario && onDuplicateScenario(activeScenario.id)}
+        >
+          Duplicate
+        </button>
+        <button
+          type="button"
+          disabled={!activeScenario || scenarios.length <= 1}
+          onClick={() => activeScenario && onDeleteScenario(activeScenario.id)}
+        >
+          Delete
+        </button>
+        <button
+          type="button"
+          className={comparing ? "is-active" : undefined}
+          disabled={scenarios.length < 2}
+          onClick={() => setComparing((prev) => !prev)}
+        >
+          Compare
+        </button>
+      </div>
+
+      {comparing && scenarios.length > 1 ? (
+        <ScenarioComparison
+          regions={regions}
+          attribute={attribute}
+          activeScenarioId={activeScenario?.id ?? null}
+          onSummariseScenarios={onSummariseScenarios}
+        />
+      ) : null}
+    </div>
+  );
+}
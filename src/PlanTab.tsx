@@ -1,38 +1,131 @@
-import OperationalPlan, { type PlanGrandTotal, type PlanItem, type PlanOutcomeItem } from "./OperationPlan";
+import OperationalPlan, {
+  type PlanGrandTotal,
+  type PlanItem,
+  type PlanOutcomeItem,
+  type PlanPeriodOutcome,
+} from "./OperationPlan";
 import type { RegionMeta } from "./overlay";
+import { BlendOptimiser } from "./BlendOptimiser";
+import { PlanScenarios, type PlanScenario, type ScenarioSummary } from "./PlanScenarios";
+import type { BlendResult, BlendSettings } from "./blend";
+import type { WorkControl } from "./slicedWork";
+import type { AngleSample, ExtractionMode } from "./extraction";
+import type { PlanUncertainty, UncertaintySettings } from "./uncertainty";
+import { RecipeCalculator } from "./RecipeCalculator";
+import type { RecipeCandidate, RecipeQuantity } from "./recipe";
 
 interface PlanTabProps {
   regions: RegionMeta[];
   plan: PlanItem[];
+  scenarios: PlanScenario[];
+  activeScenarioId: string | null;
+  onSelectScenario: (scenarioId: string) => void;
+  onCreateScenario: () => void;
+  onDuplicateScenario: (scenarioId: string) => void;
+  onRenameScenario: (scenarioId: string, name: string) => void;
+  onDeleteScenario: (scenarioId: string) => void;
+  onSummariseScenarios: () => ScenarioSummary[];
+  attributes: string[];
+  attribute: string;
   outcomeByItemId: Record<string, PlanOutcomeItem>;
   grandTotal: PlanGrandTotal;
+  periodOutcomes: PlanPeriodOutcome[];
+  timelinePeriod: number | null;
+  onChangeTimelinePeriod: (period: number | null) => void;
   onAddRegionToPlan: (region: RegionMeta) => void;
   onUpdatePlanAngle: (planItemId: string, angle: number) => void;
+  onUpdatePlanPeriod: (planItemId: string, period: number) => void;
+  onUpdatePlanDip: (planItemId: string, dip: number) => void;
+  onUpdatePlanMode: (planItemId: string, mode: ExtractionMode) => void;
+  onUpdatePlanIncrement: (planItemId: string, increment: number) => void;
+  onSweepPlanAngle: (planItemId: string, stepDegrees: number) => AngleSample[];
   onUpdatePlanQuantity: (planItemId: string, quantity: number) => void;
   onDeletePlanItem: (planItemId: string) => void;
+  onDescribeRecipeCandidates: (regionKeys: string[]) => RecipeCandidate[];
+  onApplyRecipe: (quantities: RecipeQuantity[]) => void;
+  onOptimiseBlend: (settings: BlendSettings, control: WorkControl) => Promise<BlendResult | null>;
+  onApplyBlend: (quantities: Record<string, number>) => void;
+  onAnalysePlanUncertainty: (settings: UncertaintySettings, control: WorkControl) => Promise<PlanUncertainty | null>;
 }
 
 export function PlanTab({
   regions,
   plan,
+  scenarios,
+  activeScenarioId,
+  onSelectScenario,
+  onCreateScenario,
+  onDuplicateScenario,
+  onRenameScenario,
+  onDeleteScenario,
+  onSummariseScenarios,
+  attributes,
+  attribute,
   outcomeByItemId,
   grandTotal,
+  periodOutcomes,
+  timelinePeriod,
+  onChangeTimelinePeriod,
   onAddRegionToPlan,
   onUpdatePlanAngle,
+  onUpdatePlanPeriod,
+  onUpdatePlanDip,
+  onUpdatePlanMode,
+  onUpdatePlanIncrement,
+  onSweepPlanAngle,
   onUpdatePlanQuantity,
   onDeletePlanItem,
+  onDescribeRecipeCandidates,
+  onApplyRecipe,
+  onOptimiseBlend,
+  onApplyBlend,
+  onAnalysePlanUncertainty,
 }: PlanTabProps) {
   return (
-    <div className="overlay-tab-content" role="tabpanel" aria-labelledby="overlay-tab-plan">
+    <div className="overlay-tab-content plan-tab" role="tabpanel" aria-labelledby="overlay-tab-plan">
+      <PlanScenarios
+        regions={regions}
+        attribute={attribute}
+        scenarios={scenarios}
+        activeScenarioId={activeScenarioId}
+        onSelectScenario={onSelectScenario}
+        onCreateScenario={onCreateScenario}
+        onDuplicateScenario={onDuplicateScenario}
+        onRenameScenario={onRenameScenario}
+        onDeleteScenario={onDeleteScenario}
+        onSummariseScenarios={onSummariseScenarios}
+      />
+      <RecipeCalculator
+        regions={regions}
+        attribute={attribute}
+        onDescribeRecipeCandidates={onDescribeRecipeCandidates}
+        onApplyRecipe={onApplyRecipe}
+      />
+      <BlendOptimiser
+        attributes={attributes}
+        hasPlanItems={plan.length > 0}
+        onOptimiseBlend={onOptimiseBlend}
+        onApplyBlend={onApplyBlend}
+      />
       <OperationalPlan
         regions={regions}
         plan={plan}
+        attribute={attribute}
         outcomeByItemId={outcomeByItemId}
         grandTotal={grandTotal}
+        periodOutcomes={periodOutcomes}
+        timelinePeriod={timelinePeriod}
+        onChangeTimelinePeriod={onChangeTimelinePeriod}
         onAddRegionToPlan={onAddRegionToPlan}
         onUpdatePlanAngle={onUpdatePlanAngle}
+        onUpdatePlanPeriod={onUpdatePlanPeriod}
+        onUpdatePlanDip={onUpdatePlanDip}
+        onUpdatePlanMode={onUpdatePlanMode}
+        onUpdatePlanIncrement={onUpdatePlanIncrement}
+        onSweepPlanAngle={onSweepPlanAngle}
         onUpdatePlanQuantity={onUpdatePlanQuantity}
         onDeletePlanItem={onDeletePlanItem}
+        onAnalysePlanUncertainty={onAnalysePlanUncertainty}
       />
     </div>
   );
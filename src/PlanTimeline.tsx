@@ -0,0 +1,123 @@
+import { useEffect, useState } from "react";
+import type { PlanPeriodOutcome } from "./OperationPlan";
+import { formatAttributeAverage, getAttributeLabel, getAttributeTotal } from "./points";
+import { getPeriodLabel } from "./schedule";
+
+interface PlanTimelineProps {
+  periodOutcomes: PlanPeriodOutcome[];
+  attribute: string;
+  timelinePeriod: number | null;
+  onChangeTimelinePeriod: (period: number | null) => void;
+}
+
+const TIMELINE_STEP_MS = 1000;
+
+export function PlanTimeline({
+  periodOutcomes,
+  attribute,
+  timelinePeriod,
+  onChangeTimelinePeriod,
+}: PlanTimelineProps) {
+  const [playing, setPlaying] = useState(false);
+  const label = getAttributeLabel(attribute);
+  const lastPeriod = periodOutcomes.reduce((last, outcome) => Math.max(last, outcome.period), 0);
+
+  // Step through the schedule one period at a time, stopping on the last one
+  useEffect(() => {
+    if (!playing) {
+      return;
+    }
+    if (timelinePeriod !== null && timelinePeriod >= lastPeriod) {
+      setPlaying(false);
+      return;
+    }
+
+    const timeoutId = window.setTimeout(() => {
+      onChangeTimelinePeriod(timelinePeriod === null ? 0 : timelinePeriod + 1);
+    }, TIMELINE_STEP_MS);
+
+    return () => {
+      window.clearTimeout(timeoutId);
+    };
+  }, [playing, timelinePeriod, lastPeriod, onChangeTimelinePeriod]);
+
+  const onPlay = (): void => {
+    if (timelinePeriod === null || timelinePeriod >= lastPeriod) {
+      onChangeTimelinePeriod(0);
+    }
+    setPlaying(true);
+  };
+
+  const onShowWholePlan = (): void => {
+    setPlaying(false);
+    onChangeTimelinePeriod(null);
+  };
+
+  if (periodOutcomes.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="plan-timeline">
+      <h3>Schedule:</h3>
+      <div className="toolbar">
+        {playing ? (
+          <button type="button" onClick={() => setPlaying(false)}>Pause</button>
+        ) : (
+          <button type="button" onClick={onPlay}>Play</button>
+        )}
+        <button type="button" disabled={timelinePeriod === null} onClick={onShowWholePlan}>
+          Whole plan
+        </button>
+        <span>{timelinePeriod === null ? "Whole plan" : `To end of ${getPeriodLabel(timelinePeriod)}`}</span>
+      </div>
+      <input
+        type="range"
+        min={0}
+        max={lastPeriod}
+        step={1}
+        value={timelinePeriod ?? lastPeriod}
+        aria-label="Schedule period"
+        onChange={(event) => {
+          setPlaying(false);
+          onChangeTimelinePeriod(Number(event.target.value));
+        }}
+      />
+
+      <table className="plan-timeline-rows">
+        <thead>
+          <tr>
+            <th>Period</th>
+            <th>Tonnes</th>
+            <th>Avg. {label}</th>
+            <th>Total {label}</th>
+          </tr>
+        </thead>
+        <tbody>
+          {periodOutcomes.map((outcome) => {
+            const total = getAttributeTotal(outcome.attributes, attribute);
+            const dug = timelinePeriod === null || outcome.period <= timelinePeriod;
+            return (
+              <tr
+                key={outcome.period}
+                className={[
+                  outcome.period === timelinePeriod ? "is-active" : "",
+                  dug ? "" : "is-pending",
+                ].join(" ").trim() || undefined}
+                onClick={() => {
+                  setPlaying(false);
+                  onChangeTimelinePeriod(outcome.period);
+                }}
+              >
+                <td>{getPeriodLabel(outcome.period)}</td>
+                <td>{outcome.tonnage.toFixed(0)}</td>
+                <td>{formatAttributeAverage(total, 2)}</td>
+                <td>{total.total.toFixed(1)}</td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+}
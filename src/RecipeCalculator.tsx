@@ -0,0 +1,151 @@
+import { useEffect, useMemo, useState } from "react";
+import { getRegionAttributeStats, type RegionMeta } from "./overlay";
+import { getAttributeLabel } from "./points";
+import { solveRecipe, type RecipeCandidate, type RecipeQuantity } from "./recipe";
+
+interface RecipeCalculatorProps {
+  regions: RegionMeta[];
+  attribute: string;
+  /** Dig curves for the picked regions, priced along the order their plan items would dig. */
+  onDescribeRecipeCandidates: (regionKeys: string[]) => RecipeCandidate[];
+  onApplyRecipe: (quantities: RecipeQuantity[]) => void;
+}
+
+/** A region with no assays for the attribute has no grade to blend on. */
+function isAssayed(region: RegionMeta, attribute: string): boolean {
+  return getRegionAttributeStats(region, attribute).tonnage > 0;
+}
+
+/** The grade range of the picked regions (or every region before any is picked), to two decimals. */
+function getGradeRange(regions: RegionMeta[], attribute: string): { min: number; max: number } {
+  let min = Infinity;
+  let max = -Infinity;
+  for (const region of regions) {
+    const stats = getRegionAttributeStats(region, attribute);
+    if (stats.tonnage > 0) {
+      min = Math.min(min, stats.min);
+      max = Math.max(max, stats.max);
+    }
+  }
+  return Number.isFinite(min)
+    ? { min: Math.floor(min * 100) / 100, max: Math.ceil(max * 100) / 100 }
+    : { min: 0, max: 0 };
+}
+
+export function RecipeCalculator({ regions, attribute, onDescribeRecipeCandidates, onApplyRecipe }: RecipeCalculatorProps) {
+  const [targetTonnage, setTargetTonnage] = useState(10000);
+  // Null until edited, so the window follows the picked regions' grade range
+  const [minGradeInput, setMinGradeInput] = useState<number | null>(null);
+  const [maxGradeInput, setMaxGradeInput] = useState<number | null>(null);
+  const [candidateKeys, setCandidateKeys] = useState<string[]>([]);
+  const label = getAttributeLabel(attribute);
+
+  useEffect(() => {
+    setMinGradeInput(null);
+    setMaxGradeInput(null);
+  }, [attribute]);
+
+  const assayedKeys = useMemo(
+    () => regions
+      .filter((region) => candidateKeys.includes(region.key) && isAssayed(region, attribute))
+      .map((region) => region.key),
+    [regions, candidateKeys, attribute],
+  );
+  const gradeRange = getGradeRange(
+    assayedKeys.length > 0 ? regions.filter((region) => assayedKeys.includes(region.key)) : regions,
+    attribute,
+  );
+  const minGrade = minGradeInput ?? gradeRange.min;
+  const maxGrade = maxGradeInput ?? gradeRange.max;
+
+  const candidates = useMemo(() => onDescribeRecipeCandidates(assayedKeys), [assayedKeys, onDescribeRecipeCandidates]);
+  const solution = useMemo(
+    () => solveRecipe(candidates, { tonnage: targetTonnage, minGrade, maxGrade }),
+    [candidates, targetTonnage, minGrade, maxGrade],
+  );
+
+  const toggleCandidate = (key: string): void => {
+    setCandidateKeys((prev) =>
+      prev.includes(key) ? prev.filter((value) => value !== key) : [...prev, key],
+    );
+  };
+
+  return (
+    <div className="card recipe-card">
+      <h4>Recipe calculator</h4>
+
+      <div className="recipe-grid">
+        <label className="label" htmlFor="recipe-tonnage">Target tonnes</label>
+        <input
+          id="recipe-tonnage"
+          type="number"
+          min={0}
+          step={100}
+          value={targetTonnage}
+          onChange={(event) => setTargetTonnage(Number(event.target.value))}
+        />
+        <label className="label" htmlFor="recipe-min-grade">Min avg. {label}</label>
+        <input
+          id="recipe-min-grade"
+          type="number"
+          step={0.1}
+          value={minGrade}
+          onChange={(event) => setMinGradeInput(Number(event.target.value))}
+        />
+        <label className="label" htmlFor="recipe-max-grade">Max avg. {label}</label>
+        <input
+          id="recipe-max-grade"
+          type="number"
+          step={0.1}
+          value={maxGrade}
+          onChange={(event) => setMaxGradeInput(Number(event.target.value))}
+        />
+      </div>
+
+      <p>Candidate regions:</p>
+      <div className="toolbar plan-add-region-row">
+        {regions.map((region) => (
+          <button
+            key={region.key}
+            type="button"
+            className={candidateKeys.includes(region.key) ? "is-active" : undefined}
+            aria-pressed={candidateKeys.includes(region.key)}
+            disabled={!isAssayed(region, attribute)}
+            title={isAssayed(region, attribute) ? undefined : `No ${label} assays in this region`}
+            onClick={() => toggleCandidate(region.key)}
+          >
+            {region.regionId}
+          </button>
+        ))}
+      </div>
+
+      {solution.feasible ? (
+        <>
+          <div className="display-grid">
+            {solution.quantities.map((entry) => (
+              <RecipeRow key={entry.regionKey} entry={entry} />
+            ))}
+            <span>Blend:</span>
+            <span>{solution.tonnage.toFixed(0)} t @ {solution.grade.toFixed(2)}</span>
+          </div>
+          <div className="toolbar recipe-actions">
+            <button className="btn btn-primary" type="button" onClick={() => onApplyRecipe(solution.quantities)}>
+              Replace plan
+            </button>
+          </div>
+        </>
+      ) : (
+        <div className="overlay-empty recipe-infeasible">{solution.reason}</div>
+      )}
+    </div>
+  );
+}
+
+function RecipeRow({ entry }: { entry: RecipeQuantity }) {
+  return (
+    <>
+      <span>{entry.regionId}:</span>
+      <span>{entry.quantity.toFixed(0)} t @ {entry.grade.toFixed(2)}</span>
+    </>
+  );
+}
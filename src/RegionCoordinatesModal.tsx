@@ -0,0 +1,85 @@
+import { useState } from "react";
+import {
+  getRegionCoordinatesError,
+  parseVertexList,
+  type RegionCoordinates,
+} from "./regionCoordinates";
+
+interface RegionCoordinatesModalProps {
+  onCreate: (regionId: string | null, coordinates: RegionCoordinates) => void;
+  onCancel: () => void;
+}
+
+function parseElevation(text: string): number {
+  return text.trim() === "" ? Number.NaN : Number(text);
+}
+
+export function RegionCoordinatesModal({ onCreate, onCancel }: RegionCoordinatesModalProps) {
+  const [regionId, setRegionId] = useState("");
+  const [vertexText, setVertexText] = useState("");
+  const [minZText, setMinZText] = useState("");
+  const [maxZText, setMaxZText] = useState("");
+
+  const parsed = parseVertexList(vertexText);
+  const minZ = parseElevation(minZText);
+  const maxZ = parseElevation(maxZText);
+  const error = getRegionCoordinatesError(parsed, minZ, maxZ);
+  const touched = vertexText.trim() !== "" || minZText !== "" || maxZText !== "";
+
+  const onFormConfirmed = (): void => {
+    if (error) {
+      return;
+    }
+    const trimmedId = regionId.trim();
+    onCreate(trimmedId.length > 0 ? trimmedId : null, { footprint: parsed.vertices, minZ, maxZ });
+  };
+
+  return (
+    <dialog
+      className="modal"
+      open
+      onCancel={(event) => {
+        event.preventDefault();
+        onCancel();
+      }}
+    >
+      <div className="modal-scrim">
+        <div className="modal-card">
+          <div className="modal-title">New region from coordinates</div>
+          <label className="label">Region ID</label>
+          <input
+            type="text"
+            value={regionId}
+            placeholder="Suggested when left blank"
+            onChange={(event) => setRegionId(event.target.value)}
+          />
+          <label className="label">Vertices (easting, northing per line)</label>
+          <textarea
+            className="region-coordinates-vertices"
+            rows={8}
+            value={vertexText}
+            placeholder={"512400.0, 7045210.5\n512460.0, 7045210.5\n512460.0, 7045270.0"}
+            onChange={(event) => setVertexText(event.target.value)}
+          />
+          <div className="recipe-grid">
+            <label className="label">Min z</label>
+            <input type="number" step={0.5} value={minZText} onChange={(event) => setMinZText(event.target.value)} />
+            <label className="label">Max z</label>
+            <input type="number" step={0.5} value={maxZText} onChange={(event) => setMaxZText(event.target.value)} />
+          </div>
+          <div className="modal-stats">
+            {touched && error ? error : `Vertices: ${parsed.vertices.length}`}
+          </div>
+          <div className="actions">
+            <button className="btn btn-primary" type="button" disabled={error !== null} onClick={onFormConfirmed}>
+              Create
+            </button>
+            <button className="btn" type="button" onClick={onCancel}>
+              Cancel
+            </button>
+          </div>
+        </div>
+      </div>
+    </dialog>
+  );
+}
@@ -1,35 +1,144 @@
-import type { MutableRefObject } from "react";
-import type { RegionMeta } from "./overlay";
+import { useMemo, useRef, useState, type MutableRefObject } from "react";
+import { downloadTextFile } from "./download";
+import type { GeoJsonFeatureCollection } from "./geojson";
+import { writeDxf, type DxfDrawing } from "./dxf";
+import type { GradeDistribution } from "./distribution";
+import { GradeDistributionPanel } from "./GradeDistributionPanel";
+import { getRegionAttributeStats, type RegionMeta } from "./overlay";
+import { formatAttributeAverage, getAttributeLabel } from "./points";
+import { SELECTION_MODES, getSelectionModeLabel, type SelectionMode } from "./useSelectionController";
+import type { ViewMode } from "./planView";
+import { FOOTPRINT_OPERATIONS, getFootprintOperationLabel, type FootprintOperation } from "./footprintBoolean";
 
 interface RegionTabProps {
   status: string;
   regions: RegionMeta[];
   selectedRegionKeys: string[];
+  attribute: string;
+  selectionMode: SelectionMode;
+  onChangeSelectionMode: (mode: SelectionMode) => void;
+  viewMode: ViewMode;
+  onChangeViewMode: (mode: ViewMode) => void;
+  footprintDrawing: boolean;
+  onToggleFootprintDrawing: () => void;
+  snapFootprint: boolean;
+  onChangeSnapFootprint: (value: boolean) => void;
   summary: {
     totalPoints: number;
-    averageW: number;
+    totalTonnage: number;
+    average: number;
+    /** Tonnes behind the average; zero when none of the selection is assayed. */
+    assayedTonnage: number;
   };
   regionItemRefs: MutableRefObject<Map<string, HTMLDivElement>>;
   onSelectRegion: (key: string) => void;
   onRequestRegionEdit: (key: string) => void;
+  onRequestShapeEdit: (key: string) => void;
+  onRequestCoordinatesRegion: () => void;
   onDeleteRegion: (key: string) => void;
   onClearSelections: () => void;
+  onDescribeRegionGrades: (regionKeys: string[]) => GradeDistribution | null;
+  onExportRegionsGeoJson: () => GeoJsonFeatureCollection;
+  onImportRegionsGeoJson: (file: File) => Promise<void>;
+  onExportRegionsDxf: () => DxfDrawing;
+  splitLineDrawing: boolean;
+  onCombineRegions: (operation: FootprintOperation) => void;
+  onToggleSplitLine: () => void;
 }
 
 export function RegionTab({
   status,
   regions,
   selectedRegionKeys,
+  attribute,
+  selectionMode,
+  onChangeSelectionMode,
+  viewMode,
+  onChangeViewMode,
+  footprintDrawing,
+  onToggleFootprintDrawing,
+  snapFootprint,
+  onChangeSnapFootprint,
   summary,
   regionItemRefs,
   onSelectRegion,
   onRequestRegionEdit,
+  onRequestShapeEdit,
+  onRequestCoordinatesRegion,
   onDeleteRegion,
   onClearSelections,
+  onDescribeRegionGrades,
+  onExportRegionsGeoJson,
+  onImportRegionsGeoJson,
+  onExportRegionsDxf,
+  splitLineDrawing,
+  onCombineRegions,
+  onToggleSplitLine,
 }: RegionTabProps) {
+  const [showDistribution, setShowDistribution] = useState(false);
+  const geoJsonInputRef = useRef<HTMLInputElement | null>(null);
+  const distribution = useMemo(
+    () => (showDistribution && selectedRegionKeys.length > 0 ? onDescribeRegionGrades(selectedRegionKeys) : null),
+    [showDistribution, selectedRegionKeys, onDescribeRegionGrades],
+  );
+
   return (
     <div className="overlay-tab-content" role="tabpanel" aria-labelledby="overlay-tab-regions">
       <div className="overlay-status">{status}</div>
+      <div className="toolbar selection-mode-toggle" role="group" aria-label="Selection mode">
+        {SELECTION_MODES.map((mode) => (
+          <button
+            key={mode}
+            className={`btn${selectionMode === mode ? " is-active" : ""}`}
+            type="button"
+            aria-pressed={selectionMode === mode}
+            onClick={() => onChangeSelectionMode(mode)}
+          >
+            {getSelectionModeLabel(mode)}
+          </button>
+        ))}
+        <button className="btn" type="button" onClick={onRequestCoordinatesRegion}>
+          From coordinates
+        </button>
+      </div>
+      <div className="toolbar selection-mode-toggle" role="group" aria-label="View">
+        <button
+          className={`btn${viewMode === "perspective" ? " is-active" : ""}`}
+          type="button"
+          aria-pressed={viewMode === "perspective"}
+          onClick={() => onChangeViewMode("perspective")}
+        >
+          3D
+        </button>
+        <button
+          className={`btn${viewMode === "plan" ? " is-active" : ""}`}
+          type="button"
+          aria-pressed={viewMode === "plan"}
+          onClick={() => onChangeViewMode("plan")}
+        >
+          Plan
+        </button>
+        {viewMode === "plan" ? (
+          <>
+            <button
+              className={`btn${footprintDrawing ? " is-active" : ""}`}
+              type="button"
+              aria-pressed={footprintDrawing}
+              onClick={onToggleFootprintDrawing}
+            >
+              Draw footprint
+            </button>
+            <label className="plan-snap-toggle">
+              <input
+                type="checkbox"
+                checked={snapFootprint}
+                onChange={(event) => onChangeSnapFootprint(event.target.checked)}
+              />
+              Snap
+            </label>
+          </>
+        ) : null}
+      </div>
 
       {regions.length === 0 ? (
         <div className="overlay-empty">No regions</div>
@@ -76,6 +185,24 @@ export function RegionTab({
                       />
                     </svg>
                   </button>
+                  <button
+                    className="btn overlay-btn-icon"
+                    type="button"
+                    aria-label={`Edit shape of region ${region.regionId}`}
+                    title="Edit shape"
+                    onClick={(event) => {
+                      event.stopPropagation();
+                      onRequestShapeEdit(region.key);
+                    }}
+                  >
+                    <svg viewBox="0 0 24 24" width="12" height="12" aria-hidden="true" focusable="false">
+                      <path d="M5 6l12-2 3 11-9 5-7-7z" fill="none" stroke="currentColor" strokeWidth="1.5" />
+                      <path
+                        d="M3.5 4.5h3v3h-3zM15.5 2.5h3v3h-3zM18.5 13.5h3v3h-3zM9.5 18.5h3v3h-3zM2.5 11.5h3v3h-3z"
+                        fill="currentColor"
+                      />
+                    </svg>
+                  </button>
                   <button
                     className="btn overlay-btn-icon"
                     type="button"
@@ -97,7 +224,9 @@ export function RegionTab({
                 </div>
               </div>
               <div className="overlay-region-meta">
-                Points: {region.pointCount} | Avg. grade: {region.avgW.toFixed(1)}
+                Points: {region.pointCount} | Tonnes: {region.tonnage.toFixed(0)} |{" "}
+                Avg. {getAttributeLabel(attribute)}:{" "}
+                {formatAttributeAverage(getRegionAttributeStats(region, attribute), 1)}
               </div>
             </div>
           ))}
@@ -108,6 +237,40 @@ export function RegionTab({
         <button type="button" onClick={onClearSelections} disabled={regions.length === 0}>
           Clear
         </button>
+        <button type="button" onClick={() => geoJsonInputRef.current?.click()}>
+          Import GeoJSON
+        </button>
+        <button
+          type="button"
+          disabled={regions.length === 0}
+          onClick={() => downloadTextFile(
+            "regions.geojson",
+            JSON.stringify(onExportRegionsGeoJson(), null, 2),
+            "application/geo+json",
+          )}
+        >
+          Export GeoJSON
+        </button>
+        <button
+          type="button"
+          disabled={regions.length === 0}
+          onClick={() => downloadTextFile("regions.dxf", writeDxf(onExportRegionsDxf()), "application/dxf")}
+        >
+          Export DXF
+        </button>
+        <input
+          ref={geoJsonInputRef}
+          type="file"
+          accept=".geojson,.json,application/geo+json,application/json"
+          hidden
+          onChange={(event) => {
+            const file = event.target.files?.[0];
+            event.target.value = "";
+            if (file) {
+              void onImportRegionsGeoJson(file);
+            }
+          }}
+        />
       </div>
 
       <div className="card overlay-summary-card">
@@ -117,9 +280,52 @@ export function RegionTab({
           <span>Total points: </span>
           <span>{summary.totalPoints}</span>
 
-          <span>Average grade: </span>
-          <span>{summary.averageW.toFixed(1)}</span>
+          <span>Total tonnes: </span>
+          <span>{summary.totalTonnage.toFixed(0)}</span>
+
+          <span>Average {getAttributeLabel(attribute)}: </span>
+          <span>{formatAttributeAverage({ average: summary.average, tonnage: summary.assayedTonnage }, 1)}</span>
+        </div>
+
+        <div className="toolbar recipe-actions">
+          <button
+            type="button"
+            className={showDistribution ? "is-active" : undefined}
+            aria-pressed={showDistribution}
+            disabled={selectedRegionKeys.length === 0}
+            onClick={() => setShowDistribution((prev) => !prev)}
+          >
+            Distribution
+          </button>
+        </div>
+        <div className="toolbar recipe-actions" role="group" aria-label="Footprint operations">
+          {FOOTPRINT_OPERATIONS.map((operation) => (
+            <button
+              key={operation}
+              type="button"
+              title={operation === "difference"
+                ? "Take the other selected regions away from the first one selected"
+                : "The first region selected takes the result"}
+              disabled={selectedRegionKeys.length < 2}
+              onClick={() => onCombineRegions(operation)}
+            >
+              {getFootprintOperationLabel(operation)}
+            </button>
+          ))}
+          <button
+            type="button"
+            className={splitLineDrawing ? "is-active" : undefined}
+            aria-pressed={splitLineDrawing}
+            title="Draw a line across the selected region in the plan view"
+            disabled={!splitLineDrawing && selectedRegionKeys.length !== 1}
+            onClick={onToggleSplitLine}
+          >
+            Split
+          </button>
         </div>
+        {showDistribution && selectedRegionKeys.length > 0 ? (
+          <GradeDistributionPanel distribution={distribution} attribute={attribute} />
+        ) : null}
       </div>
     </div>
   );
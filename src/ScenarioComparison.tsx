@@ -0,0 +1,130 @@
+import { useMemo } from "react";
+import type { PlanGrandTotal } from "./OperationPlan";
+import type { RegionMeta } from "./overlay";
+import type { ScenarioSummary } from "./PlanScenarios";
+import { getAttributeLabel, getAttributeTotal } from "./points";
+
+interface ScenarioComparisonProps {
+  regions: RegionMeta[];
+  attribute: string;
+  activeScenarioId: string | null;
+  onSummariseScenarios: () => ScenarioSummary[];
+}
+
+interface ComparisonRow {
+  key: string;
+  label: string;
+  digits: number;
+  valueOf: (summary: ScenarioSummary) => number | null;
+}
+
+function getTonnage(total: PlanGrandTotal | undefined): number | null {
+  return total ? total.tonnage : null;
+}
+
+/** Null when nothing extracted carries the attribute, so the cell stays blank. */
+function getAverage(total: PlanGrandTotal | undefined, attribute: string): number | null {
+  const attributeTotal = total ? getAttributeTotal(total.attributes, attribute) : null;
+  return attributeTotal && attributeTotal.tonnage > 0 ? attributeTotal.average : null;
+}
+
+function formatDelta(delta: number, digits: number): string {
+  const text = delta.toFixed(digits);
+  return delta > 0 && Number(text) !== 0 ? `+${text}` : text;
+}
+
+/** Scenarios side by side, with each column's difference from the active scenario. */
+export function ScenarioComparison({
+  regions,
+  attribute,
+  activeScenarioId,
+  onSummariseScenarios,
+}: ScenarioComparisonProps) {
+  const summaries = useMemo(() => onSummariseScenarios(), [onSummariseScenarios]);
+  const label = getAttributeLabel(attribute);
+  const baseline = summaries.find((summary) => summary.scenarioId === activeScenarioId) ?? summaries[0];
+
+  const rows: ComparisonRow[] = [
+    {
+      key: "tonnage",
+      label: "Tonnes",
+      digits: 0,
+      valueOf: (summary) => summary.grandTotal.tonnage,
+    },
+    {
+      key: "average",
+      label: `Avg. ${label}`,
+      digits: 2,
+      valueOf: (summary) => getAverage(summary.grandTotal, attribute),
+    },
+    {
+      key: "total",
+      label: `Total ${label}`,
+      digits: 1,
+      valueOf: (summary) => getAttributeTotal(summary.grandTotal.attributes, attribute).total,
+    },
+  ];
+
+  // Only regions some scenario actually digs
+  for (const region of regions) {
+    if (!summaries.some((summary) => summary.regionTotals[region.key])) {
+      continue;
+    }
+    rows.push(
+      {
+        key: `${region.key}:tonnage`,
+        label: `${region.regionId} tonnes`,
+        digits: 0,
+        valueOf: (summary) => getTonnage(summary.regionTotals[region.key]),
+      },
+      {
+        key: `${region.key}:average`,
+        label: `${region.regionId} avg. ${label}`,
+        digits: 2,
+        valueOf: (summary) => getAverage(summary.regionTotals[region.key], attribute),
+      },
+    );
+  }
+
+  return (
+    <table className="scenario-comparison">
+      <thead>
+        <tr>
+          <th />
+          {summaries.map((summary) => (
+            <th key={summary.scenarioId} className={summary === baseline ? "is-active" : undefined}>
+              {summary.name}
+            </th>
+          ))}
+        </tr>
+      </thead>
+      <tbody>
+        {rows.map((row) => {
+          const baselineValue = baseline ? row.valueOf(baseline) : null;
+          return (
+            <tr key={row.key}>
+              <th>{row.label}</th>
+              {summaries.map((summary) => {
+                const value = row.valueOf(summary);
+                if (value === null) {
+                  return <td key={summary.scenarioId} className="scenario-missing">–</td>;
+                }
+                const delta = summary !== baseline && baselineValue !== null ? value - baselineValue : null;
+                return (
+                  <td key={summary.scenarioId}>
+                    {value.toFixed(row.digits)}
+                    {delta !== null ? (
+                      <span className={`scenario-delta${delta > 0 ? " is-up" : delta < 0 ? " is-down" : ""}`}>
+                        {formatDelta(delta, row.digits)}
+                      </span>
+                    ) : null}
+                  </td>
+                );
+              })}
+            </tr>
+          );
+        })}
+      </tbody>
+    </table>
+  );
+}
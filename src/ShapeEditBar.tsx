@@ -0,0 +1,76 @@
+import { useEffect, useState } from "react";
+
+/** The region in shape edit mode, with elevations in dataset coordinates. */
+export interface ShapeEditSummary {
+  regionId: string;
+  vertexCount: number;
+  pointCount: number;
+  tonnage: number;
+  minZ: number;
+  maxZ: number;
+}
+
+interface ShapeEditBarProps {
+  shapeEdit: ShapeEditSummary;
+  onSetShapeElevation: (edge: "top" | "bottom", z: number) => void;
+  onSaveShapeEdit: () => void;
+  onCancelShapeEdit: () => void;
+}
+
+function ElevationInput({ label, value, onCommit }: { label: string; value: number; onCommit: (z: number) => void }) {
+  const [draft, setDraft] = useState(value.toFixed(2));
+
+  useEffect(() => {
+    setDraft(value.toFixed(2));
+  }, [value]);
+
+  const commit = (): void => {
+    const z = Number(draft);
+    if (draft.trim() !== "" && Number.isFinite(z)) {
+      onCommit(z);
+    } else {
+      setDraft(value.toFixed(2));
+    }
+  };
+
+  return (
+    <>
+      <label className="label">{label}</label>
+      <input
+        type="number"
+        step={0.5}
+        value={draft}
+        onChange={(event) => setDraft(event.target.value)}
+        onBlur={commit}
+        onKeyDown={(event) => {
+          if (event.key === "Enter") {
+            commit();
+          }
+        }}
+      />
+    </>
+  );
+}
+
+export function ShapeEditBar({ shapeEdit, onSetShapeElevation, onSaveShapeEdit, onCancelShapeEdit }: ShapeEditBarProps) {
+  return (
+    <div className="card shape-edit-bar">
+      <h4>Editing {shapeEdit.regionId}</h4>
+      <p className="shape-edit-hint">
+        Drag white vertices to move them, grey midpoints to add one, Alt + click a vertex to remove it,
+        and the orange cones to move the top and bottom.
+      </p>
+      <div className="recipe-grid">
+        <ElevationInput label="Top z" value={shapeEdit.maxZ} onCommit={(z) => onSetShapeElevation("top", z)} />
+        <ElevationInput label="Bottom z" value={shapeEdit.minZ} onCommit={(z) => onSetShapeElevation("bottom", z)} />
+      </div>
+      <div className="overlay-region-meta">
+        Vertices: {shapeEdit.vertexCount} | Points: {shapeEdit.pointCount} | Tonnes: {shapeEdit.tonnage.toFixed(0)}
+      </div>
+      <div className="toolbar recipe-actions">
+        <button className="btn btn-primary" type="button" onClick={onSaveShapeEdit}>Save shape</button>
+        <button className="btn" type="button" onClick={onCancelShapeEdit}>Cancel</button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,97 @@
+import { useEffect, useState } from "react";
+import type { Shift } from "./points";
+
+/** Form values of the point time window; empty strings leave that side open. */
+export interface TimeWindow {
+  from: string;
+  to: string;
+  shift: Shift | "all";
+}
+
+export const ALL_TIME: TimeWindow = {
+  from: "",
+  to: "",
+  shift: "all",
+};
+
+/**
+ * Builds the `/points` query string. The datetime inputs go as typed, without an offset, so
+ * the server reads them in the site's time zone rather than the browser's.
+ */
+export function toPointQueryString(timeWindow: TimeWindow): string {
+  const params = new URLSearchParams();
+
+  if (timeWindow.from) {
+    params.set("from", timeWindow.from);
+  }
+  if (timeWindow.to) {
+    params.set("to", timeWindow.to);
+  }
+  if (timeWindow.shift !== "all") {
+    params.set("shift", timeWindow.shift);
+  }
+
+  return params.toString();
+}
+
+interface TimeWindowControlProps {
+  timeWindow: TimeWindow;
+  onChangeTimeWindow: (timeWindow: TimeWindow) => void;
+}
+
+export function TimeWindowControl({ timeWindow, onChangeTimeWindow }: TimeWindowControlProps) {
+  const [draft, setDraft] = useState<TimeWindow>(timeWindow);
+
+  useEffect(() => {
+    setDraft(timeWindow);
+  }, [timeWindow]);
+
+  const isDirty =
+    draft.from !== timeWindow.from ||
+    draft.to !== timeWindow.to ||
+    draft.shift !== timeWindow.shift;
+  const isInvalid = draft.from !== "" && draft.to !== "" && draft.from > draft.to;
+
+  return (
+    <div className="time-window">
+      <div className="time-window-grid">
+        <label className="label" htmlFor="time-window-from">From (site time)</label>
+        <input
+          id="time-window-from"
+          type="datetime-local"
+          value={draft.from}
+          onChange={(event) => setDraft({ ...draft, from: event.target.value })}
+        />
+        <label className="label" htmlFor="time-window-to">To (site time)</label>
+        <input
+          id="time-window-to"
+          type="datetime-local"
+          value={draft.to}
+          onChange={(event) => setDraft({ ...draft, to: event.target.value })}
+        />
+        <label className="label" htmlFor="time-window-shift">Shift</label>
+        <select
+          id="time-window-shift"
+          value={draft.shift}
+          onChange={(event) => setDraft({ ...draft, shift: event.target.value as TimeWindow["shift"] })}
+        >
+          <option value="all">All</option>
+          <option value="day">Day</option>
+          <option value="night">Night</option>
+        </select>
+      </div>
+      <div className="toolbar">
+        <button type="button" disabled={!isDirty || isInvalid} onClick={() => onChangeTimeWindow(draft)}>
+          Apply
+        </button>
+        <button
+          type="button"
+          disabled={timeWindow === ALL_TIME && !isDirty}
+          onClick={() => onChangeTimeWindow(ALL_TIME)}
+        >
+          All time
+        </button>
+      </div>
+    </div>
+  );
+}
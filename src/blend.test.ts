@@ -0,0 +1,82 @@
+import { describe, expect, test } from "bun:test";
+import { optimiseBlend, type BlendLimit, type BlendRegion, type BlendSettings } from "./blend";
+import type { Point } from "./points";
+
+/** Ten 10 t reports in a row, all assayed at the same Fe. */
+function region(regionId: string, fe: number, originX: number, quantity = 0): BlendRegion {
+  const points: Point[] = Array.from({ length: 10 }, (_, index) => ({
+    x: originX + index,
+    y: 0,
+    z: 0,
+    w: 0,
+    mass: 10,
+    attributes: { Fe: fe },
+  }));
+  return {
+    regionId,
+    points,
+    items: [{ planItemId: `${regionId}-item`, mode: "face", angle: 0, dip: 90, increment: 5, quantity }],
+  };
+}
+
+function feLimit(min: number | null, max: number | null = null): BlendLimit {
+  return { attribute: "Fe", min, max, target: null };
+}
+
+function maxTonnage(limits: BlendLimit[], tonnage: number | null = null): BlendSettings {
+  return { objective: "maxTonnage", tonnage, limits };
+}
+
+const RICH = region("rich", 60, 0);
+const LEAN = region("lean", 50, 100);
+
+describe("optimiseBlend", () => {
+  test("digs both regions out when their full blend meets the limit", async () => {
+    const result = await optimiseBlend([RICH, LEAN], maxTonnage([feLimit(55)]));
+    expect(result.feasible).toBe(true);
+    expect(result.tonnage).toBe(200);
+    expect(result.averages.Fe).toBeCloseTo(55);
+    expect(result.quantities).toEqual({ "rich-item": 100, "lean-item": 100 });
+    expect(result.violated).toEqual([]);
+  });
+
+  test("reports the limit and the emptied regions the blend sits on", async () => {
+    const result = await optimiseBlend([RICH, LEAN], maxTonnage([feLimit(55)]));
+    expect(result.binding).toContainEqual({ kind: "min", subject: "Fe", limit: 55, value: result.averages.Fe as number });
+    expect(result.binding).toContainEqual({ kind: "capacity", subject: "rich", limit: 100, value: 100 });
+    expect(result.binding).toContainEqual({ kind: "capacity", subject: "lean", limit: 100, value: 100 });
+  });
+
+  test("leaves lean tonnes behind to hold a tighter limit", async () => {
+    const result = await optimiseBlend([RICH, LEAN], maxTonnage([feLimit(58)]));
+    expect(result.feasible).toBe(true);
+    expect(result.quantities["rich-item"]).toBe(100);
+    expect(result.averages.Fe).toBeGreaterThanOrEqual(58);
+    expect(result.binding.map((report) => report.subject)).not.toContain("lean");
+  });
+
+  test("stops at the tonnage limit and reports it as binding", async () => {
+    const result = await optimiseBlend([RICH, LEAN], maxTonnage([feLimit(55)], 100));
+    expect(result.feasible).toBe(true);
+    expect(result.tonnage).toBe(100);
+    expect(result.binding).toContainEqual({ kind: "tonnage", subject: "tonnes", limit: 100, value: 100 });
+  });
+
+  test("reports a limit no blend can meet as violated", async () => {
+    const result = await optimiseBlend([RICH, LEAN], maxTonnage([feLimit(65)]));
+    expect(result.feasible).toBe(false);
+    expect(result.violated).toEqual([
+      { kind: "min", subject: "Fe", limit: 65, value: result.averages.Fe as number },
+    ]);
+    expect(result.averages.Fe).toBeCloseTo(60);
+  });
+
+  test("starts from the plan quantities and gives the same answer each run", async () => {
+    const regions = [region("rich", 60, 0, 30), region("lean", 50, 100, 70)];
+    const first = await optimiseBlend(regions, maxTonnage([feLimit(null, 56)]));
+    const second = await optimiseBlend(regions, maxTonnage([feLimit(null, 56)]));
+    expect(second).toEqual(first);
+    expect(first.feasible).toBe(true);
+    expect(first.averages.Fe).toBeLessThanOrEqual(56);
+  });
+});
@@ -0,0 +1,422 @@
+import { getExtractionOrder, type ExtractionStep } from "./extraction";
+import { getAttributeValue, getPointMass, type Point } from "./points";
+import { createCheckpoint, type WorkControl } from "./slicedWork";
+
+/** Quality limits on one attribute's tonnage-weighted blend average. */
+export interface BlendLimit {
+  attribute: string;
+  min: number | null;
+  max: number | null;
+  /** Preferred average when minimising deviation from target. */
+  target: number | null;
+}
+
+export type BlendObjective = "maxTonnage" | "closestToTarget";
+
+export interface BlendSettings {
+  objective: BlendObjective;
+  /** Upper limit on tonnes when maximising, the tonnes to aim for otherwise. */
+  tonnage: number | null;
+  limits: BlendLimit[];
+}
+
+/** A region's points and the plan items that dig it, in plan order. */
+export interface BlendRegion {
+  regionId: string;
+  points: Point[];
+  items: Array<ExtractionStep & { planItemId: string }>;
+}
+
+export interface BlendConstraintReport {
+  kind: "min" | "max" | "tonnage" | "capacity";
+  /** Attribute for min/max limits, region id for capacity. */
+  subject: string;
+  limit: number;
+  value: number;
+}
+
+export interface BlendResult {
+  feasible: boolean;
+  /** Tonnes requested per plan item. */
+  quantities: Record<string, number>;
+  tonnage: number;
+  averages: Record<string, number>;
+  /** Constraints the blend sits on; loosening one of these would let it improve. */
+  binding: BlendConstraintReport[];
+  /** Constraints the best blend found still breaks. */
+  violated: BlendConstraintReport[];
+}
+
+interface ItemModel {
+  planItemId: string;
+  order: Uint32Array;
+  /** Cumulative tonnes, grade-tonnes and assayed tonnes along `order`; only used when the item is alone in its region. */
+  cumulativeMass: Float64Array;
+  cumulativeGrades: Float64Array[];
+  cumulativeAssayed: Float64Array[];
+}
+
+interface RegionModel {
+  regionId: string;
+  points: Point[];
+  masses: Float64Array;
+  /** Per attribute, NaN where a report was not assayed. */
+  values: Float64Array[];
+  tonnage: number;
+  largestMass: number;
+  items: ItemModel[];
+}
+
+interface ItemOutcome {
+  tonnage: number;
+  grades: number[];
+  /** Tonnes behind each grade sum; unassayed reports dig tonnes but carry no grade. */
+  assayed: number[];
+}
+
+interface Evaluation {
+  outcomes: ItemOutcome[][];
+  tonnage: number;
+  averages: number[];
+  violation: number;
+  objective: number;
+}
+
+interface Move {
+  quantities: number[][];
+  evaluation: Evaluation;
+}
+
+const MAX_EVALUATIONS = 20000;
+const MIN_EVALUATIONS = 200;
+/** Report visits the search may spend, so large regions dug by several faces get fewer evaluations. */
+const WORK_BUDGET = 2e8;
+const STEP_LEVELS = 8;
+const FEASIBILITY_TOLERANCE = 1e-9;
+/** How close to a limit, as a share of the attribute's spread, counts as sitting on it. */
+const BINDING_TOLERANCE = 0.01;
+
+function buildRegionModel(region: BlendRegion, attributes: string[]): RegionModel {
+  const masses = Float64Array.from(region.points, getPointMass);
+  const values = attributes.map((attribute) =>
+    Float64Array.from(region.points, (point) => getAttributeValue(point, attribute) ?? NaN),
+  );
+  const singleItem = region.items.length === 1;
+
+  const items = region.items.map((item): ItemModel => {
+    const order = getExtractionOrder(region.points, item);
+    const cumulativeMass = new Float64Array(singleItem ? order.length + 1 : 0);
+    const cumulativeGrades = values.map(() => new Float64Array(singleItem ? order.length + 1 : 0));
+    const cumulativeAssayed = values.map(() => new Float64Array(singleItem ? order.length + 1 : 0));
+
+    if (singleItem) {
+      for (let i = 0; i < order.length; i += 1) {
+        const index = order[i] as number;
+        const mass = masses[index] as number;
+        cumulativeMass[i + 1] = (cumulativeMass[i] as number) + mass;
+        values.forEach((attributeValues, a) => {
+          const value = attributeValues[index] as number;
+          const assayed = Number.isNaN(value) ? 0 : mass;
+          const grades = cumulativeGrades[a] as Float64Array;
+          const tonnes = cumulativeAssayed[a] as Float64Array;
+          grades[i + 1] = (grades[i] as number) + (assayed > 0 ? value * mass : 0);
+          tonnes[i + 1] = (tonnes[i] as number) + assayed;
+        });
+      }
+    }
+
+    return { planItemId: item.planItemId, order, cumulativeMass, cumulativeGrades, cumulativeAssayed };
+  });
+
+  return {
+    regionId: region.regionId,
+    points: region.points,
+    masses,
+    values,
+    tonnage: masses.reduce((sum, mass) => sum + mass, 0),
+    largestMass: masses.reduce((largest, mass) => Math.max(largest, mass), 0),
+    items,
+  };
+}
+
+/** Same rule as the plan stats: whole reports until the tonnes are reached. */
+function evaluateRegion(region: RegionModel, quantities: number[]): ItemOutcome[] {
+  if (region.items.length === 1) {
+    const item = region.items[0] as ItemModel;
+    const quantity = quantities[0] as number;
+    const mass = item.cumulativeMass;
+    let low = 0;
+    let high = mass.length - 1;
+    while (low < high) {
+      const middle = (low + high) >> 1;
+      if ((mass[middle] as number) >= quantity) {
+        high = middle;
+      } else {
+        low = middle + 1;
+      }
+    }
+    return [{
+      tonnage: mass[low] as number,
+      grades: item.cumulativeGrades.map((cumulative) => cumulative[low] as number),
+      assayed: item.cumulativeAssayed.map((cumulative) => cumulative[low] as number),
+    }];
+  }
+
+  const taken = new Uint8Array(region.points.length);
+  return region.items.map((item, itemIndex) => {
+    const quantity = quantities[itemIndex] as number;
+    const grades = region.values.map(() => 0);
+    const assayed = region.values.map(() => 0);
+    let tonnage = 0;
+
+    for (let i = 0; i < item.order.length && tonnage < quantity; i += 1) {
+      const index = item.order[i] as number;
+      if (taken[index]) {
+        continue;
+      }
+      taken[index] = 1;
+      const mass = region.masses[index] as number;
+      tonnage += mass;
+      region.values.forEach((attributeValues, a) => {
+        const value = attributeValues[index] as number;
+        if (!Number.isNaN(value)) {
+          grades[a] = (grades[a] as number) + value * mass;
+          assayed[a] = (assayed[a] as number) + mass;
+        }
+      });
+    }
+
+    return { tonnage, grades, assayed };
+  });
+}
+
+/** One face is priced from its cumulative sums; several walk the region's reports face by face. */
+function getEvaluationCost(region: RegionModel): number {
+  return region.items.length > 1 ? region.points.length * region.items.length : 1;
+}
+
+function getSpread(regions: RegionModel[], attributeIndex: number): number {
+  let min = Infinity;
+  let max = -Infinity;
+  for (const region of regions) {
+    for (const value of region.values[attributeIndex] as Float64Array) {
+      if (value < min) min = value;
+      if (value > max) max = value;
+    }
+  }
+  return max > min ? max - min : 1;
+}
+
+/**
+ * Searches plan quantities for a blend that meets every limit and then maximises tonnes
+ * or stays closest to the targets. Each candidate is scored with the same extraction
+ * models as the plan stats, so the limits hold for what the plan items actually dig.
+ *
+ * The search is a pattern search over the item quantities: it moves one item up or down,
+ * or shifts tonnes between two items, takes the best improving move, and refines the step
+ * when no move helps. It starts from the current plan quantities, and runs in slices so the
+ * page stays responsive; cancelling rejects with the abort reason.
+ */
+export async function optimiseBlend(
+  regions: BlendRegion[],
+  settings: BlendSettings,
+  control: WorkControl = {},
+): Promise<BlendResult> {
+  const limits = settings.limits.filter((limit) => limit.min !== null || limit.max !== null || limit.target !== null);
+  const attributes = limits.map((limit) => limit.attribute);
+  const activeRegions = regions.filter((region) => region.items.length > 0);
+  const models = activeRegions.map((region) => buildRegionModel(region, attributes));
+  const spreads = attributes.map((_, index) => getSpread(models, index));
+  const capacity = models.reduce((sum, region) => sum + region.tonnage, 0);
+  const tonnageLimit = settings.tonnage !== null && settings.tonnage > 0 ? settings.tonnage : null;
+
+  const score = (outcomes: ItemOutcome[][]): Evaluation => {
+    let tonnage = 0;
+    const sums = attributes.map(() => 0);
+    const assayed = attributes.map(() => 0);
+    for (const regionOutcomes of outcomes) {
+      for (const outcome of regionOutcomes) {
+        tonnage += outcome.tonnage;
+        outcome.grades.forEach((grade, a) => {
+          sums[a] = (sums[a] as number) + grade;
+          assayed[a] = (assayed[a] as number) + (outcome.assayed[a] as number);
+        });
+      }
+    }
+
+    const averages = sums.map((sum, a) => ((assayed[a] as number) > 0 ? sum / (assayed[a] as number) : 0));
+    let violation = 0;
+    let deviation = 0;
+
+    limits.forEach((limit, a) => {
+      const average = averages[a] as number;
+      const spread = spreads[a] as number;
+      if (tonnage === 0) {
+        violation += limit.min !== null || limit.max !== null ? 1 : 0;
+        return;
+      }
+      if (limit.min !== null && average < limit.min) {
+        violation += (limit.min - average) / spread;
+      }
+      if (limit.max !== null && average > limit.max) {
+        violation += (average - limit.max) / spread;
+      }
+      if (limit.target !== null) {
+        deviation += ((average - limit.target) / spread) ** 2;
+      }
+    });
+
+    let objective: number;
+    if (settings.objective === "maxTonnage") {
+      if (tonnageLimit !== null && tonnage > tonnageLimit) {
+        violation += (tonnage - tonnageLimit) / tonnageLimit;
+      }
+      objective = capacity > 0 ? -tonnage / capacity : 0;
+    } else {
+      const tonnageTarget = tonnageLimit ?? capacity;
+      objective = deviation + (tonnageTarget > 0 ? ((tonnage - tonnageTarget) / tonnageTarget) ** 2 : 0);
+    }
+
+    return { outcomes, tonnage, averages, violation, objective };
+  };
+
+  const isBetter = (candidate: Evaluation, current: Evaluation): boolean => {
+    if (Math.abs(candidate.violation - current.violation) > FEASIBILITY_TOLERANCE) {
+      return candidate.violation < current.violation;
+    }
+    return candidate.objective < current.objective - FEASIBILITY_TOLERANCE;
+  };
+
+  let quantities = activeRegions.map((region, r) =>
+    region.items.map((item) => Math.min(Math.max(0, item.quantity), (models[r] as RegionModel).tonnage)),
+  );
+  let best = score(models.map((region, r) => evaluateRegion(region, quantities[r] as number[])));
+  let evaluations = 1;
+  const maxEvaluations = Math.min(
+    MAX_EVALUATIONS,
+    Math.max(MIN_EVALUATIONS, Math.floor(WORK_BUDGET / Math.max(1, ...models.map(getEvaluationCost)))),
+  );
+  const checkpoint = createCheckpoint(control);
+
+  const itemRefs = models.flatMap((region, r) => region.items.map((_, i) => ({ r, i })));
+  const tryMove = (changes: Array<{ r: number; i: number; delta: number }>): Move | null => {
+    const next = quantities.map((regionQuantities) => [...regionQuantities]);
+    for (const change of changes) {
+      const region = models[change.r] as RegionModel;
+      const regionQuantities = next[change.r] as number[];
+      const value = Math.min(Math.max(0, (regionQuantities[change.i] as number) + change.delta), region.tonnage);
+      if (value === regionQuantities[change.i]) {
+        return null;
+      }
+      regionQuantities[change.i] = value;
+    }
+
+    const changedRegions = new Set(changes.map((change) => change.r));
+    const outcomes = best.outcomes.map((regionOutcomes, r) =>
+      changedRegions.has(r) ? evaluateRegion(models[r] as RegionModel, next[r] as number[]) : regionOutcomes,
+    );
+    evaluations += 1;
+    return { quantities: next, evaluation: score(outcomes) };
+  };
+
+  for (let level = 1; level <= STEP_LEVELS && evaluations < maxEvaluations; level += 1) {
+    const steps = models.map((region) => Math.max(region.tonnage / 2 ** (level + 1), region.largestMass));
+    const candidates: Array<Array<{ r: number; i: number; delta: number }>> = [];
+    for (const { r, i } of itemRefs) {
+      const step = steps[r] as number;
+      candidates.push([{ r, i, delta: step }], [{ r, i, delta: -step }]);
+    }
+    for (const from of itemRefs) {
+      for (const to of itemRefs) {
+        if (from !== to) {
+          const step = Math.min(steps[from.r] as number, steps[to.r] as number);
+          candidates.push([{ ...from, delta: -step }, { ...to, delta: step }]);
+        }
+      }
+    }
+
+    while (evaluations < maxEvaluations) {
+      const moves: Array<Move | null> = [];
+      for (const changes of candidates) {
+        moves.push(tryMove(changes));
+        await checkpoint(Math.max((level - 1) / STEP_LEVELS, evaluations / maxEvaluations));
+      }
+
+      let accepted: Move | null = null;
+      for (const move of moves) {
+        if (move && isBetter(move.evaluation, accepted?.evaluation ?? best)) {
+          accepted = move;
+        }
+      }
+      if (!accepted) {
+        break;
+      }
+      quantities = accepted.quantities;
+      best = accepted.evaluation;
+    }
+  }
+
+  return toResult(models, limits, best, spreads, tonnageLimit, settings.objective);
+}
+
+function toResult(
+  models: RegionModel[],
+  limits: BlendLimit[],
+  evaluation: Evaluation,
+  spreads: number[],
+  tonnageLimit: number | null,
+  objective: BlendObjective,
+): BlendResult {
+  const result: BlendResult = {
+    feasible: evaluation.violation <= FEASIBILITY_TOLERANCE,
+    quantities: {},
+    tonnage: evaluation.tonnage,
+    averages: {},
+    binding: [],
+    violated: [],
+  };
+
+  models.forEach((region, r) => {
+    let extracted = 0;
+    region.items.forEach((item, i) => {
+      const outcome = (evaluation.outcomes[r] as ItemOutcome[])[i] as ItemOutcome;
+      // Request what the faces actually dig so the plan reproduces this blend.
+      result.quantities[item.planItemId] = outcome.tonnage;
+      extracted += outcome.tonnage;
+    });
+    if (region.tonnage > 0 && extracted >= region.tonnage - region.largestMass) {
+      result.binding.push({ kind: "capacity", subject: region.regionId, limit: region.tonnage, value: extracted });
+    }
+  });
+
+  limits.forEach((limit, a) => {
+    const average = evaluation.averages[a] as number;
+    const tolerance = (spreads[a] as number) * BINDING_TOLERANCE;
+    result.averages[limit.attribute] = average;
+
+    for (const kind of ["min", "max"] as const) {
+      const bound = limit[kind];
+      if (bound === null) {
+        continue;
+      }
+      const report: BlendConstraintReport = { kind, subject: limit.attribute, limit: bound, value: average };
+      const broken = kind === "min" ? average < bound - FEASIBILITY_TOLERANCE : average > bound + FEASIBILITY_TOLERANCE;
+      if (broken || evaluation.tonnage === 0) {
+        result.violated.push(report);
+      } else if (Math.abs(average - bound) <= tolerance) {
+        result.binding.push(report);
+      }
+    }
+  });
+
+  if (tonnageLimit !== null && objective === "maxTonnage") {
+    const report: BlendConstraintReport = { kind: "tonnage", subject: "tonnes", limit: tonnageLimit, value: evaluation.tonnage };
+    if (evaluation.tonnage > tonnageLimit) {
+      result.violated.push(report);
+    } else if (evaluation.tonnage >= tonnageLimit * (1 - BINDING_TOLERANCE)) {
+      result.binding.push(report);
+    }
+  }
+
+  return result;
+}
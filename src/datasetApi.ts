@@ -0,0 +1,48 @@
+import type { ImportedDataset, ImportRequest } from "./pointImport";
+import type { DatasetSummary } from "./points";
+
+export interface ImportResponse {
+  dataset: ImportedDataset;
+  sourceId: string;
+  rejectedCount: number;
+}
+
+async function getErrorMessage(response: Response): Promise<string> {
+  const text = await response.text().catch(() => "");
+  return text || `Request failed: ${response.status}`;
+}
+
+export async function listDatasets(): Promise<DatasetSummary[]> {
+  const response = await fetch("/datasets");
+  if (!response.ok) {
+    throw new Error(await getErrorMessage(response));
+  }
+  return (await response.json()) as DatasetSummary[];
+}
+
+export async function listImportedDatasets(): Promise<ImportedDataset[]> {
+  const response = await fetch("/imports");
+  if (!response.ok) {
+    throw new Error(await getErrorMessage(response));
+  }
+  return (await response.json()) as ImportedDataset[];
+}
+
+export async function uploadDataset(request: ImportRequest): Promise<ImportResponse> {
+  const response = await fetch("/imports", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(request),
+  });
+  if (!response.ok) {
+    throw new Error(await getErrorMessage(response));
+  }
+  return (await response.json()) as ImportResponse;
+}
+
+export async function deleteImportedDataset(id: string): Promise<void> {
+  const response = await fetch(`/imports/${encodeURIComponent(id)}`, { method: "DELETE" });
+  if (!response.ok) {
+    throw new Error(await getErrorMessage(response));
+  }
+}
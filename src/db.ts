@@ -1 +1,4 @@
-export const DB_PATH = Bun.env.DB_PATH || "./data/data.db";
\ No newline at end of file
+export const DB_PATH = Bun.env.DB_PATH || "./data/data.db";
+export const STORE_DB_PATH = Bun.env.STORE_DB_PATH || "./data/store.db";
+export const POINT_SOURCES_CONFIG_PATH = Bun.env.POINT_SOURCES_CONFIG || "./config/point-sources.json";
+export const IMPORTS_DB_PATH = Bun.env.IMPORTS_DB_PATH || "./data/imports.db";
@@ -0,0 +1,157 @@
+import { getAttributeValue, getPointMass, type Point } from "./points";
+
+export const HISTOGRAM_BINS = 20;
+export const GRADE_TONNAGE_STEPS = 40;
+
+const PERCENTILES = [10, 25, 50, 75, 90] as const;
+
+export type GradePercentile = (typeof PERCENTILES)[number];
+
+export interface HistogramBin {
+  from: number;
+  to: number;
+  count: number;
+  tonnage: number;
+}
+
+/** Tonnes at or above a cutoff grade and their average grade. */
+export interface GradeTonnageSample {
+  cutoff: number;
+  tonnage: number;
+  average: number;
+}
+
+/** Tonnage-weighted spread of one attribute over a set of reports. */
+export interface GradeDistribution {
+  /** Reports and tonnes that carry the attribute; unassayed reports are left out. */
+  count: number;
+  tonnage: number;
+  min: number;
+  max: number;
+  average: number;
+  stdDev: number;
+  percentiles: Record<GradePercentile, number>;
+  histogram: HistogramBin[];
+  gradeTonnage: GradeTonnageSample[];
+}
+
+/** Grade at which `fraction` of the tonnes sit at or below, over grades sorted ascending. */
+function getWeightedPercentile(
+  grades: Float64Array,
+  cumulativeMass: Float64Array,
+  tonnage: number,
+  fraction: number,
+): number {
+  const target = tonnage * fraction;
+  let low = 0;
+  let high = grades.length - 1;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if ((cumulativeMass[mid] as number) < target) {
+      low = mid + 1;
+    } else {
+      high = mid;
+    }
+  }
+  return grades[low] as number;
+}
+
+/** Index of the first grade at or above `cutoff`, over grades sorted ascending. */
+function findFirstAtOrAbove(grades: Float64Array, cutoff: number): number {
+  let low = 0;
+  let high = grades.length;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if ((grades[mid] as number) < cutoff) {
+      low = mid + 1;
+    } else {
+      high = mid;
+    }
+  }
+  return low;
+}
+
+export function getGradeDistribution(points: Point[], attribute: string): GradeDistribution | null {
+  if (points.length === 0) {
+    return null;
+  }
+
+  // Unassayed reports have no place on a grade axis
+  const sorted = points
+    .flatMap((point) => {
+      const grade = getAttributeValue(point, attribute);
+      return grade === undefined ? [] : [{ grade, mass: getPointMass(point) }];
+    })
+    .sort((a, b) => a.grade - b.grade);
+  if (sorted.length === 0) {
+    return null;
+  }
+  const count = sorted.length;
+  const grades = new Float64Array(count);
+  const cumulativeMass = new Float64Array(count);
+  // Tonnes and grade-tonnes from each index to the top, for the grade-tonnage curve
+  const massAbove = new Float64Array(count + 1);
+  const gradeMassAbove = new Float64Array(count + 1);
+
+  let tonnage = 0;
+  sorted.forEach(({ grade, mass }, index) => {
+    grades[index] = grade;
+    tonnage += mass;
+    cumulativeMass[index] = tonnage;
+  });
+  for (let index = count - 1; index >= 0; index -= 1) {
+    const { grade, mass } = sorted[index] as { grade: number; mass: number };
+    massAbove[index] = (massAbove[index + 1] as number) + mass;
+    gradeMassAbove[index] = (gradeMassAbove[index + 1] as number) + grade * mass;
+  }
+
+  const min = grades[0] as number;
+  const max = grades[count - 1] as number;
+  const average = tonnage > 0 ? (gradeMassAbove[0] as number) / tonnage : 0;
+  let variance = 0;
+  for (const { grade, mass } of sorted) {
+    variance += mass * (grade - average) ** 2;
+  }
+
+  const span = max - min;
+  const binWidth = span > 0 ? span / HISTOGRAM_BINS : 1;
+  const histogram: HistogramBin[] = Array.from({ length: span > 0 ? HISTOGRAM_BINS : 1 }, (_, index) => ({
+    from: min + index * binWidth,
+    to: min + (index + 1) * binWidth,
+    count: 0,
+    tonnage: 0,
+  }));
+  for (const { grade, mass } of sorted) {
+    const bin = histogram[Math.min(histogram.length - 1, Math.floor((grade - min) / binWidth))] as HistogramBin;
+    bin.count += 1;
+    bin.tonnage += mass;
+  }
+
+  const gradeTonnage: GradeTonnageSample[] = [];
+  const steps = span > 0 ? GRADE_TONNAGE_STEPS : 0;
+  for (let step = 0; step <= steps; step += 1) {
+    const cutoff = min + (span * step) / Math.max(1, steps);
+    const index = findFirstAtOrAbove(grades, cutoff);
+    const above = massAbove[index] as number;
+    gradeTonnage.push({
+      cutoff,
+      tonnage: above,
+      average: above > 0 ? (gradeMassAbove[index] as number) / above : 0,
+    });
+  }
+
+  return {
+    count,
+    tonnage,
+    min,
+    max,
+    average,
+    stdDev: tonnage > 0 ? Math.sqrt(variance / tonnage) : 0,
+    percentiles: Object.fromEntries(PERCENTILES.map((percentile) => [
+      percentile,
+      getWeightedPercentile(grades, cumulativeMass, tonnage, percentile / 100),
+    ])) as Record<GradePercentile, number>,
+    histogram,
+    gradeTonnage,
+  };
+}
@@ -0,0 +1,126 @@
+/** A point in real-world (mine-grid) coordinates. */
+export interface DxfPoint {
+  x: number;
+  y: number;
+  z: number;
+}
+
+export interface DxfLayer {
+  name: string;
+  /** AutoCAD colour index, 1-255. */
+  color: number;
+}
+
+export type DxfEntity =
+  | { kind: "polyline"; layer: string; points: DxfPoint[]; closed: boolean }
+  /** Three or four corners; DXF faces have no more. */
+  | { kind: "face"; layer: string; corners: DxfPoint[] }
+  | { kind: "text"; layer: string; position: DxfPoint; height: number; text: string };
+
+export interface DxfDrawing {
+  layers: DxfLayer[];
+  entities: DxfEntity[];
+}
+
+/** POLYLINE flags: closed, and a 3D polyline rather than a 2D one at an elevation. */
+const POLYLINE_CLOSED = 1;
+const POLYLINE_3D = 8;
+/** VERTEX flag for a vertex of a 3D polyline. */
+const VERTEX_3D = 32;
+
+function formatNumber(value: number): string {
+  return Number.isInteger(value) ? value.toFixed(1) : String(Number(value.toFixed(6)));
+}
+
+/** Group code and value pairs, one per line as DXF expects. */
+function pairs(entries: Array<[number, string | number]>): string[] {
+  return entries.flatMap(([code, value]) => [
+    String(code),
+    typeof value === "number" && code >= 10 && code < 60 ? formatNumber(value) : String(value),
+  ]);
+}
+
+function pointPairs(point: DxfPoint, index = 0): Array<[number, number]> {
+  return [[10 + index, point.x], [20 + index, point.y], [30 + index, point.z]];
+}
+
+function writeEntity(entity: DxfEntity): string[] {
+  switch (entity.kind) {
+    case "polyline":
+      return [
+        ...pairs([
+          [0, "POLYLINE"],
+          [8, entity.layer],
+          [66, 1],
+          [10, 0],
+          [20, 0],
+          [30, 0],
+          [70, POLYLINE_3D | (entity.closed ? POLYLINE_CLOSED : 0)],
+        ]),
+        ...entity.points.flatMap((point) => pairs([
+          [0, "VERTEX"],
+          [8, entity.layer],
+          ...pointPairs(point),
+          [70, VERTEX_3D],
+        ])),
+        ...pairs([[0, "SEQEND"], [8, entity.layer]]),
+      ];
+    case "face": {
+      // A triangle repeats its last corner
+      const last = entity.corners.length - 1;
+      const corners = [0, 1, 2, 3].map((index) => entity.corners[Math.min(index, last)] as DxfPoint);
+      return pairs([
+        [0, "3DFACE"],
+        [8, entity.layer],
+        ...corners.flatMap((corner, index) => pointPairs(corner, index)),
+      ]);
+    }
+    case "text":
+      return pairs([
+        [0, "TEXT"],
+        [8, entity.layer],
+        ...pointPairs(entity.position),
+        [40, entity.height],
+        [1, entity.text.replace(/[\r\n]+/g, " ")],
+        // Centred on the position, which DXF reads from the second alignment point
+        [72, 1],
+        ...pointPairs(entity.position, 1),
+      ]);
+  }
+}
+
+/** An AutoCAD R12 (AC1009) ASCII drawing, the version most planning packages still read. */
+export function writeDxf(drawing: DxfDrawing): string {
+  const lines = [
+    ...pairs([[0, "SECTION"], [2, "HEADER"], [9, "$ACADVER"], [1, "AC1009"], [0, "ENDSEC"]]),
+    ...pairs([
+      [0, "SECTION"],
+      [2, "TABLES"],
+      [0, "TABLE"],
+      [2, "LTYPE"],
+      [70, 1],
+      [0, "LTYPE"],
+      [2, "CONTINUOUS"],
+      [70, 0],
+      [3, "Solid line"],
+      [72, 65],
+      [73, 0],
+      [40, 0],
+      [0, "ENDTAB"],
+      [0, "TABLE"],
+      [2, "LAYER"],
+      [70, drawing.layers.length],
+    ]),
+    ...drawing.layers.flatMap((layer) => pairs([
+      [0, "LAYER"],
+      [2, layer.name],
+      [70, 0],
+      [62, layer.color],
+      [6, "CONTINUOUS"],
+    ])),
+    ...pairs([[0, "ENDTAB"], [0, "ENDSEC"], [0, "SECTION"], [2, "ENTITIES"]]),
+    ...drawing.entities.flatMap(writeEntity),
+    ...pairs([[0, "ENDSEC"], [0, "EOF"]]),
+  ];
+  return `${lines.join("\n")}\n`;
+}
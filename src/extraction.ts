@@ -0,0 +1,381 @@
+import type { HalfSpace, PrismSnapshot } from "./geometry";
+import { getAttributeValue, getPointMass, type Point } from "./points";
+
+/**
+ * How a plan item digs its region:
+ * - `face`: a face advancing against `angle`, inclined at `dip`.
+ * - `bench`: top-down benches of `increment` height, each worked as a face.
+ * - `radial`: outward from a loader parked on the region's edge at `angle`.
+ * - `bucketWheel`: slices of `increment` width across the face, each worked top-down.
+ */
+export type ExtractionMode = "face" | "bench" | "radial" | "bucketWheel";
+
+export const EXTRACTION_MODES: ExtractionMode[] = ["face", "bench", "radial", "bucketWheel"];
+export const DEFAULT_EXTRACTION_MODE: ExtractionMode = "face";
+/** Bench height or slice width, in point coordinate units. */
+export const DEFAULT_EXTRACTION_INCREMENT = 5;
+/** Face dips in degrees from horizontal; shallower faces are clamped to the minimum. */
+export const DEFAULT_FACE_DIP = 90;
+export const MIN_FACE_DIP = 15;
+
+const EXTRACTION_MODE_LABELS: Record<ExtractionMode, string> = {
+  face: "Face",
+  bench: "Benches",
+  radial: "Radial",
+  bucketWheel: "Bucket wheel",
+};
+
+/** Sides of the polygon standing in for a radial dig's circular edge. */
+const RADIAL_SIDES = 32;
+
+export function isExtractionMode(value: unknown): value is ExtractionMode {
+  return typeof value === "string" && (EXTRACTION_MODES as string[]).includes(value);
+}
+
+export function getExtractionModeLabel(mode: ExtractionMode): string {
+  return EXTRACTION_MODE_LABELS[mode];
+}
+
+/** Whether the mode works in benches or slices sized by `increment`. */
+export function usesExtractionIncrement(mode: ExtractionMode): boolean {
+  return mode === "bench" || mode === "bucketWheel";
+}
+
+/** A dig into a region: how it advances and the tonnes it takes. */
+export interface ExtractionStep {
+  mode: ExtractionMode;
+  angle: number;
+  /** Face inclination from horizontal in degrees; 90 cuts straight down. */
+  dip: number;
+  /** Bench height or slice width; ignored by face and radial digs. */
+  increment: number;
+  quantity: number;
+}
+
+type Vector3 = { x: number; y: number; z: number };
+
+/** Where a dig starts, measured from the region's points. */
+interface ExtractionFrame {
+  /** Horizontal direction the dig comes from. */
+  outward: { x: number; y: number };
+  /** Unit normal of the face, pointing out of the remaining material. */
+  normal: Vector3;
+  /** Projection of the outermost point on `normal`; depths are measured back from it. */
+  maxProjection: number;
+  maxZ: number;
+  /** Loader position for radial digs. */
+  origin: { x: number; y: number };
+  /** How far a radial dig's edge leans back per unit of height. */
+  dipSin: number;
+  dipCos: number;
+}
+
+function getExtractionFrame(points: Point[], step: ExtractionStep): ExtractionFrame {
+  const radians = (step.angle * Math.PI) / 180;
+  const dip = (clampDip(step.dip) * Math.PI) / 180;
+  const outward = { x: Math.cos(radians), y: Math.sin(radians) };
+  const dipSin = Math.sin(dip);
+  const dipCos = Math.cos(dip);
+  const normal = { x: outward.x * dipSin, y: outward.y * dipSin, z: dipCos };
+  let maxProjection = -Infinity;
+  let maxOutward = -Infinity;
+  let maxZ = -Infinity;
+  let sumX = 0;
+  let sumY = 0;
+
+  for (const point of points) {
+    maxProjection = Math.max(maxProjection, point.x * normal.x + point.y * normal.y + point.z * normal.z);
+    maxOutward = Math.max(maxOutward, point.x * outward.x + point.y * outward.y);
+    maxZ = Math.max(maxZ, point.z);
+    sumX += point.x;
+    sumY += point.y;
+  }
+
+  const count = Math.max(points.length, 1);
+  const centerX = sumX / count;
+  const centerY = sumY / count;
+  const toEdge = points.length > 0 ? maxOutward - (centerX * outward.x + centerY * outward.y) : 0;
+
+  return {
+    outward,
+    normal,
+    maxProjection,
+    maxZ,
+    origin: { x: centerX + outward.x * toEdge, y: centerY + outward.y * toEdge },
+    dipSin,
+    dipCos,
+  };
+}
+
+export function clampDip(dip: number): number {
+  return Number.isFinite(dip) ? Math.min(90, Math.max(MIN_FACE_DIP, dip)) : DEFAULT_FACE_DIP;
+}
+
+function getIncrement(step: ExtractionStep): number {
+  return step.increment > 0 ? step.increment : DEFAULT_EXTRACTION_INCREMENT;
+}
+
+/** Distance behind the face, measured along its normal. */
+function getDepth(frame: ExtractionFrame, point: Vector3): number {
+  const { normal } = frame;
+  return frame.maxProjection - (point.x * normal.x + point.y * normal.y + point.z * normal.z);
+}
+
+/** Radial distance from the loader, leaning back with the face above the top of the region. */
+function getRadialDepth(frame: ExtractionFrame, point: Vector3): number {
+  const horizontal = Math.hypot(point.x - frame.origin.x, point.y - frame.origin.y);
+  return horizontal * frame.dipSin - (point.z - frame.maxZ) * frame.dipCos;
+}
+
+function getBenchIndex(frame: ExtractionFrame, point: Point, increment: number): number {
+  return Math.floor((frame.maxZ - point.z) / increment);
+}
+
+function getSliceIndex(frame: ExtractionFrame, point: Point, increment: number): number {
+  return Math.floor(getDepth(frame, point) / increment);
+}
+
+/** Indices of `points` in the order the step's mode digs them. */
+export function getExtractionOrder(points: Point[], step: ExtractionStep): Uint32Array {
+  const frame = getExtractionFrame(points, step);
+  const increment = getIncrement(step);
+  const primary = new Float64Array(points.length);
+  const secondary = new Float64Array(points.length);
+  const order = new Uint32Array(points.length);
+
+  points.forEach((point, index) => {
+    order[index] = index;
+    switch (step.mode) {
+      case "face":
+        primary[index] = getDepth(frame, point);
+        break;
+      case "bench":
+        primary[index] = getBenchIndex(frame, point, increment);
+        secondary[index] = getDepth(frame, point);
+        break;
+      case "radial":
+        primary[index] = getRadialDepth(frame, point);
+        break;
+      case "bucketWheel":
+        primary[index] = getSliceIndex(frame, point, increment);
+        secondary[index] = -point.z;
+        break;
+    }
+  });
+
+  return order.sort((a, b) =>
+    (primary[a] as number) - (primary[b] as number) || (secondary[a] as number) - (secondary[b] as number),
+  );
+}
+
+/**
+ * Takes whole reports in `order`, skipping those already `taken`, until `quantity` tonnes
+ * are reached; the last report may overshoot. Marks what it takes in `taken`.
+ */
+export function takeByTonnage(
+  points: Point[],
+  order: Uint32Array,
+  taken: Uint8Array,
+  quantity: number,
+): { indices: number[]; tonnage: number } {
+  const indices: number[] = [];
+  let tonnage = 0;
+
+  for (let i = 0; i < order.length && tonnage < quantity; i += 1) {
+    const index = order[i] as number;
+    if (taken[index]) {
+      continue;
+    }
+    taken[index] = 1;
+    indices.push(index);
+    tonnage += getPointMass(points[index] as Point);
+  }
+
+  return { indices, tonnage };
+}
+
+/** Runs a region's digs in plan order; later digs take what earlier ones left. */
+export function extractRegion(points: Point[], steps: ExtractionStep[]): Point[][] {
+  const taken = new Uint8Array(points.length);
+
+  return steps.map((step) => {
+    const quantity = Math.max(0, step.quantity);
+    if (quantity === 0) {
+      return [];
+    }
+    const { indices } = takeByTonnage(points, getExtractionOrder(points, step), taken, quantity);
+    return indices.map((index) => points[index] as Point);
+  });
+}
+
+function maxOf(points: Point[], valueOf: (point: Point) => number): number {
+  let max = -Infinity;
+  for (const point of points) {
+    max = Math.max(max, valueOf(point));
+  }
+  return max;
+}
+
+/** The region's prism cut down to what one step dug. */
+export interface ExtractionVolume {
+  region: PrismSnapshot;
+  halfSpaces: HalfSpace[];
+}
+
+/** Keeps material within `depth` of the face. */
+function withinDepth(frame: ExtractionFrame, depth: number): HalfSpace {
+  return { normal: frame.normal, offset: frame.maxProjection - depth };
+}
+
+/** Keeps material at least `depth` behind the face. */
+function beyondDepth(frame: ExtractionFrame, depth: number): HalfSpace {
+  const { normal } = frame;
+  return { normal: { x: -normal.x, y: -normal.y, z: -normal.z }, offset: depth - frame.maxProjection };
+}
+
+function aboveZ(z: number): HalfSpace {
+  return { normal: { x: 0, y: 0, z: 1 }, offset: z };
+}
+
+function belowZ(z: number): HalfSpace {
+  return { normal: { x: 0, y: 0, z: -1 }, offset: -z };
+}
+
+/** Planes just outside the cone a radial dig leaves, one per side of a polygon around the loader. */
+function withinRadialDepth(frame: ExtractionFrame, depth: number): HalfSpace[] {
+  const halfSpaces: HalfSpace[] = [];
+  for (let side = 0; side < RADIAL_SIDES; side += 1) {
+    const theta = (side / RADIAL_SIDES) * Math.PI * 2;
+    const x = Math.cos(theta) * frame.dipSin;
+    const y = Math.sin(theta) * frame.dipSin;
+    halfSpaces.push({
+      normal: { x: -x, y: -y, z: frame.dipCos },
+      offset: frame.dipCos * frame.maxZ - depth - (x * frame.origin.x + y * frame.origin.y),
+    });
+  }
+  return halfSpaces;
+}
+
+/**
+ * Solids covering what a step took from its region: the region's prism cut by the face,
+ * split where the mode leaves a bench or slice partly worked.
+ */
+export function getExtractionVolumes(
+  region: PrismSnapshot,
+  regionPoints: Point[],
+  step: ExtractionStep,
+  takenPoints: Point[],
+): ExtractionVolume[] {
+  if (takenPoints.length === 0 || region.footprint.length < 3) {
+    return [];
+  }
+
+  const frame = getExtractionFrame(regionPoints, step);
+  const increment = getIncrement(step);
+  const volumes: ExtractionVolume[] = [];
+
+  switch (step.mode) {
+    case "face": {
+      const depth = maxOf(takenPoints, (point) => getDepth(frame, point));
+      volumes.push({ region, halfSpaces: [withinDepth(frame, depth)] });
+      break;
+    }
+    case "bench": {
+      const lastBench = maxOf(takenPoints, (point) => getBenchIndex(frame, point, increment));
+      const benchTop = frame.maxZ - lastBench * increment;
+      const benchBottom = frame.maxZ - (lastBench + 1) * increment;
+      const depth = maxOf(
+        takenPoints.filter((point) => getBenchIndex(frame, point, increment) === lastBench),
+        (point) => getDepth(frame, point),
+      );
+
+      if (lastBench > 0) {
+        volumes.push({ region, halfSpaces: [aboveZ(benchTop)] });
+      }
+      volumes.push({
+        region,
+        halfSpaces: [
+          aboveZ(benchBottom),
+          ...(lastBench > 0 ? [belowZ(benchTop)] : []),
+          withinDepth(frame, depth),
+        ],
+      });
+      break;
+    }
+    case "radial": {
+      const depth = maxOf(takenPoints, (point) => getRadialDepth(frame, point));
+      volumes.push({ region, halfSpaces: withinRadialDepth(frame, depth) });
+      break;
+    }
+    case "bucketWheel": {
+      const lastSlice = maxOf(takenPoints, (point) => getSliceIndex(frame, point, increment));
+      const sliceFront = lastSlice * increment;
+      const sliceBack = (lastSlice + 1) * increment;
+      const sliceBottom = -maxOf(
+        takenPoints.filter((point) => getSliceIndex(frame, point, increment) === lastSlice),
+        (point) => -point.z,
+      );
+
+      if (lastSlice > 0) {
+        volumes.push({ region, halfSpaces: [withinDepth(frame, sliceFront)] });
+      }
+      volumes.push({
+        region,
+        halfSpaces: [
+          withinDepth(frame, sliceBack),
+          ...(lastSlice > 0 ? [beyondDepth(frame, sliceFront)] : []),
+          aboveZ(sliceBottom),
+        ],
+      });
+      break;
+    }
+  }
+
+  return volumes;
+}
+
+export interface AngleSample {
+  angle: number;
+  tonnage: number;
+  /** Grade-tonnes of the chosen attribute. */
+  total: number;
+  /** Tonnage-weighted average of the chosen attribute. */
+  average: number;
+}
+
+/**
+ * Runs `step` at every `stepDegrees` from 0 up to 360, after the region's earlier digs have
+ * taken their share, and reports what each angle yields. The step's own angle is ignored.
+ */
+export function sweepFaceAngles(
+  points: Point[],
+  earlierSteps: ExtractionStep[],
+  step: ExtractionStep,
+  stepDegrees: number,
+  attribute: string,
+): AngleSample[] {
+  const taken = new Uint8Array(points.length);
+  for (const earlier of earlierSteps) {
+    takeByTonnage(points, getExtractionOrder(points, earlier), taken, Math.max(0, earlier.quantity));
+  }
+
+  const angleStep = Math.min(Math.max(stepDegrees, 1), 360);
+  const samples: AngleSample[] = [];
+  for (let angle = 0; angle < 360; angle += angleStep) {
+    const order = getExtractionOrder(points, { ...step, angle });
+    const { indices, tonnage } = takeByTonnage(points, order, taken.slice(), step.quantity);
+    let total = 0;
+    let assayedTonnage = 0;
+    for (const index of indices) {
+      const point = points[index] as Point;
+      const value = getAttributeValue(point, attribute);
+      if (value !== undefined) {
+        total += value * getPointMass(point);
+        assayedTonnage += getPointMass(point);
+      }
+    }
+    samples.push({ angle, tonnage, total, average: assayedTonnage > 0 ? total / assayedTonnage : 0 });
+  }
+
+  return samples;
+}
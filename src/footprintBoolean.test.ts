@@ -0,0 +1,177 @@
+import { describe, expect, test } from "bun:test";
+import type { PrismSnapshot } from "./geometry";
+import { combineFootprints, splitFootprint } from "./footprintBoolean";
+
+type PlanPoint = { x: number; y: number };
+
+function square(x: number, y: number, size: number, minZ = 0, maxZ = 10): PrismSnapshot {
+  return {
+    minZ,
+    maxZ,
+    footprint: [
+      { x, y },
+      { x: x + size, y },
+      { x: x + size, y: y + size },
+      { x, y: y + size },
+    ],
+  };
+}
+
+function prism(footprint: PlanPoint[]): PrismSnapshot {
+  return { minZ: 0, maxZ: 10, footprint };
+}
+
+function getArea(footprint: PlanPoint[]): number {
+  let area = 0;
+  footprint.forEach((point, index) => {
+    const next = footprint[(index + 1) % footprint.length] as PlanPoint;
+    area += point.x * next.y - next.x * point.y;
+  });
+  return Math.abs(area / 2);
+}
+
+function getAreas(snapshots: PrismSnapshot[]): number[] {
+  return snapshots.map((snapshot) => getArea(snapshot.footprint)).sort((a, b) => a - b);
+}
+
+// A U opening upwards: a 6 x 6 square with a 2 x 4 notch cut down from the top middle
+const U_SHAPE = prism([
+  { x: 0, y: 0 },
+  { x: 6, y: 0 },
+  { x: 6, y: 6 },
+  { x: 4, y: 6 },
+  { x: 4, y: 2 },
+  { x: 2, y: 2 },
+  { x: 2, y: 6 },
+  { x: 0, y: 6 },
+]);
+
+describe("combineFootprints", () => {
+  describe("containment", () => {
+    const outer = square(0, 0, 10);
+    const inner = square(2, 2, 4, 3, 12);
+
+    test("a union is the outer footprint spanning both height ranges", () => {
+      const result = combineFootprints([outer, inner], "union");
+      expect(result.error).toBeNull();
+      expect(getAreas(result.snapshots)).toEqual([100]);
+      expect(result.snapshots[0]?.minZ).toBe(0);
+      expect(result.snapshots[0]?.maxZ).toBe(12);
+    });
+
+    test("an intersection is the inner footprint over the shared heights", () => {
+      const result = combineFootprints([outer, inner], "intersection");
+      expect(result.error).toBeNull();
+      expect(getAreas(result.snapshots)).toEqual([16]);
+      expect(result.snapshots[0]?.minZ).toBe(3);
+      expect(result.snapshots[0]?.maxZ).toBe(10);
+    });
+
+    test("taking the inner footprint out of the outer one is refused as a hole", () => {
+      const result = combineFootprints([outer, inner], "difference");
+      expect(result.snapshots).toEqual([]);
+      expect(result.error).toBe("The result would have a hole, which a region cannot.");
+    });
+
+    test("taking the outer footprint out of the inner one leaves nothing", () => {
+      const result = combineFootprints([inner, outer], "difference");
+      expect(result.error).toBe("Nothing is left of the first region.");
+    });
+  });
+
+  describe("shared edges", () => {
+    test("squares sharing a whole edge unite into one rectangle", () => {
+      const result = combineFootprints([square(0, 0, 4), square(4, 0, 4)], "union");
+      expect(result.error).toBeNull();
+      expect(result.snapshots).toHaveLength(1);
+      expect(result.snapshots[0]?.footprint).toHaveLength(4);
+      expect(getAreas(result.snapshots)).toEqual([32]);
+    });
+
+    test("squares sharing part of an edge unite into one outline", () => {
+      const result = combineFootprints([square(0, 0, 4), square(4, 2, 4)], "union");
+      expect(result.error).toBeNull();
+      expect(result.snapshots).toHaveLength(1);
+      expect(result.snapshots[0]?.footprint).toHaveLength(8);
+      expect(getAreas(result.snapshots)).toEqual([32]);
+    });
+
+    test("squares sharing an edge have no intersection", () => {
+      const result = combineFootprints([square(0, 0, 4), square(4, 0, 4)], "intersection");
+      expect(result.error).toBe("The selected regions do not overlap.");
+    });
+
+    test("a difference across a shared edge leaves the first square whole", () => {
+      const result = combineFootprints([square(0, 0, 4), square(4, 0, 4)], "difference");
+      expect(result.error).toBeNull();
+      expect(getAreas(result.snapshots)).toEqual([16]);
+    });
+
+    test("squares meeting only at a corner cannot be united", () => {
+      const result = combineFootprints([square(0, 0, 4), square(4, 4, 4)], "union");
+      expect(result.error).toBe("The selected regions do not overlap or share an edge.");
+    });
+  });
+
+  describe("concave difference", () => {
+    test("a bar across both arms of a U cuts off their tops", () => {
+      const result = combineFootprints([U_SHAPE, prism([
+        { x: -1, y: 3 },
+        { x: 7, y: 3 },
+        { x: 7, y: 4 },
+        { x: -1, y: 4 },
+      ])], "difference");
+      expect(result.error).toBeNull();
+      // The base with the arms' lower parts, and the two arm tips above the bar
+      expect(getAreas(result.snapshots)).toEqual([4, 4, 16]);
+    });
+
+    test("a square inside the notch takes nothing away", () => {
+      const result = combineFootprints([U_SHAPE, square(2.5, 3, 1)], "difference");
+      expect(result.error).toBeNull();
+      expect(getAreas(result.snapshots)).toEqual([28]);
+    });
+
+    test("a difference leaves an L when a corner is removed", () => {
+      const result = combineFootprints([square(0, 0, 4), square(2, 2, 4)], "difference");
+      expect(result.error).toBeNull();
+      expect(result.snapshots).toHaveLength(1);
+      expect(result.snapshots[0]?.footprint).toHaveLength(6);
+      expect(getAreas(result.snapshots)).toEqual([12]);
+    });
+  });
+});
+
+describe("splitFootprint", () => {
+  test("a line through a square cuts it in two halves", () => {
+    const result = splitFootprint(square(0, 0, 4, 1, 5), { x: 2, y: -10 }, { x: 2, y: 10 });
+    expect(result.error).toBeNull();
+    expect(getAreas(result.snapshots)).toEqual([8, 8]);
+    for (const snapshot of result.snapshots) {
+      expect(snapshot.minZ).toBe(1);
+      expect(snapshot.maxZ).toBe(5);
+    }
+  });
+
+  test("a short line still cuts along its whole length", () => {
+    const result = splitFootprint(square(0, 0, 4), { x: 1, y: 1 }, { x: 1.5, y: 1 });
+    expect(result.error).toBeNull();
+    expect(getAreas(result.snapshots)).toEqual([4, 12]);
+  });
+
+  test("a line across both arms of a U cuts it into three pieces", () => {
+    const result = splitFootprint(U_SHAPE, { x: 0, y: 4 }, { x: 6, y: 4 });
+    expect(result.error).toBeNull();
+    expect(getAreas(result.snapshots)).toEqual([4, 4, 20]);
+  });
+
+  test("a line missing the footprint is refused", () => {
+    const result = splitFootprint(square(0, 0, 4), { x: 10, y: 0 }, { x: 10, y: 4 });
+    expect(result.error).toBe("The line does not cross the region.");
+  });
+
+  test("a line of no length is refused", () => {
+    const result = splitFootprint(square(0, 0, 4), { x: 1, y: 1 }, { x: 1, y: 1 });
+    expect(result.error).toBe("Draw a line across the region.");
+  });
+});
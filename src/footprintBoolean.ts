@@ -0,0 +1,410 @@
+import { isSimplePolygon, type PrismSnapshot } from "./geometry";
+
+type PlanPoint = { x: number; y: number };
+
+export type FootprintOperation = "union" | "intersection" | "difference";
+
+export const FOOTPRINT_OPERATIONS: FootprintOperation[] = ["union", "intersection", "difference"];
+
+/** New footprints for a boolean or split, or why there are none. */
+export interface FootprintResult {
+  snapshots: PrismSnapshot[];
+  error: string | null;
+}
+
+/** Vertices closer than this, relative to the footprints' size, are the same vertex. */
+const MERGE_TOLERANCE = 1e-9;
+
+type EdgeSide = "inside" | "outside" | "shared" | "opposite";
+
+interface Edge {
+  from: number;
+  to: number;
+}
+
+export function getFootprintOperationLabel(operation: FootprintOperation): string {
+  switch (operation) {
+    case "union":
+      return "Union";
+    case "intersection":
+      return "Intersect";
+    case "difference":
+      return "Subtract";
+  }
+}
+
+function getSignedArea(loop: PlanPoint[]): number {
+  let area = 0;
+  loop.forEach((point, index) => {
+    const next = loop[(index + 1) % loop.length] as PlanPoint;
+    area += point.x * next.y - next.x * point.y;
+  });
+  return area / 2;
+}
+
+function toCounterClockwise(loop: PlanPoint[]): PlanPoint[] {
+  return getSignedArea(loop) < 0 ? [...loop].reverse() : loop;
+}
+
+/** Even-odd test across every loop, so a clockwise hole inside an outer loop counts as outside. */
+function isInsideLoops(point: PlanPoint, loops: PlanPoint[][]): boolean {
+  let inside = false;
+  for (const loop of loops) {
+    for (let i = 0, j = loop.length - 1; i < loop.length; j = i, i += 1) {
+      const current = loop[i] as PlanPoint;
+      const previous = loop[j] as PlanPoint;
+      if ((current.y > point.y) !== (previous.y > point.y) &&
+        point.x < (previous.x - current.x) * (point.y - current.y) / (previous.y - current.y) + current.x) {
+        inside = !inside;
+      }
+    }
+  }
+  return inside;
+}
+
+function getTolerance(loops: PlanPoint[][]): number {
+  let size = 1;
+  for (const loop of loops) {
+    for (const point of loop) {
+      size = Math.max(size, Math.abs(point.x), Math.abs(point.y));
+    }
+  }
+  return size * MERGE_TOLERANCE * 100;
+}
+
+/**
+ * Every edge of both shapes cut wherever it meets the other shape's boundary, with vertices
+ * shared between the two so that edges running along each other end up identical.
+ */
+function getSplitEdges(
+  subject: PlanPoint[][],
+  clip: PlanPoint[][],
+  tolerance: number,
+): { vertices: PlanPoint[]; subjectEdges: Edge[]; clipEdges: Edge[] } {
+  const vertices: PlanPoint[] = [];
+  const getVertex = (point: PlanPoint): number => {
+    const existing = vertices.findIndex((vertex) =>
+      Math.abs(vertex.x - point.x) <= tolerance && Math.abs(vertex.y - point.y) <= tolerance,
+    );
+    if (existing >= 0) {
+      return existing;
+    }
+    vertices.push({ x: point.x, y: point.y });
+    return vertices.length - 1;
+  };
+
+  const toSegments = (loops: PlanPoint[][]) => loops.flatMap((loop) =>
+    loop.map((start, index) => ({
+      start,
+      end: loop[(index + 1) % loop.length] as PlanPoint,
+      cuts: [0, 1],
+    })),
+  );
+  const subjectSegments = toSegments(subject);
+  const clipSegments = toSegments(clip);
+
+  const getParameter = (segment: { start: PlanPoint; end: PlanPoint }, point: PlanPoint): number => {
+    const dx = segment.end.x - segment.start.x;
+    const dy = segment.end.y - segment.start.y;
+    return ((point.x - segment.start.x) * dx + (point.y - segment.start.y) * dy) / (dx * dx + dy * dy);
+  };
+  const addCut = (segment: { start: PlanPoint; end: PlanPoint; cuts: number[] }, point: PlanPoint): void => {
+    const t = getParameter(segment, point);
+    const length = Math.hypot(segment.end.x - segment.start.x, segment.end.y - segment.start.y);
+    if (t * length > tolerance && (1 - t) * length > tolerance) {
+      segment.cuts.push(t);
+    }
+  };
+  const getDistanceToLine = (segment: { start: PlanPoint; end: PlanPoint }, point: PlanPoint): number => {
+    const dx = segment.end.x - segment.start.x;
+    const dy = segment.end.y - segment.start.y;
+    return Math.abs((point.x - segment.start.x) * dy - (point.y - segment.start.y) * dx) / Math.hypot(dx, dy);
+  };
+
+  for (const a of subjectSegments) {
+    for (const b of clipSegments) {
+      const rx = a.end.x - a.start.x;
+      const ry = a.end.y - a.start.y;
+      const sx = b.end.x - b.start.x;
+      const sy = b.end.y - b.start.y;
+      const denominator = rx * sy - ry * sx;
+      const qx = b.start.x - a.start.x;
+      const qy = b.start.y - a.start.y;
+
+      if (Math.abs(denominator) > MERGE_TOLERANCE * Math.hypot(rx, ry) * Math.hypot(sx, sy)) {
+        const t = (qx * sy - qy * sx) / denominator;
+        const u = (qx * ry - qy * rx) / denominator;
+        const slackT = tolerance / Math.hypot(rx, ry);
+        const slackU = tolerance / Math.hypot(sx, sy);
+        if (t >= -slackT && t <= 1 + slackT && u >= -slackU && u <= 1 + slackU) {
+          const point = { x: a.start.x + t * rx, y: a.start.y + t * ry };
+          addCut(a, point);
+          addCut(b, point);
+        }
+        continue;
+      }
+
+      // Parallel edges only meet when they lie on one line; each is cut at the other's ends
+      if (getDistanceToLine(a, b.start) > tolerance) {
+        continue;
+      }
+      for (const point of [b.start, b.end]) {
+        const t = getParameter(a, point);
+        if (t > 0 && t < 1) {
+          addCut(a, point);
+        }
+      }
+      for (const point of [a.start, a.end]) {
+        const u = getParameter(b, point);
+        if (u > 0 && u < 1) {
+          addCut(b, point);
+        }
+      }
+    }
+  }
+
+  const toEdges = (segments: typeof subjectSegments): Edge[] => segments.flatMap((segment) => {
+    const ids = [...segment.cuts]
+      .sort((left, right) => left - right)
+      .map((t) => getVertex(
+        t === 0 ? segment.start : t === 1 ? segment.end : {
+          x: segment.start.x + t * (segment.end.x - segment.start.x),
+          y: segment.start.y + t * (segment.end.y - segment.start.y),
+        },
+      ));
+    const edges: Edge[] = [];
+    for (let index = 1; index < ids.length; index += 1) {
+      const from = ids[index - 1] as number;
+      const to = ids[index] as number;
+      if (from !== to) {
+        edges.push({ from, to });
+      }
+    }
+    return edges;
+  });
+
+  return { vertices, subjectEdges: toEdges(subjectSegments), clipEdges: toEdges(clipSegments) };
+}
+
+function classifyEdges(edges: Edge[], otherEdges: Edge[], otherLoops: PlanPoint[][], vertices: PlanPoint[]): EdgeSide[] {
+  const other = new Set(otherEdges.map((edge) => `${edge.from}:${edge.to}`));
+  return edges.map((edge) => {
+    if (other.has(`${edge.from}:${edge.to}`)) {
+      return "shared";
+    }
+    if (other.has(`${edge.to}:${edge.from}`)) {
+      return "opposite";
+    }
+    const from = vertices[edge.from] as PlanPoint;
+    const to = vertices[edge.to] as PlanPoint;
+    return isInsideLoops({ x: (from.x + to.x) / 2, y: (from.y + to.y) / 2 }, otherLoops) ? "inside" : "outside";
+  });
+}
+
+/**
+ * Joins directed edges into closed loops. Where several edges leave one vertex, the walk takes
+ * the sharpest left turn, which keeps shapes that only touch at a corner as separate loops.
+ */
+function joinEdges(edges: Edge[], vertices: PlanPoint[]): PlanPoint[][] {
+  const outgoing = new Map<number, number[]>();
+  edges.forEach((edge, index) => {
+    outgoing.set(edge.from, [...(outgoing.get(edge.from) ?? []), index]);
+  });
+
+  const used = new Set<number>();
+  const loops: PlanPoint[][] = [];
+
+  edges.forEach((startEdge, startIndex) => {
+    if (used.has(startIndex)) {
+      return;
+    }
+
+    const loop: number[] = [];
+    let edge = startEdge;
+    used.add(startIndex);
+    while (true) {
+      loop.push(edge.from);
+      if (edge.to === startEdge.from) {
+        break;
+      }
+
+      const from = vertices[edge.from] as PlanPoint;
+      const at = vertices[edge.to] as PlanPoint;
+      const inX = at.x - from.x;
+      const inY = at.y - from.y;
+      let nextIndex: number | null = null;
+      let bestTurn = -Infinity;
+      for (const candidate of outgoing.get(edge.to) ?? []) {
+        if (used.has(candidate)) {
+          continue;
+        }
+        const to = vertices[(edges[candidate] as Edge).to] as PlanPoint;
+        const outX = to.x - at.x;
+        const outY = to.y - at.y;
+        const turn = Math.atan2(inX * outY - inY * outX, inX * outX + inY * outY);
+        if (turn > bestTurn) {
+          bestTurn = turn;
+          nextIndex = candidate;
+        }
+      }
+
+      // A broken chain only comes from rounding; its edges are dropped
+      if (nextIndex === null) {
+        return;
+      }
+      used.add(nextIndex);
+      edge = edges[nextIndex] as Edge;
+    }
+
+    loops.push(loop.map((index) => vertices[index] as PlanPoint));
+  });
+
+  return loops;
+}
+
+/** Drops the vertices that edge splitting left in the middle of straight edges. */
+function removeCollinearVertices(loop: PlanPoint[], tolerance: number): PlanPoint[] {
+  return loop.filter((point, index) => {
+    const previous = loop[(index + loop.length - 1) % loop.length] as PlanPoint;
+    const next = loop[(index + 1) % loop.length] as PlanPoint;
+    const cross = (point.x - previous.x) * (next.y - previous.y) - (point.y - previous.y) * (next.x - previous.x);
+    return Math.abs(cross) > tolerance * Math.max(Math.hypot(next.x - previous.x, next.y - previous.y), 1);
+  });
+}
+
+/**
+ * A boolean of two plan shapes, each a set of loops with outer loops counter-clockwise and
+ * holes clockwise. The result uses the same convention, so it can feed the next operation.
+ */
+function combineLoops(subject: PlanPoint[][], clip: PlanPoint[][], operation: FootprintOperation): PlanPoint[][] {
+  const tolerance = getTolerance([...subject, ...clip]);
+  const { vertices, subjectEdges, clipEdges } = getSplitEdges(subject, clip, tolerance);
+  const subjectSides = classifyEdges(subjectEdges, clipEdges, clip, vertices);
+  const clipSides = classifyEdges(clipEdges, subjectEdges, subject, vertices);
+
+  // Both shapes have their inside on the left of each edge, so an edge they share in the same
+  // direction bounds both insides and one in opposite directions separates them
+  const keptSubject = subjectEdges.filter((_, index) => {
+    const side = subjectSides[index];
+    switch (operation) {
+      case "union":
+        return side === "outside" || side === "shared";
+      case "intersection":
+        return side === "inside" || side === "shared";
+      case "difference":
+        return side === "outside" || side === "opposite";
+    }
+  });
+  const keptClip = clipEdges.flatMap((edge, index) => {
+    const side = clipSides[index];
+    switch (operation) {
+      case "union":
+        return side === "outside" ? [edge] : [];
+      case "intersection":
+        return side === "inside" ? [edge] : [];
+      case "difference":
+        return side === "inside" ? [{ from: edge.to, to: edge.from }] : [];
+    }
+  });
+
+  return joinEdges([...keptSubject, ...keptClip], vertices)
+    .map((loop) => removeCollinearVertices(loop, tolerance))
+    .filter((loop) => loop.length >= 3 && Math.abs(getSignedArea(loop)) > tolerance * tolerance);
+}
+
+/** Outer loops as footprints, or why the loops cannot be regions. */
+function toSnapshots(loops: PlanPoint[][], minZ: number, maxZ: number, emptyError: string): FootprintResult {
+  if (loops.length === 0) {
+    return { snapshots: [], error: emptyError };
+  }
+  if (loops.some((loop) => getSignedArea(loop) < 0)) {
+    return { snapshots: [], error: "The result would have a hole, which a region cannot." };
+  }
+  if (!loops.every(isSimplePolygon)) {
+    return { snapshots: [], error: "The result is not a simple outline." };
+  }
+  return {
+    snapshots: loops.map((footprint) => ({ minZ, maxZ, footprint })),
+    error: null,
+  };
+}
+
+/**
+ * Union, intersection or difference of region footprints, applied from the first region on;
+ * difference takes every later region away from the first. Footprints may be concave, and a
+ * difference can leave several pieces. Heights follow the footprints: a union spans all the
+ * regions, an intersection keeps the shared range, and a difference keeps the first region's.
+ */
+export function combineFootprints(snapshots: PrismSnapshot[], operation: FootprintOperation): FootprintResult {
+  const [first, ...rest] = snapshots;
+  if (!first || rest.length === 0) {
+    return { snapshots: [], error: "Select at least two regions." };
+  }
+
+  let loops = [toCounterClockwise(first.footprint)];
+  let minZ = Math.min(first.minZ, first.maxZ);
+  let maxZ = Math.max(first.minZ, first.maxZ);
+  for (const snapshot of rest) {
+    loops = combineLoops(loops, [toCounterClockwise(snapshot.footprint)], operation);
+    if (operation === "union") {
+      minZ = Math.min(minZ, snapshot.minZ, snapshot.maxZ);
+      maxZ = Math.max(maxZ, snapshot.minZ, snapshot.maxZ);
+    } else if (operation === "intersection") {
+      minZ = Math.max(minZ, Math.min(snapshot.minZ, snapshot.maxZ));
+      maxZ = Math.min(maxZ, Math.max(snapshot.minZ, snapshot.maxZ));
+    }
+  }
+
+  switch (operation) {
+    case "union":
+      // Regions meeting only at a corner stay two loops, which one region cannot hold
+      if (loops.filter((loop) => getSignedArea(loop) > 0).length > 1) {
+        return { snapshots: [], error: "The selected regions do not overlap or share an edge." };
+      }
+      return toSnapshots(loops, minZ, maxZ, "The union is empty.");
+    case "intersection":
+      if (minZ >= maxZ) {
+        return { snapshots: [], error: "The selected regions share no elevations." };
+      }
+      return toSnapshots(loops, minZ, maxZ, "The selected regions do not overlap.");
+    case "difference":
+      return toSnapshots(loops, minZ, maxZ, "Nothing is left of the first region.");
+  }
+}
+
+/**
+ * Cuts a footprint along the infinite line through two points, intersecting it with a large
+ * square on each side of the line. A concave footprint can fall into more than two pieces.
+ */
+export function splitFootprint(snapshot: PrismSnapshot, start: PlanPoint, end: PlanPoint): FootprintResult {
+  const length = Math.hypot(end.x - start.x, end.y - start.y);
+  if (snapshot.footprint.length < 3 || length === 0) {
+    return { snapshots: [], error: "Draw a line across the region." };
+  }
+
+  const xs = snapshot.footprint.map((point) => point.x);
+  const ys = snapshot.footprint.map((point) => point.y);
+  const center = { x: (Math.min(...xs) + Math.max(...xs)) / 2, y: (Math.min(...ys) + Math.max(...ys)) / 2 };
+  const direction = { x: (end.x - start.x) / length, y: (end.y - start.y) / length };
+  const normal = { x: -direction.y, y: direction.x };
+  // The point on the line nearest the footprint, and a reach that covers the footprint from it
+  const along = (center.x - start.x) * direction.x + (center.y - start.y) * direction.y;
+  const origin = { x: start.x + along * direction.x, y: start.y + along * direction.y };
+  const reach = 2 * (Math.hypot(Math.max(...xs) - Math.min(...xs), Math.max(...ys) - Math.min(...ys)) +
+    Math.hypot(center.x - origin.x, center.y - origin.y)) + 1;
+  const at = (u: number, v: number): PlanPoint => ({
+    x: origin.x + u * reach * direction.x + v * reach * normal.x,
+    y: origin.y + u * reach * direction.y + v * reach * normal.y,
+  });
+
+  const footprint = [toCounterClockwise(snapshot.footprint)];
+  const left = combineLoops(footprint, [[at(-1, 0), at(1, 0), at(1, 1), at(-1, 1)]], "intersection");
+  const right = combineLoops(footprint, [[at(1, 0), at(-1, 0), at(-1, -1), at(1, -1)]], "intersection");
+  if (left.length === 0 || right.length === 0) {
+    return { snapshots: [], error: "The line does not cross the region." };
+  }
+
+  const minZ = Math.min(snapshot.minZ, snapshot.maxZ);
+  const maxZ = Math.max(snapshot.minZ, snapshot.maxZ);
+  return toSnapshots([...left, ...right], minZ, maxZ, "The line does not cross the region.");
+}
@@ -0,0 +1,182 @@
+import { isSimplePolygon, type PrismSnapshot } from "./geometry";
+
+/** Only the parts of RFC 7946 that region exchange uses. */
+export interface GeoJsonPolygon {
+  type: "Polygon";
+  coordinates: number[][][];
+}
+
+export interface GeoJsonFeature {
+  type: "Feature";
+  geometry: GeoJsonPolygon;
+  properties: Record<string, string | number | null>;
+}
+
+export interface GeoJsonFeatureCollection {
+  type: "FeatureCollection";
+  features: GeoJsonFeature[];
+}
+
+/** Tells regions apart from plan extraction volumes in an exported file. */
+export type GeoJsonFeatureKind = "region" | "extraction";
+
+/** A footprint read back from a file, in real-world coordinates. */
+export interface ImportedRegionShape {
+  regionId: string | null;
+  footprint: Array<{ x: number; y: number }>;
+  /** Null when the file gives no elevations; the enclosed points decide them then. */
+  minZ: number | null;
+  maxZ: number | null;
+}
+
+export interface ParsedRegionsGeoJson {
+  shapes: ImportedRegionShape[];
+  /** Features that are not usable polygons, or are exported extraction volumes. */
+  skippedCount: number;
+}
+
+function getSignedArea(footprint: Array<{ x: number; y: number }>): number {
+  let area = 0;
+  footprint.forEach((point, index) => {
+    const next = footprint[(index + 1) % footprint.length] as { x: number; y: number };
+    area += point.x * next.y - next.x * point.y;
+  });
+  return area / 2;
+}
+
+/**
+ * A polygon feature for a footprint in real-world coordinates. The ring is closed and
+ * counter-clockwise, as RFC 7946 asks of exterior rings.
+ */
+export function toGeoJsonFeature(
+  snapshot: PrismSnapshot,
+  kind: GeoJsonFeatureKind,
+  properties: Record<string, string | number | null>,
+): GeoJsonFeature {
+  const ring = getSignedArea(snapshot.footprint) < 0 ? [...snapshot.footprint].reverse() : snapshot.footprint;
+  const coordinates = ring.map((point) => [point.x, point.y]);
+  const first = coordinates[0];
+  if (first) {
+    coordinates.push([...first]);
+  }
+
+  return {
+    type: "Feature",
+    geometry: { type: "Polygon", coordinates: [coordinates] },
+    properties: { kind, ...properties, minZ: snapshot.minZ, maxZ: snapshot.maxZ },
+  };
+}
+
+function toFiniteNumber(value: unknown): number | null {
+  const number = typeof value === "string" && value.trim() !== "" ? Number(value) : value;
+  return typeof number === "number" && Number.isFinite(number) ? number : null;
+}
+
+/** The exterior ring without its closing vertex, or null when it is not a simple polygon. */
+function toFootprint(ring: unknown): { footprint: Array<{ x: number; y: number }>; zs: number[] } | null {
+  if (!Array.isArray(ring)) {
+    return null;
+  }
+
+  const footprint: Array<{ x: number; y: number }> = [];
+  const zs: number[] = [];
+  for (const position of ring) {
+    if (!Array.isArray(position)) {
+      return null;
+    }
+    const x = toFiniteNumber(position[0]);
+    const y = toFiniteNumber(position[1]);
+    if (x === null || y === null) {
+      return null;
+    }
+    footprint.push({ x, y });
+    const z = toFiniteNumber(position[2]);
+    if (z !== null) {
+      zs.push(z);
+    }
+  }
+
+  const first = footprint[0];
+  const last = footprint[footprint.length - 1];
+  if (footprint.length > 1 && first && last && first.x === last.x && first.y === last.y) {
+    footprint.pop();
+  }
+  return isSimplePolygon(footprint) ? { footprint, zs } : null;
+}
+
+/** Exterior rings of a Polygon or MultiPolygon geometry; holes are not kept. */
+function getExteriorRings(geometry: unknown): unknown[] {
+  if (!geometry || typeof geometry !== "object") {
+    return [];
+  }
+  const { type, coordinates } = geometry as { type?: unknown; coordinates?: unknown };
+  if (!Array.isArray(coordinates)) {
+    return [];
+  }
+  if (type === "Polygon") {
+    return coordinates.slice(0, 1);
+  }
+  if (type === "MultiPolygon") {
+    return coordinates.flatMap((polygon) => (Array.isArray(polygon) ? polygon.slice(0, 1) : []));
+  }
+  return [];
+}
+
+/**
+ * Region footprints from a FeatureCollection, a single Feature or a bare geometry. Elevations
+ * come from `minZ`/`maxZ` properties, or else from 3D positions in the ring.
+ */
+export function parseRegionsGeoJson(text: string): ParsedRegionsGeoJson {
+  const parsed = JSON.parse(text) as unknown;
+  if (!parsed || typeof parsed !== "object") {
+    throw new Error("The file is not GeoJSON.");
+  }
+
+  const root = parsed as { type?: unknown; features?: unknown };
+  const features: unknown[] = root.type === "FeatureCollection" && Array.isArray(root.features)
+    ? root.features
+    : root.type === "Feature"
+      ? [root]
+      : [{ type: "Feature", geometry: root, properties: {} }];
+
+  const shapes: ImportedRegionShape[] = [];
+  let skippedCount = 0;
+
+  for (const feature of features) {
+    const { geometry, properties } = (feature ?? {}) as { geometry?: unknown; properties?: unknown };
+    const props = (properties && typeof properties === "object" ? properties : {}) as Record<string, unknown>;
+    const rings = getExteriorRings(geometry);
+    if (props.kind === "extraction" || rings.length === 0) {
+      skippedCount += 1;
+      continue;
+    }
+
+    const regionId = typeof props.regionId === "string" && props.regionId.trim() !== ""
+      ? props.regionId.trim()
+      : null;
+    rings.forEach((ring, index) => {
+      const outline = toFootprint(ring);
+      if (!outline) {
+        skippedCount += 1;
+        return;
+      }
+
+      let minZ = toFiniteNumber(props.minZ);
+      let maxZ = toFiniteNumber(props.maxZ);
+      if ((minZ === null || maxZ === null) && outline.zs.length > 0) {
+        minZ = Math.min(...outline.zs);
+        maxZ = Math.max(...outline.zs);
+      }
+      const hasHeight = minZ !== null && maxZ !== null && maxZ > minZ;
+
+      shapes.push({
+        regionId: regionId !== null && rings.length > 1 ? `${regionId}-${index + 1}` : regionId,
+        footprint: outline.footprint,
+        minZ: hasHeight ? minZ : null,
+        maxZ: hasHeight ? maxZ : null,
+      });
+    });
+  }
+
+  return { shapes, skippedCount };
+}
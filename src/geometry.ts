@@ -10,13 +10,26 @@ export interface ScreenSelectionRect {
   maxY: number;
 }
 
+export interface ScreenPoint {
+  x: number;
+  y: number;
+}
+
 export interface PrismSnapshot {
   minZ: number;
   maxZ: number;
   footprint: Array<{ x: number; y: number }>;
 }
 
+/** Keeps the side of a plane where `normal · point >= offset`. */
+export interface HalfSpace {
+  normal: { x: number; y: number; z: number };
+  offset: number;
+}
+
 const POLYGON_EPSILON = 1e-9;
+/** How close two cut points must be to join into one cap outline. */
+const CAP_JOIN_EPSILON = 1e-6;
 
 // Keep this as a constant so we can wire to UI/config later.
 export const POINT_COLOR_STEPS = [
@@ -28,7 +41,19 @@ export const POINT_COLOR_STEPS = [
   0x16a34a, // Green
 ] as const;
 
+/** Points not assayed for the coloured attribute, drawn after the colour steps. */
+export const UNASSAYED_POINT_COLOR = 0x9ca3af;
+
+const UNASSAYED_BUCKET = POINT_COLOR_STEPS.length;
+
+function getBucketColor(bucket: number): number {
+  return POINT_COLOR_STEPS[bucket] ?? UNASSAYED_POINT_COLOR;
+}
+
 function getColorStepIndex(value: number, min: number, max: number): number {
+  if (Number.isNaN(value)) {
+    return UNASSAYED_BUCKET;
+  }
   if (!Number.isFinite(value) || max <= min) {
     return 0;
   }
@@ -40,23 +65,13 @@ function getColorStepIndex(value: number, min: number, max: number): number {
 
 export function addPointCloud(
   scene: THREE.Scene,
-  points: Point[],
+  position: THREE.BufferAttribute,
+  indices: Uint32Array,
   color: number,
 ): THREE.Points {
-  const positions = new Float32Array(points.length * 3);
-
-  for (let i = 0; i < points.length; i += 1) {
-    const point = points[i];
-    if (!point) {
-      continue;
-    }
-    positions[i * 3 + 0] = point.x;
-    positions[i * 3 + 1] = point.y;
-    positions[i * 3 + 2] = point.z;
-  }
-
   const geometry = new THREE.BufferGeometry();
-  geometry.setAttribute("position", new THREE.BufferAttribute(positions, 3));
+  geometry.setAttribute("position", position);
+  geometry.setIndex(new THREE.BufferAttribute(indices, 1));
 
   const material = new THREE.PointsMaterial({
     color,
@@ -65,49 +80,213 @@ export function addPointCloud(
   });
 
   const pointCloud = new THREE.Points(geometry, material);
+  pointCloud.userData.indices = indices;
   scene.add(pointCloud);
   return pointCloud;
 }
 
-/** Splits points into different colourised point clouds */
-export function addPointClouds(scene: THREE.Scene, allPoints: Point[]): THREE.Group {
+interface PointCloudData {
+  positions: Float32Array;
+  values: Float32Array;
+  minW: number;
+  maxW: number;
+  /** Points left out of the clouds, by position index; see `setHiddenPoints`. */
+  hidden: Uint8Array | null;
+}
+
+function getVisibleIndices(indices: Uint32Array, hidden: Uint8Array | null): Uint32Array {
+  return hidden ? indices.filter((index) => !hidden[index]) : indices;
+}
+
+function getValueRange(values: ArrayLike<number>): { minW: number; maxW: number } {
   let minW = Infinity;
   let maxW = -Infinity;
-  for (const point of allPoints) {
-    if (point.w < minW) minW = point.w;
-    if (point.w > maxW) maxW = point.w;
+  for (let i = 0; i < values.length; i += 1) {
+    const value = values[i] as number;
+    if (value < minW) minW = value;
+    if (value > maxW) maxW = value;
   }
+  return { minW, maxW };
+}
 
-  const numBuckets = POINT_COLOR_STEPS.length;
-  const buckets: Point[][] = Array.from({ length: numBuckets }, () => [] as Point[]);
+/** Indices of the points in [start, values.length), grouped by colour step. */
+function getBucketIndices(
+  values: ArrayLike<number>,
+  start: number,
+  minW: number,
+  maxW: number,
+): Uint32Array[] {
+  const numBuckets = POINT_COLOR_STEPS.length + 1;
+  const bucketByPoint = new Uint8Array(values.length - start);
+  const bucketSizes = new Array<number>(numBuckets).fill(0);
+
+  for (let i = start; i < values.length; i += 1) {
+    const index = getColorStepIndex(values[i] as number, minW, maxW);
+    bucketByPoint[i - start] = index;
+    bucketSizes[index] = (bucketSizes[index] as number) + 1;
+  }
 
-  for (const point of allPoints) {
-    const index = getColorStepIndex(point.w, minW, maxW);
-    const bucket = buckets[index]!;
-    bucket.push(point);
+  const buckets = bucketSizes.map((size) => new Uint32Array(size));
+  const fill = new Array<number>(numBuckets).fill(0);
+  for (let i = start; i < values.length; i += 1) {
+    const index = bucketByPoint[i - start] as number;
+    const bucket = buckets[index] as Uint32Array;
+    bucket[fill[index] as number] = i;
+    fill[index] = (fill[index] as number) + 1;
   }
 
+  return buckets;
+}
+
+function toFloat32Array(values: ArrayLike<number>): Float32Array {
+  return values instanceof Float32Array ? values : Float32Array.from(values);
+}
+
+/**
+ * Splits points into different colourised point clouds. The clouds share one position
+ * buffer (interleaved x, y, z) and each draws its bucket through an index.
+ */
+export function addPointClouds(
+  scene: THREE.Scene,
+  positions: Float32Array,
+  values: ArrayLike<number>,
+): THREE.Group {
+  const { minW, maxW } = getValueRange(values);
+  const buckets = getBucketIndices(values, 0, minW, maxW);
+  const position = new THREE.BufferAttribute(positions, 3);
   const pointClouds = new THREE.Group();
 
-  for (let i = 0; i < numBuckets; i += 1) {
-    const points = buckets[i] as Point[];
+  for (let i = 0; i < buckets.length; i += 1) {
+    const indices = buckets[i] as Uint32Array;
 
-    if (points.length === 0) {
+    if (indices.length === 0) {
       continue;
     }
 
-    const color = POINT_COLOR_STEPS[i]!;
-
-    const cloud = addPointCloud(scene, points, color);
+    const cloud = addPointCloud(scene, position, indices, getBucketColor(i));
+    cloud.userData.bucket = i;
 
     pointClouds.add(cloud);
   }
 
+  const data: PointCloudData = { positions, values: toFloat32Array(values), minW, maxW, hidden: null };
+  pointClouds.userData.pointCloud = data;
   scene.add(pointClouds);
 
   return pointClouds;
 }
 
+/**
+ * Adds points to clouds built by `addPointClouds`. The colour scale of the original load
+ * is kept so existing points do not change colour as new ones arrive.
+ */
+export function appendToPointClouds(
+  scene: THREE.Scene,
+  pointClouds: THREE.Group,
+  positions: Float32Array,
+  values: ArrayLike<number>,
+): void {
+  const data = pointClouds.userData.pointCloud as PointCloudData | undefined;
+  if (!data || values.length === 0) {
+    return;
+  }
+
+  const start = data.values.length;
+  const nextPositions = new Float32Array(data.positions.length + positions.length);
+  nextPositions.set(data.positions, 0);
+  nextPositions.set(positions, data.positions.length);
+  const nextValues = new Float32Array(start + values.length);
+  nextValues.set(data.values, 0);
+  nextValues.set(toFloat32Array(values), start);
+
+  const range = Number.isFinite(data.minW) ? data : getValueRange(values);
+  const added = getBucketIndices(nextValues, start, range.minW, range.maxW);
+  const position = new THREE.BufferAttribute(nextPositions, 3);
+  const cloudByBucket = new Map<number, THREE.Points>();
+  for (const child of pointClouds.children) {
+    if (child instanceof THREE.Points) {
+      cloudByBucket.set(child.userData.bucket as number, child);
+    }
+  }
+
+  for (let i = 0; i < added.length; i += 1) {
+    const indices = added[i] as Uint32Array;
+    const cloud = cloudByBucket.get(i);
+
+    if (!cloud) {
+      if (indices.length > 0) {
+        const created = addPointCloud(scene, position, indices, getBucketColor(i));
+        created.userData.bucket = i;
+        pointClouds.add(created);
+      }
+      continue;
+    }
+
+    const previous = (cloud.userData.indices as Uint32Array | undefined) ?? new Uint32Array(0);
+    const nextIndices = new Uint32Array(previous.length + indices.length);
+    nextIndices.set(previous, 0);
+    nextIndices.set(indices, previous.length);
+
+    const geometry = new THREE.BufferGeometry();
+    geometry.setAttribute("position", position);
+    geometry.setIndex(new THREE.BufferAttribute(getVisibleIndices(nextIndices, data.hidden), 1));
+    cloud.geometry.dispose();
+    cloud.geometry = geometry;
+    cloud.userData.indices = nextIndices;
+  }
+
+  const nextData: PointCloudData = {
+    positions: nextPositions,
+    values: nextValues,
+    minW: range.minW,
+    maxW: range.maxW,
+    hidden: data.hidden,
+  };
+  pointClouds.userData.pointCloud = nextData;
+}
+
+/** Rebuilds clouds made by `addPointClouds` with new colour values for the same positions. */
+export function recolourPointClouds(
+  scene: THREE.Scene,
+  pointClouds: THREE.Group,
+  values: ArrayLike<number>,
+): THREE.Group {
+  const data = pointClouds.userData.pointCloud as PointCloudData | undefined;
+  removePointClouds(scene, pointClouds);
+  const recoloured = addPointClouds(scene, data?.positions ?? new Float32Array(0), values);
+  setHiddenPoints(recoloured, data?.hidden ?? null);
+  return recoloured;
+}
+
+/**
+ * Leaves out the points flagged in `hidden` (by position index) from clouds made by
+ * `addPointClouds`; `null` shows every point again. Points appended later stay visible.
+ */
+export function setHiddenPoints(pointClouds: THREE.Group, hidden: Uint8Array | null): void {
+  const data = pointClouds.userData.pointCloud as PointCloudData | undefined;
+  if (!data || data.hidden === hidden) {
+    return;
+  }
+
+  data.hidden = hidden;
+  for (const child of pointClouds.children) {
+    if (child instanceof THREE.Points) {
+      const indices = child.userData.indices as Uint32Array;
+      child.geometry.setIndex(new THREE.BufferAttribute(getVisibleIndices(indices, hidden), 1));
+    }
+  }
+}
+
+export function removePointClouds(scene: THREE.Scene, pointClouds: THREE.Group): void {
+  scene.remove(pointClouds);
+  pointClouds.traverse((node) => {
+    if (node instanceof THREE.Points) {
+      node.geometry.dispose();
+      (node.material as THREE.Material).dispose();
+    }
+  });
+}
+
 function swap(values: number[], i: number, j: number): void {
   const temp = values[i];
   values[i] = values[j] as number;
@@ -219,7 +398,7 @@ export function fitCameraToPointCloud(
 
 export function getPointsInScreenSelection(
   points: Point[],
-  camera: THREE.PerspectiveCamera,
+  camera: THREE.Camera,
   viewportWidth: number,
   viewportHeight: number,
   selectionRect: ScreenSelectionRect,
@@ -252,6 +431,55 @@ export function getPointsInScreenSelection(
   return selected;
 }
 
+/** Points whose projection falls inside a lasso or polygon drawn in canvas pixels. */
+export function getPointsInScreenPolygon(
+  points: Point[],
+  camera: THREE.Camera,
+  viewportWidth: number,
+  viewportHeight: number,
+  polygon: ScreenPoint[],
+): Point[] {
+  if (polygon.length < 3) {
+    return [];
+  }
+
+  let minX = Infinity;
+  let minY = Infinity;
+  let maxX = -Infinity;
+  let maxY = -Infinity;
+  for (const vertex of polygon) {
+    if (vertex.x < minX) minX = vertex.x;
+    if (vertex.y < minY) minY = vertex.y;
+    if (vertex.x > maxX) maxX = vertex.x;
+    if (vertex.y > maxY) maxY = vertex.y;
+  }
+
+  const projected = new THREE.Vector3();
+  const selected: Point[] = [];
+
+  for (const point of points) {
+    projected.set(point.x, point.y, point.z).project(camera);
+
+    if (projected.z < -1 || projected.z > 1) {
+      continue;
+    }
+
+    const screenX = (projected.x * 0.5 + 0.5) * viewportWidth;
+    const screenY = (-projected.y * 0.5 + 0.5) * viewportHeight;
+
+    // Cheap bounding box test before the polygon test
+    if (screenX < minX || screenX > maxX || screenY < minY || screenY > maxY) {
+      continue;
+    }
+
+    if (isPointInPolygon2D(screenX, screenY, polygon)) {
+      selected.push(point);
+    }
+  }
+
+  return selected;
+}
+
 function isPointOnSegment2D(
   px: number,
   py: number,
@@ -296,6 +524,75 @@ function isPointInPolygon2D(x: number, y: number, polygon: Array<{ x: number; y:
   return inside;
 }
 
+function getOrientation2D(
+  a: { x: number; y: number },
+  b: { x: number; y: number },
+  c: { x: number; y: number },
+): number {
+  const value = (b.x - a.x) * (c.y - a.y) - (b.y - a.y) * (c.x - a.x);
+  return Math.abs(value) <= POLYGON_EPSILON ? 0 : Math.sign(value);
+}
+
+function segmentsIntersect2D(
+  a: { x: number; y: number },
+  b: { x: number; y: number },
+  c: { x: number; y: number },
+  d: { x: number; y: number },
+): boolean {
+  const abc = getOrientation2D(a, b, c);
+  const abd = getOrientation2D(a, b, d);
+  const cda = getOrientation2D(c, d, a);
+  const cdb = getOrientation2D(c, d, b);
+  if (abc !== abd && cda !== cdb) {
+    return true;
+  }
+
+  return (abc === 0 && isPointOnSegment2D(c.x, c.y, a.x, a.y, b.x, b.y)) ||
+    (abd === 0 && isPointOnSegment2D(d.x, d.y, a.x, a.y, b.x, b.y)) ||
+    (cda === 0 && isPointOnSegment2D(a.x, a.y, c.x, c.y, d.x, d.y)) ||
+    (cdb === 0 && isPointOnSegment2D(b.x, b.y, c.x, c.y, d.x, d.y));
+}
+
+/** Shoelace area of the footprint; positive when its vertices run counter-clockwise. */
+export function getSignedArea(footprint: Array<{ x: number; y: number }>): number {
+  let area = 0;
+  footprint.forEach((point, index) => {
+    const next = footprint[(index + 1) % footprint.length] as { x: number; y: number };
+    area += point.x * next.y - next.x * point.y;
+  });
+  return area / 2;
+}
+
+/** True when the footprint has at least three distinct vertices and no edges crossing or touching. */
+export function isSimplePolygon(footprint: Array<{ x: number; y: number }>): boolean {
+  const count = footprint.length;
+  if (count < 3) {
+    return false;
+  }
+
+  for (let i = 0; i < count; i += 1) {
+    const a = footprint[i] as { x: number; y: number };
+    const b = footprint[(i + 1) % count] as { x: number; y: number };
+    if (Math.abs(a.x - b.x) <= POLYGON_EPSILON && Math.abs(a.y - b.y) <= POLYGON_EPSILON) {
+      return false;
+    }
+
+    // Adjacent edges share a vertex, so only edges at least two apart are compared
+    for (let j = i + 2; j < count; j += 1) {
+      if (i === 0 && j === count - 1) {
+        continue;
+      }
+      const c = footprint[j] as { x: number; y: number };
+      const d = footprint[(j + 1) % count] as { x: number; y: number };
+      if (segmentsIntersect2D(a, b, c, d)) {
+        return false;
+      }
+    }
+  }
+
+  return true;
+}
+
 export function getPointsInPrism(points: Point[], snapshot: PrismSnapshot): Point[] {
   if (snapshot.footprint.length < 3) {
     return [];
@@ -318,6 +615,30 @@ export function getPointsInPrism(points: Point[], snapshot: PrismSnapshot): Poin
   return selected;
 }
 
+/** A prism on a drawn footprint, spanning the heights of the points inside it; null when it encloses none. */
+export function getFootprintSnapshot(
+  points: Point[],
+  footprint: Array<{ x: number; y: number }>,
+): PrismSnapshot | null {
+  const enclosed = getPointsInPrism(points, { minZ: -Infinity, maxZ: Infinity, footprint });
+  if (enclosed.length === 0) {
+    return null;
+  }
+
+  let minZ = Infinity;
+  let maxZ = -Infinity;
+  for (const point of enclosed) {
+    if (point.z < minZ) minZ = point.z;
+    if (point.z > maxZ) maxZ = point.z;
+  }
+
+  return {
+    minZ,
+    maxZ,
+    footprint: footprint.map((point) => ({ x: point.x, y: point.y })),
+  };
+}
+
 function cross2D(o: THREE.Vector2, a: THREE.Vector2, b: THREE.Vector2): number {
   return (a.x - o.x) * (b.y - o.y) - (a.y - o.y) * (b.x - o.x);
 }
@@ -458,10 +779,7 @@ function getPrismFootprint(points: Point[], maxVertices: number): THREE.Vector2[
   return getRectangularFootprint(points);
 }
 
-function addPrismFromSnapshot(
-  scene: THREE.Scene,
-  snapshot: PrismSnapshot,
-): THREE.Group | null {
+function getPrismGeometry(snapshot: PrismSnapshot): THREE.ExtrudeGeometry | null {
   const { minZ, maxZ } = snapshot;
 
   if (!Number.isFinite(minZ) || !Number.isFinite(maxZ)) {
@@ -477,11 +795,21 @@ function addPrismFromSnapshot(
   }
 
   const shape = new THREE.Shape(footprint);
-  const geometry = new THREE.ExtrudeGeometry(shape, {
+  return new THREE.ExtrudeGeometry(shape, {
     depth: Math.max(maxZ - minZ, 0.0001),
     bevelEnabled: false,
     steps: 1,
   });
+}
+
+function addPrismFromSnapshot(
+  scene: THREE.Scene,
+  snapshot: PrismSnapshot,
+): THREE.Group | null {
+  const geometry = getPrismGeometry(snapshot);
+  if (!geometry) {
+    return null;
+  }
 
   const material = new THREE.MeshBasicMaterial({
     color: 0x22d3ee,
@@ -505,13 +833,34 @@ function addPrismFromSnapshot(
   const prism = new THREE.Group();
   prism.add(prismMesh);
   prism.add(edges);
-  prism.position.z = minZ;
+  prism.position.z = snapshot.minZ;
   prism.userData.prismSnapshot = snapshot;
   scene.add(prism);
 
   return prism;
 }
 
+/** Reshapes a prism made by `restorePrism` in place, keeping its materials; false when the snapshot is unusable. */
+export function updatePrism(prism: THREE.Group, snapshot: PrismSnapshot): boolean {
+  const geometry = getPrismGeometry(snapshot);
+  if (!geometry) {
+    return false;
+  }
+
+  for (const node of prism.children) {
+    if (node instanceof THREE.LineSegments) {
+      node.geometry.dispose();
+      node.geometry = new THREE.EdgesGeometry(geometry);
+    } else if (node instanceof THREE.Mesh) {
+      node.geometry.dispose();
+      node.geometry = geometry;
+    }
+  }
+  prism.position.z = snapshot.minZ;
+  prism.userData.prismSnapshot = snapshot;
+  return true;
+}
+
 export function toStoredPrism(key: string, regionId: string, snapshot: PrismSnapshot): StoredPrism {
   return {
     key,
@@ -537,6 +886,299 @@ export function restorePrism(
   return addPrismFromSnapshot(scene, snapshot);
 }
 
+export function removePrism(scene: THREE.Scene, prism: THREE.Group): void {
+  scene.remove(prism);
+  prism.traverse((node) => {
+    if (node instanceof THREE.Mesh || node instanceof THREE.LineSegments) {
+      node.geometry.dispose();
+      (node.material as THREE.Material).dispose();
+    }
+  });
+}
+
+/** A convex polygon on a solid's surface; `outwardZ` is the z of its outward normal. */
+interface SolidFace {
+  vertices: THREE.Vector3[];
+  outwardZ: number;
+}
+
+/** The prism's surface as convex polygons: triangulated top and bottom, quads up the sides. */
+function getPrismFaces(snapshot: PrismSnapshot): SolidFace[] {
+  const footprint = snapshot.footprint.map((point) => new THREE.Vector2(point.x, point.y));
+  const bottom = footprint.map((point) => new THREE.Vector3(point.x, point.y, snapshot.minZ));
+  const top = footprint.map((point) => new THREE.Vector3(point.x, point.y, snapshot.maxZ));
+  const faces: SolidFace[] = [];
+
+  for (const triangle of THREE.ShapeUtils.triangulateShape(footprint, [])) {
+    const [a, b, c] = triangle as [number, number, number];
+    faces.push({
+      vertices: [bottom[a] as THREE.Vector3, bottom[c] as THREE.Vector3, bottom[b] as THREE.Vector3],
+      outwardZ: -1,
+    });
+    faces.push({
+      vertices: [top[a] as THREE.Vector3, top[b] as THREE.Vector3, top[c] as THREE.Vector3],
+      outwardZ: 1,
+    });
+  }
+
+  for (let i = 0; i < footprint.length; i += 1) {
+    const next = (i + 1) % footprint.length;
+    faces.push({
+      vertices: [
+        bottom[i] as THREE.Vector3,
+        bottom[next] as THREE.Vector3,
+        top[next] as THREE.Vector3,
+        top[i] as THREE.Vector3,
+      ],
+      outwardZ: 0,
+    });
+  }
+
+  return faces;
+}
+
+/** Clips a convex polygon to a half-space; `cut` receives the segment left on the plane. */
+function clipFaceByHalfSpace(
+  face: THREE.Vector3[],
+  normal: THREE.Vector3,
+  offset: number,
+  cut: Array<[THREE.Vector3, THREE.Vector3]>,
+): THREE.Vector3[] {
+  const result: THREE.Vector3[] = [];
+  const crossings: THREE.Vector3[] = [];
+
+  for (let i = 0; i < face.length; i += 1) {
+    const current = face[i] as THREE.Vector3;
+    const next = face[(i + 1) % face.length] as THREE.Vector3;
+    const currentDistance = normal.dot(current) - offset;
+    const nextDistance = normal.dot(next) - offset;
+
+    if (currentDistance >= 0) {
+      result.push(current);
+    }
+    if ((currentDistance >= 0) !== (nextDistance >= 0)) {
+      const crossing = current.clone().lerp(next, currentDistance / (currentDistance - nextDistance));
+      result.push(crossing);
+      crossings.push(crossing);
+    }
+  }
+
+  if (crossings.length === 2) {
+    cut.push([crossings[0] as THREE.Vector3, crossings[1] as THREE.Vector3]);
+  }
+
+  return result.length >= 3 ? result : [];
+}
+
+/** Joins cut segments end to end into closed outlines. */
+function joinCutSegments(segments: Array<[THREE.Vector3, THREE.Vector3]>): THREE.Vector3[][] {
+  const used = new Uint8Array(segments.length);
+  const loops: THREE.Vector3[][] = [];
+
+  for (let start = 0; start < segments.length; start += 1) {
+    if (used[start]) {
+      continue;
+    }
+    used[start] = 1;
+    const [first, second] = segments[start] as [THREE.Vector3, THREE.Vector3];
+    const loop = [first];
+    let end = second;
+
+    for (;;) {
+      if (end.distanceTo(first) < CAP_JOIN_EPSILON) {
+        break;
+      }
+      loop.push(end);
+      const nextIndex = segments.findIndex(([a, b], index) =>
+        !used[index] && (a.distanceTo(end) < CAP_JOIN_EPSILON || b.distanceTo(end) < CAP_JOIN_EPSILON),
+      );
+      if (nextIndex === -1) {
+        break;
+      }
+      used[nextIndex] = 1;
+      const [a, b] = segments[nextIndex] as [THREE.Vector3, THREE.Vector3];
+      end = a.distanceTo(end) < CAP_JOIN_EPSILON ? b : a;
+    }
+
+    if (loop.length >= 3) {
+      loops.push(loop);
+    }
+  }
+
+  return loops;
+}
+
+/** Triangles closing an outline that lies in the plane with the given normal. */
+function getCapFaces(loop: THREE.Vector3[], normal: THREE.Vector3): THREE.Vector3[][] {
+  const u = new THREE.Vector3(1, 0, 0).cross(normal);
+  if (u.lengthSq() < 1e-6) {
+    u.set(0, 1, 0).cross(normal);
+  }
+  u.normalize();
+  const v = normal.clone().cross(u).normalize();
+  const contour = loop.map((point) => new THREE.Vector2(point.dot(u), point.dot(v)));
+
+  return THREE.ShapeUtils.triangulateShape(contour, []).map((triangle) =>
+    triangle.map((index) => loop[index] as THREE.Vector3),
+  );
+}
+
+/**
+ * The surface left after cutting a prism by each half-space in turn, capping every cut
+ * so the result stays closed.
+ */
+function getClippedPrismFaces(snapshot: PrismSnapshot, halfSpaces: HalfSpace[]): SolidFace[] {
+  if (snapshot.footprint.length < 3 || !(snapshot.maxZ > snapshot.minZ)) {
+    return [];
+  }
+
+  let faces = getPrismFaces(snapshot);
+  for (const halfSpace of halfSpaces) {
+    const normal = new THREE.Vector3(halfSpace.normal.x, halfSpace.normal.y, halfSpace.normal.z);
+    const length = normal.length();
+    if (length < POLYGON_EPSILON) {
+      continue;
+    }
+    normal.divideScalar(length);
+    const offset = halfSpace.offset / length;
+    const cut: Array<[THREE.Vector3, THREE.Vector3]> = [];
+
+    faces = faces
+      .map((face) => ({ ...face, vertices: clipFaceByHalfSpace(face.vertices, normal, offset, cut) }))
+      .filter((face) => face.vertices.length >= 3);
+    // The kept material is on the normal's side, so a cap faces the other way
+    for (const loop of joinCutSegments(cut)) {
+      faces.push(...getCapFaces(loop, normal).map((vertices) => ({ vertices, outwardZ: -normal.z })));
+    }
+  }
+
+  return faces;
+}
+
+/** The cut solid's surface as convex polygons, for exporting it as faces. */
+export function getClippedPrismSurface(
+  snapshot: PrismSnapshot,
+  halfSpaces: HalfSpace[],
+): Array<Array<{ x: number; y: number; z: number }>> {
+  return getClippedPrismFaces(snapshot, halfSpaces).map((face) =>
+    face.vertices.map((vertex) => ({ x: vertex.x, y: vertex.y, z: vertex.z })),
+  );
+}
+
+/** Drops vertices that sit on the line through their neighbours. */
+function removeCollinearVertices(loop: THREE.Vector3[]): THREE.Vector3[] {
+  return loop.filter((point, index) => {
+    const previous = loop[(index + loop.length - 1) % loop.length] as THREE.Vector3;
+    const next = loop[(index + 1) % loop.length] as THREE.Vector3;
+    const cross = (point.x - previous.x) * (next.y - previous.y) - (point.y - previous.y) * (next.x - previous.x);
+    return Math.abs(cross) > CAP_JOIN_EPSILON * Math.max(previous.distanceTo(next), 1);
+  });
+}
+
+/**
+ * Plan outlines of a prism cut by half-spaces, each with the cut solid's height range. The
+ * upward-facing faces of the cut solid cover its plan exactly once, so the outline is their
+ * edges that no other upward face shares.
+ */
+export function getClippedPrismOutlines(snapshot: PrismSnapshot, halfSpaces: HalfSpace[]): PrismSnapshot[] {
+  const faces = getClippedPrismFaces(snapshot, halfSpaces);
+  if (faces.length === 0) {
+    return [];
+  }
+
+  let minZ = Infinity;
+  let maxZ = -Infinity;
+  const edges: Array<[THREE.Vector3, THREE.Vector3]> = [];
+  for (const face of faces) {
+    for (const vertex of face.vertices) {
+      minZ = Math.min(minZ, vertex.z);
+      maxZ = Math.max(maxZ, vertex.z);
+    }
+    if (face.outwardZ <= CAP_JOIN_EPSILON) {
+      continue;
+    }
+    face.vertices.forEach((vertex, index) => {
+      const next = face.vertices[(index + 1) % face.vertices.length] as THREE.Vector3;
+      edges.push([new THREE.Vector3(vertex.x, vertex.y, 0), new THREE.Vector3(next.x, next.y, 0)]);
+    });
+  }
+
+  const shared = new Uint8Array(edges.length);
+  for (let i = 0; i < edges.length; i += 1) {
+    if (shared[i]) {
+      continue;
+    }
+    const [a, b] = edges[i] as [THREE.Vector3, THREE.Vector3];
+    for (let j = i + 1; j < edges.length; j += 1) {
+      const [c, d] = edges[j] as [THREE.Vector3, THREE.Vector3];
+      const reversed = a.distanceTo(d) < CAP_JOIN_EPSILON && b.distanceTo(c) < CAP_JOIN_EPSILON;
+      const same = a.distanceTo(c) < CAP_JOIN_EPSILON && b.distanceTo(d) < CAP_JOIN_EPSILON;
+      if (!shared[j] && (reversed || same)) {
+        shared[i] = 1;
+        shared[j] = 1;
+        break;
+      }
+    }
+  }
+
+  return joinCutSegments(edges.filter((_, index) => !shared[index]))
+    .map(removeCollinearVertices)
+    .filter((loop) => loop.length >= 3)
+    .map((loop) => ({
+      minZ,
+      maxZ,
+      footprint: loop.map((point) => ({ x: point.x, y: point.y })),
+    }));
+}
+
+/** Adds the solid left after cutting a prism by each half-space in turn. */
+export function addClippedPrism(
+  scene: THREE.Scene,
+  snapshot: PrismSnapshot,
+  halfSpaces: HalfSpace[],
+): THREE.Group | null {
+  const faces = getClippedPrismFaces(snapshot, halfSpaces).map((face) => face.vertices);
+  if (faces.length === 0) {
+    return null;
+  }
+
+  const positions: number[] = [];
+  for (const face of faces) {
+    const origin = face[0] as THREE.Vector3;
+    for (let i = 1; i < face.length - 1; i += 1) {
+      const b = face[i] as THREE.Vector3;
+      const c = face[i + 1] as THREE.Vector3;
+      positions.push(origin.x, origin.y, origin.z, b.x, b.y, b.z, c.x, c.y, c.z);
+    }
+  }
+
+  const geometry = new THREE.BufferGeometry();
+  geometry.setAttribute("position", new THREE.Float32BufferAttribute(positions, 3));
+
+  const solid = new THREE.Group();
+  solid.add(new THREE.Mesh(
+    geometry,
+    new THREE.MeshBasicMaterial({
+      color: 0x22d3ee,
+      transparent: true,
+      opacity: 0.12,
+      depthWrite: false,
+      side: THREE.DoubleSide,
+    }),
+  ));
+  solid.add(new THREE.LineSegments(
+    new THREE.EdgesGeometry(geometry),
+    new THREE.LineBasicMaterial({
+      color: 0x22d3ee,
+      transparent: true,
+      opacity: 0.95,
+    }),
+  ));
+  scene.add(solid);
+
+  return solid;
+}
+
 export function getPrismSnapshot(prism: THREE.Group): PrismSnapshot | null {
   const snapshot = prism.userData.prismSnapshot as PrismSnapshot | undefined;
   if (!snapshot) {
@@ -624,7 +1266,8 @@ export function cross2(a: THREE.Vector2, b: THREE.Vector2): number {
   return a.x * b.y - a.y * b.x;
 }
 
-export function getPlanArrowLength(snapshot: PrismSnapshot): number {
+/** Distance from the footprint's centre to its farthest vertex. */
+export function getFootprintRadius(snapshot: PrismSnapshot): number {
   const center = getRegionCenter(snapshot);
   let maxRadius = 0;
 
@@ -637,7 +1280,11 @@ export function getPlanArrowLength(snapshot: PrismSnapshot): number {
     }
   }
 
-  return Math.max(2, maxRadius * 1.8);
+  return maxRadius;
+}
+
+export function getPlanArrowLength(snapshot: PrismSnapshot): number {
+  return Math.max(2, getFootprintRadius(snapshot) * 1.8);
 }
 
 export function getRegionCenter(snapshot: PrismSnapshot): THREE.Vector3 {
@@ -0,0 +1,126 @@
+import { Database } from "bun:sqlite";
+import { IMPORTS_DB_PATH } from "./db";
+import { IMPORT_ATTRIBUTES, type ImportedDataset } from "./pointImport";
+import type { Point } from "./points";
+import { ensureColumn } from "./store";
+
+/** Table every imported dataset's points live in, keyed by `dataset_id`. */
+export const IMPORTED_POINTS_TABLE = "ImportedPoints";
+
+/** Column of the imported points table that holds each assay. */
+export const IMPORTED_ATTRIBUTE_COLUMNS: Record<string, string> = Object.fromEntries(
+  IMPORT_ATTRIBUTES.map((attribute) => [attribute, attribute.toLowerCase()]),
+);
+
+interface ImportedDatasetRow {
+  id: string;
+  name: string;
+  created_at: number;
+  point_count: number;
+}
+
+function openImports(): Database {
+  const db = new Database(IMPORTS_DB_PATH, { create: true });
+
+  db.run(`
+    CREATE TABLE IF NOT EXISTS ImportedDatasets (
+      id TEXT PRIMARY KEY,
+      name TEXT NOT NULL,
+      created_at INTEGER NOT NULL,
+      point_count INTEGER NOT NULL
+    )
+  `);
+
+  db.run(`
+    CREATE TABLE IF NOT EXISTS ${IMPORTED_POINTS_TABLE} (
+      dataset_id TEXT NOT NULL,
+      x REAL,
+      y REAL,
+      z REAL,
+      w REAL,
+      t INTEGER,
+      mass REAL
+    )
+  `);
+  ensureColumn(db, IMPORTED_POINTS_TABLE, "mass", "REAL");
+  for (const column of Object.values(IMPORTED_ATTRIBUTE_COLUMNS)) {
+    ensureColumn(db, IMPORTED_POINTS_TABLE, column, "REAL");
+  }
+
+  db.run(`CREATE INDEX IF NOT EXISTS ImportedPoints_dataset ON ${IMPORTED_POINTS_TABLE} (dataset_id)`);
+
+  return db;
+}
+
+function withImports<T>(fn: (db: Database) => T): T {
+  const db = openImports();
+
+  try {
+    return fn(db);
+  } finally {
+    db.close();
+  }
+}
+
+function fromDatasetRow(row: ImportedDatasetRow): ImportedDataset {
+  return {
+    id: row.id,
+    name: row.name,
+    createdAt: row.created_at,
+    pointCount: row.point_count,
+  };
+}
+
+export function listImportedDatasets(): ImportedDataset[] {
+  return withImports((db) => {
+    const rows = db.query(
+      "SELECT id, name, created_at, point_count FROM ImportedDatasets ORDER BY created_at",
+    ).all() as ImportedDatasetRow[];
+    return rows.map(fromDatasetRow);
+  });
+}
+
+export function createImportedDataset(name: string, points: Point[]): ImportedDataset {
+  const dataset: ImportedDataset = {
+    id: crypto.randomUUID(),
+    name,
+    createdAt: Date.now(),
+    pointCount: points.length,
+  };
+
+  withImports((db) => {
+    const attributeColumns = Object.entries(IMPORTED_ATTRIBUTE_COLUMNS);
+    const columns = ["dataset_id", "x", "y", "z", "w", "t", "mass", ...attributeColumns.map(([, column]) => column)];
+    const insert = db.prepare(
+      `INSERT INTO ${IMPORTED_POINTS_TABLE} (${columns.join(", ")}) VALUES (${columns.map(() => "?").join(", ")})`,
+    );
+
+    db.transaction(() => {
+      db.query("INSERT INTO ImportedDatasets (id, name, created_at, point_count) VALUES (?, ?, ?, ?)")
+        .run(dataset.id, dataset.name, dataset.createdAt, dataset.pointCount);
+      for (const point of points) {
+        insert.run(
+          dataset.id,
+          point.x,
+          point.y,
+          point.z,
+          point.w,
+          point.t ?? null,
+          point.mass ?? null,
+          ...attributeColumns.map(([attribute]) => point.attributes?.[attribute] ?? null),
+        );
+      }
+    })();
+  });
+
+  return dataset;
+}
+
+export function deleteImportedDataset(id: string): boolean {
+  return withImports((db) =>
+    db.transaction(() => {
+      db.query(`DELETE FROM ${IMPORTED_POINTS_TABLE} WHERE dataset_id = ?`).run(id);
+      return db.query("DELETE FROM ImportedDatasets WHERE id = ?").run(id).changes > 0;
+    })()
+  );
+}
@@ -0,0 +1,64 @@
+import type { ScreenPoint } from "./geometry";
+
+/** Clicking this close to the first vertex, in pixels, closes an outline. */
+export const CLOSE_DISTANCE = 8;
+
+interface OutlineControlHandlers {
+  /** Whether an outline is being placed, so the keys and double-click belong to it. */
+  isActive: () => boolean;
+  onClose: () => void;
+  onUndo: () => void;
+  onCancel: () => void;
+}
+
+/** Typing in a form field should not close or undo an outline drawn behind it. */
+export function isEditableTarget(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) {
+    return false;
+  }
+  return target.isContentEditable || target instanceof HTMLInputElement ||
+    target instanceof HTMLTextAreaElement || target instanceof HTMLSelectElement;
+}
+
+/** Whether a click at `position` lands on the first of `vertexCount` placed vertices. */
+export function isClosingClick(first: ScreenPoint | undefined, vertexCount: number, position: ScreenPoint): boolean {
+  if (!first || vertexCount < 3) {
+    return false;
+  }
+  return Math.hypot(position.x - first.x, position.y - first.y) <= CLOSE_DISTANCE;
+}
+
+/**
+ * Closes an outline placed click by click on double-click or Enter, removes its last vertex
+ * on Backspace and cancels it on Escape. Returns a function that removes the listeners.
+ */
+export function addOutlineControls(element: HTMLElement, handlers: OutlineControlHandlers): () => void {
+  const onDoubleClick = (event: MouseEvent): void => {
+    if (handlers.isActive()) {
+      event.preventDefault();
+      handlers.onClose();
+    }
+  };
+
+  const onKeyDown = (event: KeyboardEvent): void => {
+    if (!handlers.isActive() || isEditableTarget(event.target)) {
+      return;
+    }
+    if (event.key === "Enter") {
+      handlers.onClose();
+    } else if (event.key === "Escape") {
+      handlers.onCancel();
+    } else if (event.key === "Backspace") {
+      event.preventDefault();
+      handlers.onUndo();
+    }
+  };
+
+  element.addEventListener("dblclick", onDoubleClick);
+  window.addEventListener("keydown", onKeyDown);
+
+  return () => {
+    element.removeEventListener("dblclick", onDoubleClick);
+    window.removeEventListener("keydown", onKeyDown);
+  };
+}
@@ -1,9 +1,29 @@
 import { useEffect, useRef, useState } from "react";
-import type { Point } from "./points";
+import { getAttributeLabel, type AttributeStats, type DatasetSummary, type Point } from "./points";
 import { RegionFormModal } from "./regionFormModal";
-import { type PlanGrandTotal, type PlanItem, type PlanOutcomeItem } from "./OperationPlan";
+import { RegionCoordinatesModal } from "./RegionCoordinatesModal";
+import type { RegionCoordinates } from "./regionCoordinates";
+import type { GeoJsonFeatureCollection } from "./geojson";
+import type { DxfDrawing } from "./dxf";
+import type { FootprintOperation } from "./footprintBoolean";
+import { type PlanGrandTotal, type PlanItem, type PlanOutcomeItem, type PlanPeriodOutcome } from "./OperationPlan";
 import { RegionTab } from "./RegionTab";
 import { PlanTab } from "./PlanTab";
+import type { PlanScenario, ScenarioSummary } from "./PlanScenarios";
+import { DataTab } from "./DataTab";
+import type { RecipeCandidate, RecipeQuantity } from "./recipe";
+import type { BlendResult, BlendSettings } from "./blend";
+import type { WorkControl } from "./slicedWork";
+import type { AngleSample, ExtractionMode } from "./extraction";
+import type { PlanUncertainty, UncertaintySettings } from "./uncertainty";
+import { TimeWindowControl, type TimeWindow } from "./TimeWindowControl";
+import type { GradeDistribution } from "./distribution";
+import { ShapeEditBar, type ShapeEditSummary } from "./ShapeEditBar";
+import type { ScreenPoint } from "./geometry";
+import type { SelectionMode } from "./useSelectionController";
+import type { PlanViewBounds, ViewMode } from "./planView";
+import type { PlanDrawingState } from "./usePlanDrawing";
+import { PlanGrid } from "./PlanGrid";
 
 export interface SelectionRect {
   left: number;
@@ -16,69 +36,193 @@ export interface RegionMeta {
   key: string;
   regionId: string;
   pointCount: number;
-  minW: number;
-  maxW: number;
-  avgW: number;
+  /** Sum of the reports' payloads, in tonnes. */
+  tonnage: number;
+  /** Stats for `w` and every named attribute of the dataset. */
+  attributes: Record<string, AttributeStats>;
   min: Point;
   max: Point;
 }
 
+export function getRegionAttributeStats(region: RegionMeta, attribute: string): AttributeStats {
+  return region.attributes[attribute] ?? { min: 0, max: 0, average: 0, tonnage: 0 };
+}
+
 interface OverlayProps {
   selectionRect: SelectionRect | null;
+  selectionPath: ScreenPoint[] | null;
+  selectionMode: SelectionMode;
+  onChangeSelectionMode: (mode: SelectionMode) => void;
+  viewMode: ViewMode;
+  onChangeViewMode: (mode: ViewMode) => void;
+  planViewBounds: PlanViewBounds | null;
+  footprintDrawing: boolean;
+  splitLineDrawing: boolean;
+  /** The footprint or split line being drawn in the plan view. */
+  planDraft: PlanDrawingState;
+  onToggleFootprintDrawing: () => void;
+  snapFootprint: boolean;
+  onChangeSnapFootprint: (value: boolean) => void;
   editingRegion: RegionMeta | null;
   onSaveRegionEdit: (key: string, regionId: string) => void;
   onCancelRegionEdit: () => void;
   onRequestRegionEdit: (key: string) => void;
+  onCreateRegionFromCoordinates: (regionId: string | null, coordinates: RegionCoordinates) => void;
+  onExportRegionsGeoJson: () => GeoJsonFeatureCollection;
+  onImportRegionsGeoJson: (file: File) => Promise<void>;
+  onExportRegionsDxf: () => DxfDrawing;
+  onCombineRegions: (operation: FootprintOperation) => void;
+  onToggleSplitLine: () => void;
+  shapeEdit: ShapeEditSummary | null;
+  onRequestShapeEdit: (key: string) => void;
+  onSetShapeElevation: (edge: "top" | "bottom", z: number) => void;
+  onSaveShapeEdit: () => void;
+  onCancelShapeEdit: () => void;
   status: string;
+  timeWindow: TimeWindow;
+  onChangeTimeWindow: (timeWindow: TimeWindow) => void;
+  datasets: DatasetSummary[];
+  datasetId: string | null;
+  onSelectDataset: (datasetId: string) => void;
+  onDatasetsChanged: () => void;
+  attributes: string[];
+  attribute: string;
+  onSelectAttribute: (attribute: string) => void;
   regions: RegionMeta[];
   selectedRegionKeys: string[];
   onSelectRegion: (key: string) => void;
   onDeleteRegion: (key: string) => void;
   onClearSelections: () => void;
+  onDescribeRegionGrades: (regionKeys: string[]) => GradeDistribution | null;
   plan: PlanItem[];
+  scenarios: PlanScenario[];
+  activeScenarioId: string | null;
+  onSelectScenario: (scenarioId: string) => void;
+  onCreateScenario: () => void;
+  onDuplicateScenario: (scenarioId: string) => void;
+  onRenameScenario: (scenarioId: string, name: string) => void;
+  onDeleteScenario: (scenarioId: string) => void;
+  onSummariseScenarios: () => ScenarioSummary[];
   outcomeByItemId: Record<string, PlanOutcomeItem>;
   grandTotal: PlanGrandTotal;
+  periodOutcomes: PlanPeriodOutcome[];
+  timelinePeriod: number | null;
+  onChangeTimelinePeriod: (period: number | null) => void;
   onAddRegionToPlan: (region: RegionMeta) => void;
   onUpdatePlanAngle: (planItemId: string, angle: number) => void;
+  onUpdatePlanPeriod: (planItemId: string, period: number) => void;
+  onUpdatePlanDip: (planItemId: string, dip: number) => void;
+  onUpdatePlanMode: (planItemId: string, mode: ExtractionMode) => void;
+  onUpdatePlanIncrement: (planItemId: string, increment: number) => void;
+  onSweepPlanAngle: (planItemId: string, stepDegrees: number) => AngleSample[];
   onUpdatePlanQuantity: (planItemId: string, quantity: number) => void;
   onDeletePlanItem: (planItemId: string) => void;
+  onDescribeRecipeCandidates: (regionKeys: string[]) => RecipeCandidate[];
+  onApplyRecipe: (quantities: RecipeQuantity[]) => void;
+  onOptimiseBlend: (settings: BlendSettings, control: WorkControl) => Promise<BlendResult | null>;
+  onApplyBlend: (quantities: Record<string, number>) => void;
+  onAnalysePlanUncertainty: (settings: UncertaintySettings, control: WorkControl) => Promise<PlanUncertainty | null>;
 }
 
-function getSummary(regions: RegionMeta[], selectedRegionKeys: string[]) {
+function getSummary(regions: RegionMeta[], selectedRegionKeys: string[], attribute: string) {
   const selectedRegions = regions.filter((region) => selectedRegionKeys.includes(region.key));
   const totalPoints = selectedRegions.reduce((sum, region) => sum + region.pointCount, 0);
-  const averageW =
-    totalPoints > 0
-      ? selectedRegions.reduce((sum, region) => sum + region.avgW * region.pointCount, 0) / totalPoints
+  const totalTonnage = selectedRegions.reduce((sum, region) => sum + region.tonnage, 0);
+  // Weighted by the tonnes that carry the attribute, so unassayed reports do not dilute it
+  const assayedTonnage = selectedRegions.reduce(
+    (sum, region) => sum + getRegionAttributeStats(region, attribute).tonnage,
+    0,
+  );
+  const average =
+    assayedTonnage > 0
+      ? selectedRegions.reduce((sum, region) => {
+        const stats = getRegionAttributeStats(region, attribute);
+        return sum + stats.average * stats.tonnage;
+      }, 0) / assayedTonnage
       : 0;
 
-  return { totalPoints, averageW };
+  return { totalPoints, totalTonnage, average, assayedTonnage };
 }
 
 export function Overlay(props: OverlayProps) {
   const {
     selectionRect,
+    selectionPath,
+    selectionMode,
+    onChangeSelectionMode,
+    viewMode,
+    onChangeViewMode,
+    planViewBounds,
+    footprintDrawing,
+    splitLineDrawing,
+    planDraft,
+    onToggleFootprintDrawing,
+    snapFootprint,
+    onChangeSnapFootprint,
     editingRegion,
     onSaveRegionEdit,
     onCancelRegionEdit,
     onRequestRegionEdit,
+    onCreateRegionFromCoordinates,
+    onExportRegionsGeoJson,
+    onImportRegionsGeoJson,
+    onExportRegionsDxf,
+    onCombineRegions,
+    onToggleSplitLine,
+    shapeEdit,
+    onRequestShapeEdit,
+    onSetShapeElevation,
+    onSaveShapeEdit,
+    onCancelShapeEdit,
     status,
+    timeWindow,
+    onChangeTimeWindow,
+    datasets,
+    datasetId,
+    onSelectDataset,
+    onDatasetsChanged,
+    attributes,
+    attribute,
+    onSelectAttribute,
     regions,
     selectedRegionKeys,
     onSelectRegion,
     onDeleteRegion,
     onClearSelections,
+    onDescribeRegionGrades,
     plan,
+    scenarios,
+    activeScenarioId,
+    onSelectScenario,
+    onCreateScenario,
+    onDuplicateScenario,
+    onRenameScenario,
+    onDeleteScenario,
+    onSummariseScenarios,
     outcomeByItemId,
     grandTotal,
+    periodOutcomes,
+    timelinePeriod,
+    onChangeTimelinePeriod,
     onAddRegionToPlan,
     onUpdatePlanAngle,
+    onUpdatePlanPeriod,
+    onUpdatePlanDip,
+    onUpdatePlanMode,
+    onUpdatePlanIncrement,
+    onSweepPlanAngle,
     onUpdatePlanQuantity,
     onDeletePlanItem,
+    onDescribeRecipeCandidates,
+    onApplyRecipe,
+    onOptimiseBlend,
+    onApplyBlend,
+    onAnalysePlanUncertainty,
   } = props;
   const regionItemRefs = useRef<Map<string, HTMLDivElement>>(new Map());
   const previousSelectedRegionKeysRef = useRef<string[]>([]);
-  const [activeTab, setActiveTab] = useState<"regions" | "plan">("regions");
+  const [activeTab, setActiveTab] = useState<"regions" | "plan" | "data">("regions");
+  const [coordinatesFormOpen, setCoordinatesFormOpen] = useState(false);
 
   useEffect(() => {
     const previousSelectedRegionKeys = previousSelectedRegionKeysRef.current;
@@ -96,10 +240,17 @@ export function Overlay(props: OverlayProps) {
 
   const selectedRegions = regions.filter((region) => selectedRegionKeys.includes(region.key));
 
-  const summary = getSummary(regions, selectedRegionKeys);
+  const summary = getSummary(regions, selectedRegionKeys, attribute);
 
   return (
     <>
+      {planViewBounds ? (
+        <PlanGrid
+          bounds={planViewBounds}
+          drawingVertices={planDraft.vertices}
+          drawingCursor={footprintDrawing || splitLineDrawing ? planDraft.cursor : null}
+        />
+      ) : null}
       {selectionRect ? (
         <div
           className="selection-rect"
@@ -111,8 +262,48 @@ export function Overlay(props: OverlayProps) {
           }}
         />
       ) : null}
+      {selectionPath ? (
+        <svg className="selection-path">
+          <polygon points={selectionPath.map((point) => `${point.x},${point.y}`).join(" ")} />
+        </svg>
+      ) : null}
       <aside className="overlay-panel">
-        <div className="overlay-title">Overlay</div>
+        <div className="overlay-header">
+          <div className="overlay-title">Overlay</div>
+          <select
+            aria-label="Dataset"
+            value={datasetId ?? ""}
+            disabled={datasets.length === 0}
+            onChange={(event) => onSelectDataset(event.target.value)}
+          >
+            {datasets.map((dataset) => (
+              <option key={dataset.id} value={dataset.id}>
+                {dataset.name}{dataset.isDefault ? " (default)" : ""}
+              </option>
+            ))}
+          </select>
+          <select
+            aria-label="Attribute"
+            value={attribute}
+            disabled={attributes.length < 2}
+            onChange={(event) => onSelectAttribute(event.target.value)}
+          >
+            {attributes.map((name) => (
+              <option key={name} value={name}>
+                {getAttributeLabel(name)}
+              </option>
+            ))}
+          </select>
+        </div>
+        <TimeWindowControl timeWindow={timeWindow} onChangeTimeWindow={onChangeTimeWindow} />
+        {shapeEdit ? (
+          <ShapeEditBar
+            shapeEdit={shapeEdit}
+            onSetShapeElevation={onSetShapeElevation}
+            onSaveShapeEdit={onSaveShapeEdit}
+            onCancelShapeEdit={onCancelShapeEdit}
+          />
+        ) : null}
         <div className="overlay-tabs" role="tablist" aria-label="Overlay sections">
           <button
             id="overlay-tab-regions"
@@ -134,6 +325,16 @@ export function Overlay(props: OverlayProps) {
           >
             Plan
           </button>
+          <button
+            id="overlay-tab-data"
+            type="button"
+            role="tab"
+            aria-selected={activeTab === "data"}
+            className={`overlay-tab-btn${activeTab === "data" ? " is-active" : ""}`}
+            onClick={() => setActiveTab("data")}
+          >
+            Data
+          </button>
         </div>
 
         {activeTab === "regions" ? (
@@ -141,32 +342,92 @@ export function Overlay(props: OverlayProps) {
             status={status}
             regions={regions}
             selectedRegionKeys={selectedRegionKeys}
+            attribute={attribute}
+            selectionMode={selectionMode}
+            onChangeSelectionMode={onChangeSelectionMode}
+            viewMode={viewMode}
+            onChangeViewMode={onChangeViewMode}
+            footprintDrawing={footprintDrawing}
+            onToggleFootprintDrawing={onToggleFootprintDrawing}
+            snapFootprint={snapFootprint}
+            onChangeSnapFootprint={onChangeSnapFootprint}
             summary={summary}
             regionItemRefs={regionItemRefs}
             onSelectRegion={onSelectRegion}
             onRequestRegionEdit={onRequestRegionEdit}
+            onRequestShapeEdit={onRequestShapeEdit}
+            onRequestCoordinatesRegion={() => setCoordinatesFormOpen(true)}
             onDeleteRegion={onDeleteRegion}
             onClearSelections={onClearSelections}
+            onDescribeRegionGrades={onDescribeRegionGrades}
+            onExportRegionsGeoJson={onExportRegionsGeoJson}
+            onImportRegionsGeoJson={onImportRegionsGeoJson}
+            onExportRegionsDxf={onExportRegionsDxf}
+            splitLineDrawing={splitLineDrawing}
+            onCombineRegions={onCombineRegions}
+            onToggleSplitLine={onToggleSplitLine}
           />
-        ) : (
+        ) : null}
+        {activeTab === "plan" ? (
           <PlanTab
             regions={regions}
             plan={plan}
+            scenarios={scenarios}
+            activeScenarioId={activeScenarioId}
+            onSelectScenario={onSelectScenario}
+            onCreateScenario={onCreateScenario}
+            onDuplicateScenario={onDuplicateScenario}
+            onRenameScenario={onRenameScenario}
+            onDeleteScenario={onDeleteScenario}
+            onSummariseScenarios={onSummariseScenarios}
+            attributes={attributes}
+            attribute={attribute}
             outcomeByItemId={outcomeByItemId}
             grandTotal={grandTotal}
+            periodOutcomes={periodOutcomes}
+            timelinePeriod={timelinePeriod}
+            onChangeTimelinePeriod={onChangeTimelinePeriod}
             onAddRegionToPlan={onAddRegionToPlan}
             onUpdatePlanAngle={onUpdatePlanAngle}
+            onUpdatePlanPeriod={onUpdatePlanPeriod}
+            onUpdatePlanDip={onUpdatePlanDip}
+            onUpdatePlanMode={onUpdatePlanMode}
+            onUpdatePlanIncrement={onUpdatePlanIncrement}
+            onSweepPlanAngle={onSweepPlanAngle}
             onUpdatePlanQuantity={onUpdatePlanQuantity}
             onDeletePlanItem={onDeletePlanItem}
+            onDescribeRecipeCandidates={onDescribeRecipeCandidates}
+            onApplyRecipe={onApplyRecipe}
+            onOptimiseBlend={onOptimiseBlend}
+            onApplyBlend={onApplyBlend}
+            onAnalysePlanUncertainty={onAnalysePlanUncertainty}
           />
-        )}
+        ) : null}
+        {activeTab === "data" ? (
+          <DataTab
+            activeDatasetId={datasetId}
+            onSelectDataset={onSelectDataset}
+            onDatasetsChanged={onDatasetsChanged}
+          />
+        ) : null}
       </aside>
 
       {editingRegion ? (
         <RegionFormModal
           region={editingRegion}
+          attribute={attribute}
           onSaveEdit={(regionId) => onSaveRegionEdit(editingRegion.key, regionId)}
           onCancelEdit={onCancelRegionEdit}
+          onDescribeGrades={onDescribeRegionGrades}
+        />
+      ) : null}
+      {coordinatesFormOpen ? (
+        <RegionCoordinatesModal
+          onCreate={(regionId, coordinates) => {
+            onCreateRegionFromCoordinates(regionId, coordinates);
+            setCoordinatesFormOpen(false);
+          }}
+          onCancel={() => setCoordinatesFormOpen(false)}
         />
       ) : null}
     </>
@@ -0,0 +1,245 @@
+import * as THREE from "three";
+import { OrbitControls } from "three/examples/jsm/controls/OrbitControls.js";
+import type { ScreenPoint } from "./geometry";
+import type { PointOffset } from "./pointCodec";
+import type { Point } from "./points";
+
+/** The orbiting 3D view or the top-down orthographic plan view. */
+export type ViewMode = "perspective" | "plan";
+
+/** What the plan camera sees, in render coordinates, and the canvas it is drawn on. */
+export interface PlanViewBounds {
+  minX: number;
+  maxX: number;
+  minY: number;
+  maxY: number;
+  width: number;
+  height: number;
+  /** Added to render coordinates to get mine-grid coordinates. */
+  offset: PointOffset;
+}
+
+export interface GridLine {
+  /** Mine-grid coordinate of the line. */
+  value: number;
+  /** Canvas pixel position: x for eastings, y for northings. */
+  position: number;
+}
+
+/** Roughly how many grid lines to draw across the shorter side of the view. */
+const GRID_TARGET_LINES = 8;
+/** Half the height of the plan view before the data is fitted. */
+const DEFAULT_PLAN_HALF_HEIGHT = 20;
+
+export function createPlanCamera(width: number, height: number): THREE.OrthographicCamera {
+  const aspect = width / Math.max(height, 1);
+  const camera = new THREE.OrthographicCamera(
+    -DEFAULT_PLAN_HALF_HEIGHT * aspect,
+    DEFAULT_PLAN_HALF_HEIGHT * aspect,
+    DEFAULT_PLAN_HALF_HEIGHT,
+    -DEFAULT_PLAN_HALF_HEIGHT,
+    0.1,
+    1000,
+  );
+  // North stays up on screen while looking straight down
+  camera.up.set(0, 1, 0);
+  camera.position.set(0, 0, 100);
+  return camera;
+}
+
+/** Pans and zooms only; rotating would break the north-up grid. */
+export function createPlanControls(camera: THREE.OrthographicCamera, element: HTMLElement): OrbitControls {
+  const controls = new OrbitControls(camera, element);
+  controls.enableRotate = false;
+  controls.screenSpacePanning = true;
+  controls.zoomToCursor = true;
+  controls.mouseButtons = { LEFT: THREE.MOUSE.PAN, MIDDLE: THREE.MOUSE.DOLLY, RIGHT: THREE.MOUSE.PAN };
+  controls.touches = { ONE: THREE.TOUCH.PAN, TWO: THREE.TOUCH.DOLLY_PAN };
+  controls.enabled = false;
+  controls.update();
+  return controls;
+}
+
+/** Keeps the visible height when the canvas changes shape. */
+export function resizePlanCamera(camera: THREE.OrthographicCamera, width: number, height: number): void {
+  const halfHeight = (camera.top - camera.bottom) / 2;
+  const aspect = width / Math.max(height, 1);
+  camera.left = -halfHeight * aspect;
+  camera.right = halfHeight * aspect;
+  camera.updateProjectionMatrix();
+}
+
+/** Frames the points from above, with the camera clear of the highest point. */
+export function fitPlanCamera(
+  camera: THREE.OrthographicCamera,
+  controls: OrbitControls,
+  points: Point[],
+  width: number,
+  height: number,
+): void {
+  if (points.length === 0) {
+    return;
+  }
+
+  let minX = Infinity;
+  let minY = Infinity;
+  let minZ = Infinity;
+  let maxX = -Infinity;
+  let maxY = -Infinity;
+  let maxZ = -Infinity;
+  for (const point of points) {
+    if (point.x < minX) minX = point.x;
+    if (point.y < minY) minY = point.y;
+    if (point.z < minZ) minZ = point.z;
+    if (point.x > maxX) maxX = point.x;
+    if (point.y > maxY) maxY = point.y;
+    if (point.z > maxZ) maxZ = point.z;
+  }
+
+  const aspect = width / Math.max(height, 1);
+  const halfHeight = Math.max((maxY - minY) / 2, (maxX - minX) / 2 / aspect, 1) * 1.1;
+  const depth = Math.max(maxZ - minZ, 1);
+  const centerX = (minX + maxX) / 2;
+  const centerY = (minY + maxY) / 2;
+
+  camera.top = halfHeight;
+  camera.bottom = -halfHeight;
+  camera.left = -halfHeight * aspect;
+  camera.right = halfHeight * aspect;
+  camera.zoom = 1;
+  camera.position.set(centerX, centerY, maxZ + depth);
+  camera.near = 0.1;
+  camera.far = depth * 4;
+  camera.updateProjectionMatrix();
+
+  controls.target.set(centerX, centerY, minZ);
+  controls.minZoom = 0.05;
+  controls.maxZoom = 200;
+  controls.update();
+}
+
+/** Moves the plan view over a point without changing its zoom. */
+export function centerPlanCamera(camera: THREE.OrthographicCamera, controls: OrbitControls, x: number, y: number): void {
+  camera.position.x = x;
+  camera.position.y = y;
+  controls.target.x = x;
+  controls.target.y = y;
+  controls.update();
+}
+
+export function getPlanViewBounds(
+  camera: THREE.OrthographicCamera,
+  width: number,
+  height: number,
+  offset: PointOffset,
+): PlanViewBounds {
+  const halfWidth = (camera.right - camera.left) / 2 / camera.zoom;
+  const halfHeight = (camera.top - camera.bottom) / 2 / camera.zoom;
+  return {
+    minX: camera.position.x - halfWidth,
+    maxX: camera.position.x + halfWidth,
+    minY: camera.position.y - halfHeight,
+    maxY: camera.position.y + halfHeight,
+    width,
+    height,
+    offset,
+  };
+}
+
+/** Render units per canvas pixel. */
+export function getPlanPixelSize(bounds: PlanViewBounds): number {
+  return (bounds.maxX - bounds.minX) / Math.max(bounds.width, 1);
+}
+
+export function toPlanScreen(bounds: PlanViewBounds, point: { x: number; y: number }): ScreenPoint {
+  return {
+    x: ((point.x - bounds.minX) / (bounds.maxX - bounds.minX)) * bounds.width,
+    y: ((bounds.maxY - point.y) / (bounds.maxY - bounds.minY)) * bounds.height,
+  };
+}
+
+export function fromPlanScreen(bounds: PlanViewBounds, point: ScreenPoint): { x: number; y: number } {
+  return {
+    x: bounds.minX + (point.x / Math.max(bounds.width, 1)) * (bounds.maxX - bounds.minX),
+    y: bounds.maxY - (point.y / Math.max(bounds.height, 1)) * (bounds.maxY - bounds.minY),
+  };
+}
+
+/** A 1, 2 or 5 times power-of-ten spacing that gives about `GRID_TARGET_LINES` lines. */
+export function getGridStep(bounds: PlanViewBounds): number {
+  const span = Math.min(bounds.maxX - bounds.minX, bounds.maxY - bounds.minY);
+  if (!(span > 0)) {
+    return 1;
+  }
+
+  const rawStep = span / GRID_TARGET_LINES;
+  const magnitude = 10 ** Math.floor(Math.log10(rawStep));
+  const normalized = rawStep / magnitude;
+  const nice = normalized < 1.5 ? 1 : normalized < 3.5 ? 2 : normalized < 7.5 ? 5 : 10;
+  return nice * magnitude;
+}
+
+/** Spacing of the faint lines between major lines, which drawn vertices snap to. */
+export function getMinorGridStep(step: number): number {
+  const leading = Math.round(step / 10 ** Math.floor(Math.log10(step)));
+  return step / (leading === 2 ? 4 : 5);
+}
+
+function getGridValues(min: number, max: number, step: number): number[] {
+  const values: number[] = [];
+  const last = Math.floor(max / step);
+  for (let index = Math.ceil(min / step); index <= last; index += 1) {
+    values.push(index * step);
+  }
+  return values;
+}
+
+/** Eastings and northings lines at mine-grid multiples of `step`. */
+export function getGridLines(bounds: PlanViewBounds, step: number): { eastings: GridLine[]; northings: GridLine[] } {
+  const { offset } = bounds;
+  return {
+    eastings: getGridValues(bounds.minX + offset.x, bounds.maxX + offset.x, step).map((value) => ({
+      value,
+      position: toPlanScreen(bounds, { x: value - offset.x, y: bounds.maxY }).x,
+    })),
+    northings: getGridValues(bounds.minY + offset.y, bounds.maxY + offset.y, step).map((value) => ({
+      value,
+      position: toPlanScreen(bounds, { x: bounds.minX, y: value - offset.y }).y,
+    })),
+  };
+}
+
+export function formatGridValue(value: number, step: number): string {
+  const decimals = step >= 1 ? 0 : Math.min(Math.ceil(-Math.log10(step)), 6);
+  return value.toFixed(decimals);
+}
+
+/**
+ * Snaps a drawn vertex to the nearest existing footprint vertex within `tolerance`, or
+ * else to the nearest mine-grid intersection at `gridStep`.
+ */
+export function snapPlanPoint(
+  point: { x: number; y: number },
+  offset: PointOffset,
+  gridStep: number,
+  vertices: Array<{ x: number; y: number }>,
+  tolerance: number,
+): { x: number; y: number } {
+  let nearest: { x: number; y: number } | null = null;
+  let nearestDistance = tolerance;
+  for (const vertex of vertices) {
+    const distance = Math.hypot(vertex.x - point.x, vertex.y - point.y);
+    if (distance <= nearestDistance) {
+      nearest = vertex;
+      nearestDistance = distance;
+    }
+  }
+  if (nearest) {
+    return { x: nearest.x, y: nearest.y };
+  }
+
+  return {
+    x: Math.round((point.x + offset.x) / gridStep) * gridStep - offset.x,
+    y: Math.round((point.y + offset.y) / gridStep) * gridStep - offset.y,
+  };
+}
@@ -0,0 +1,84 @@
+import { describe, expect, test } from "bun:test";
+import type { Point } from "./points";
+import { decodePoints, encodePoints, getPointOffset, toPoints } from "./pointCodec";
+
+const OFFSET = { x: 500000, y: 7000000, z: 400 };
+
+function roundTrip(points: Point[]): Point[] {
+  const columns = decodePoints(encodePoints(points, OFFSET));
+  return toPoints(columns).map((point) => ({
+    ...point,
+    x: point.x + OFFSET.x,
+    y: point.y + OFFSET.y,
+    z: point.z + OFFSET.z,
+  }));
+}
+
+describe("encodePoints and decodePoints", () => {
+  test("positions and grades come back relative to the offset", () => {
+    const points: Point[] = [
+      { x: 500010, y: 7000020, z: 401, w: 1.5 },
+      { x: 499990, y: 6999980, z: 399, w: 0.25 },
+    ];
+    const columns = decodePoints(encodePoints(points, OFFSET));
+    expect(columns.count).toBe(2);
+    expect(columns.offset).toEqual(OFFSET);
+    expect(Array.from(columns.positions)).toEqual([10, 20, 1, -10, -20, -1]);
+    expect(Array.from(columns.w)).toEqual([1.5, 0.25]);
+    expect(roundTrip(points)).toEqual(points);
+  });
+
+  test("every column starts on an 8 byte boundary", () => {
+    const points: Point[] = [
+      { x: 1, y: 2, z: 3, w: 4, t: 1700000000000, mass: 90, attributes: { Fe: 60 } },
+      { x: 5, y: 6, z: 7, w: 8, t: 1700000060000, mass: 110, attributes: { Fe: 61 } },
+      { x: 9, y: 10, z: 11, w: 12, t: 1700000120000, mass: 100, attributes: { Fe: 62 } },
+    ];
+    const columns = decodePoints(encodePoints(points, getPointOffset(points)));
+    for (const values of [columns.positions, columns.w, columns.t, columns.mass, columns.attributes.Fe]) {
+      expect(values).toBeDefined();
+      expect((values?.byteOffset ?? 1) % 8).toBe(0);
+    }
+  });
+
+  test("leaves out the time and mass columns when no point has them", () => {
+    const columns = decodePoints(encodePoints([{ x: 1, y: 2, z: 3, w: 0 }], OFFSET));
+    expect(columns.t).toBeUndefined();
+    expect(columns.mass).toBeUndefined();
+    expect(columns.attributes).toEqual({});
+  });
+
+  test("keeps time and mass when only some points have them", () => {
+    const points: Point[] = [
+      { x: 500001, y: 7000001, z: 401, w: 0, t: 1700000000000 },
+      { x: 500002, y: 7000002, z: 402, w: 0, mass: 120 },
+    ];
+    const columns = decodePoints(encodePoints(points, OFFSET));
+    expect(columns.t?.[0]).toBe(1700000000000);
+    expect(columns.t?.[1]).toBeNaN();
+    expect(columns.mass?.[0]).toBeNaN();
+    expect(columns.mass?.[1]).toBe(120);
+    expect(roundTrip(points)).toEqual(points);
+  });
+
+  test("stores a missing attribute as NaN and drops it again on expansion", () => {
+    const points: Point[] = [
+      { x: 500001, y: 7000001, z: 401, w: 0, attributes: { Fe: 60.5, SiO2: 4.25 } },
+      { x: 500002, y: 7000002, z: 402, w: 0, attributes: { Fe: 61 } },
+    ];
+    const columns = decodePoints(encodePoints(points, OFFSET));
+    expect(Object.keys(columns.attributes)).toEqual(["Fe", "SiO2"]);
+    expect(columns.attributes.SiO2?.[1]).toBeNaN();
+    expect(roundTrip(points)).toEqual(points);
+  });
+
+  test("an empty set of points round-trips", () => {
+    const columns = decodePoints(encodePoints([], { x: 0, y: 0, z: 0 }));
+    expect(columns.count).toBe(0);
+    expect(toPoints(columns)).toEqual([]);
+  });
+
+  test("rejects a buffer that is not a point payload", () => {
+    expect(() => decodePoints(new ArrayBuffer(16))).toThrow("Not a point payload");
+  });
+});
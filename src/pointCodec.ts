@@ -0,0 +1,241 @@
+import { getAttributeNames, DEFAULT_ATTRIBUTE, type Point } from "./points";
+
+/**
+ * Binary layout of the `/points.bin` payload:
+ *
+ *   "ROMP" | uint32 header length | JSON header | columns...
+ *
+ * All numbers are little endian and every column starts on an 8 byte boundary, so the
+ * client can view each one as a typed array without copying. Positions are stored
+ * relative to `offset` so they survive the trip through Float32. Named attributes follow
+ * as `attribute:<name>` float32 columns, NaN where a point has no value.
+ */
+export interface PointCodecHeader {
+  version: 1;
+  count: number;
+  offset: PointOffset;
+  columns: PointColumnInfo[];
+}
+
+export interface PointOffset {
+  x: number;
+  y: number;
+  z: number;
+}
+
+export interface PointColumnInfo {
+  name: string;
+  type: "float32" | "float64";
+  size: number;
+}
+
+export interface PointColumns {
+  count: number;
+  offset: PointOffset;
+  /** Interleaved x, y, z relative to `offset`; ready for a `BufferAttribute` of item size 3. */
+  positions: Float32Array;
+  w: Float32Array;
+  /** Event times in ms since the epoch, NaN where unknown. Absent when no point has a time. */
+  t?: Float64Array;
+  /** Payload tonnes, NaN where unknown. Absent when no point has a mass. */
+  mass?: Float32Array;
+  /** Named attribute values by attribute name, NaN where unknown. */
+  attributes: Record<string, Float32Array>;
+}
+
+export const POINT_CODEC_CONTENT_TYPE = "application/vnd.rom-vis.points";
+/** Response header carrying the stream cursor the points were read at; see `/points/stream`. */
+export const POINT_CURSOR_HEADER = "X-Point-Cursor";
+
+const MAGIC = "ROMP";
+const ALIGNMENT = 8;
+const ATTRIBUTE_COLUMN_PREFIX = "attribute:";
+
+function align(byteOffset: number): number {
+  return Math.ceil(byteOffset / ALIGNMENT) * ALIGNMENT;
+}
+
+function getByteSize(column: PointColumnInfo): number {
+  return column.type === "float64" ? 8 : 4;
+}
+
+export function getPointOffset(points: Point[]): PointOffset {
+  if (points.length === 0) {
+    return { x: 0, y: 0, z: 0 };
+  }
+
+  let sumX = 0;
+  let sumY = 0;
+  let sumZ = 0;
+
+  for (const point of points) {
+    sumX += point.x;
+    sumY += point.y;
+    sumZ += point.z;
+  }
+
+  const invCount = 1 / points.length;
+  return {
+    x: sumX * invCount,
+    y: sumY * invCount,
+    z: sumZ * invCount,
+  };
+}
+
+export function encodePoints(points: Point[], offset: PointOffset): ArrayBuffer {
+  const count = points.length;
+  const hasTime = points.some((point) => point.t !== undefined);
+  const columns: PointColumnInfo[] = [
+    { name: "position", type: "float32", size: 3 },
+    { name: "w", type: "float32", size: 1 },
+  ];
+  if (hasTime) {
+    columns.push({ name: "t", type: "float64", size: 1 });
+  }
+  const hasMass = points.some((point) => point.mass !== undefined);
+  if (hasMass) {
+    columns.push({ name: "mass", type: "float32", size: 1 });
+  }
+  const attributeNames = getAttributeNames(points).filter((name) => name !== DEFAULT_ATTRIBUTE);
+  for (const name of attributeNames) {
+    columns.push({ name: ATTRIBUTE_COLUMN_PREFIX + name, type: "float32", size: 1 });
+  }
+
+  const header: PointCodecHeader = { version: 1, count, offset, columns };
+  const headerBytes = new TextEncoder().encode(JSON.stringify(header));
+
+  let byteLength = align(8 + headerBytes.length);
+  const columnOffsets: number[] = [];
+  for (const column of columns) {
+    columnOffsets.push(byteLength);
+    byteLength = align(byteLength + count * column.size * getByteSize(column));
+  }
+
+  const buffer = new ArrayBuffer(byteLength);
+  const bytes = new Uint8Array(buffer);
+  const view = new DataView(buffer);
+  bytes.set(new TextEncoder().encode(MAGIC), 0);
+  view.setUint32(4, headerBytes.length, true);
+  bytes.set(headerBytes, 8);
+
+  const positions = new Float32Array(buffer, columnOffsets[0], count * 3);
+  const w = new Float32Array(buffer, columnOffsets[1], count);
+  const t = hasTime ? new Float64Array(buffer, columnOffsets[2], count) : null;
+  const mass = hasMass ? new Float32Array(buffer, columnOffsets[hasTime ? 3 : 2], count) : null;
+  const firstAttributeColumn = 2 + (hasTime ? 1 : 0) + (hasMass ? 1 : 0);
+  const attributes = attributeNames.map((name, index) => ({
+    name,
+    values: new Float32Array(buffer, columnOffsets[firstAttributeColumn + index], count),
+  }));
+
+  for (let i = 0; i < count; i += 1) {
+    const point = points[i] as Point;
+    positions[i * 3 + 0] = point.x - offset.x;
+    positions[i * 3 + 1] = point.y - offset.y;
+    positions[i * 3 + 2] = point.z - offset.z;
+    w[i] = point.w;
+    if (t) {
+      t[i] = point.t ?? NaN;
+    }
+    if (mass) {
+      mass[i] = point.mass ?? NaN;
+    }
+    for (const attribute of attributes) {
+      attribute.values[i] = point.attributes?.[attribute.name] ?? NaN;
+    }
+  }
+
+  return buffer;
+}
+
+export function decodePoints(buffer: ArrayBuffer): PointColumns {
+  const view = new DataView(buffer);
+  const magic = new TextDecoder().decode(new Uint8Array(buffer, 0, 4));
+  if (magic !== MAGIC) {
+    throw new Error("Not a point payload");
+  }
+
+  const headerLength = view.getUint32(4, true);
+  const header = JSON.parse(
+    new TextDecoder().decode(new Uint8Array(buffer, 8, headerLength)),
+  ) as PointCodecHeader;
+  if (header.version !== 1) {
+    throw new Error(`Unsupported point payload version: ${header.version}`);
+  }
+
+  const { count } = header;
+  const data = new Map<string, Float32Array | Float64Array>();
+  let byteOffset = align(8 + headerLength);
+
+  for (const column of header.columns) {
+    const length = count * column.size;
+    data.set(
+      column.name,
+      column.type === "float64"
+        ? new Float64Array(buffer, byteOffset, length)
+        : new Float32Array(buffer, byteOffset, length),
+    );
+    byteOffset = align(byteOffset + length * getByteSize(column));
+  }
+
+  const positions = data.get("position");
+  const w = data.get("w");
+  const t = data.get("t");
+  const mass = data.get("mass");
+  if (!(positions instanceof Float32Array) || !(w instanceof Float32Array)) {
+    throw new Error("Point payload is missing position or w");
+  }
+
+  const attributes: Record<string, Float32Array> = {};
+  for (const [name, values] of data) {
+    if (name.startsWith(ATTRIBUTE_COLUMN_PREFIX) && values instanceof Float32Array) {
+      attributes[name.slice(ATTRIBUTE_COLUMN_PREFIX.length)] = values;
+    }
+  }
+
+  return {
+    count,
+    offset: header.offset,
+    positions,
+    w,
+    t: t instanceof Float64Array ? t : undefined,
+    mass: mass instanceof Float32Array ? mass : undefined,
+    attributes,
+  };
+}
+
+/** Expands decoded columns into offset-relative points for selection and stats. */
+export function toPoints(columns: PointColumns): Point[] {
+  const points = new Array<Point>(columns.count);
+  const attributeColumns = Object.entries(columns.attributes);
+
+  for (let i = 0; i < columns.count; i += 1) {
+    const point: Point = {
+      x: columns.positions[i * 3 + 0] as number,
+      y: columns.positions[i * 3 + 1] as number,
+      z: columns.positions[i * 3 + 2] as number,
+      w: columns.w[i] as number,
+    };
+    const t = columns.t?.[i];
+    if (t !== undefined && !Number.isNaN(t)) {
+      point.t = t;
+    }
+    const mass = columns.mass?.[i];
+    if (mass !== undefined && !Number.isNaN(mass)) {
+      point.mass = mass;
+    }
+    if (attributeColumns.length > 0) {
+      const attributes: Record<string, number> = {};
+      for (const [name, values] of attributeColumns) {
+        const value = values[i] as number;
+        if (!Number.isNaN(value)) {
+          attributes[name] = value;
+        }
+      }
+      point.attributes = attributes;
+    }
+    points[i] = point;
+  }
+
+  return points;
+}
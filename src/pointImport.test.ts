@@ -0,0 +1,82 @@
+import { describe, expect, test } from "bun:test";
+import { guessHasHeader, guessImportMapping, parseImportText, toImportedPoints } from "./pointImport";
+
+describe("parseImportText", () => {
+  test("reads quoted CSV cells with commas and escaped quotes", () => {
+    const table = parseImportText('x,y,z,"Pit, north"\n1,2,3,"say ""hi"""\n', "csv", true);
+    expect(table.columns).toEqual(["x", "y", "z", "Pit, north"]);
+    expect(table.rows).toEqual([["1", "2", "3", 'say "hi"']]);
+  });
+
+  test("splits XYZ on whitespace and skips blank and comment lines", () => {
+    const table = parseImportText("# survey\n1 2   3\n\n4\t5 6 7\r\n", "xyz", false);
+    expect(table.rows).toEqual([["1", "2", "3"], ["4", "5", "6", "7"]]);
+    expect(table.columns).toEqual(["Column 1", "Column 2", "Column 3", "Column 4"]);
+  });
+
+  test("names unnamed columns after their position", () => {
+    const table = parseImportText("x,y\n1,2,3\n", "csv", true);
+    expect(table.columns).toEqual(["x", "y", "Column 3"]);
+  });
+});
+
+describe("guessHasHeader", () => {
+  test("treats a row with words as a header", () => {
+    expect(guessHasHeader("easting,northing,rl\n1,2,3", "csv")).toBe(true);
+  });
+
+  test("treats a row of numbers as data", () => {
+    expect(guessHasHeader("1,2,3\n4,5,6", "csv")).toBe(false);
+    expect(guessHasHeader("1 2 3", "xyz")).toBe(false);
+  });
+});
+
+describe("guessImportMapping", () => {
+  test("finds columns by their usual names", () => {
+    expect(guessImportMapping(["Time", "Northing", "Easting", "RL", "Grade"])).toMatchObject({
+      x: 2,
+      y: 1,
+      z: 3,
+      w: 4,
+      time: 0,
+    });
+  });
+
+  test("falls back to the first columns in x, y, z order", () => {
+    expect(guessImportMapping(["a", "b", "c"])).toMatchObject({ x: 0, y: 1, z: 2, w: null, time: null });
+  });
+});
+
+describe("toImportedPoints", () => {
+  const columns = ["x", "y", "z", "w"];
+
+  test("keeps valid rows in file order", () => {
+    const table = parseImportText("x,y,z,w\n1,2,3,0.5\n4,5,6,1.5", "csv", true);
+    const result = toImportedPoints(table, guessImportMapping(columns));
+    expect(result.rejectedCount).toBe(0);
+    expect(result.points).toEqual([
+      expect.objectContaining({ x: 1, y: 2, z: 3, w: 0.5 }),
+      expect.objectContaining({ x: 4, y: 5, z: 6, w: 1.5 }),
+    ]);
+  });
+
+  test("rejects rows at the origin", () => {
+    const table = parseImportText("0,0,0,1\n1,0,0,1", "csv", false);
+    const result = toImportedPoints(table, guessImportMapping(columns));
+    expect(result.points).toHaveLength(1);
+    expect(result.rejectedCount).toBe(1);
+  });
+
+  test("rejects rows with missing or non-finite values", () => {
+    const table = parseImportText("1,2,abc,1\n1,2,Infinity,1\n1,2,3,NaN\n1,2\n1,2,3,1", "csv", false);
+    const result = toImportedPoints(table, guessImportMapping(columns));
+    expect(result.points).toHaveLength(1);
+    expect(result.rejectedCount).toBe(4);
+  });
+
+  test("gives every point a zero grade when w is not mapped", () => {
+    const table = parseImportText("1 2 3", "xyz", false);
+    const result = toImportedPoints(table, { ...guessImportMapping(["x", "y", "z"]), w: null });
+    expect(result.points).toEqual([expect.objectContaining({ x: 1, y: 2, z: 3, w: 0 })]);
+  });
+});
@@ -0,0 +1,235 @@
+import { DEFAULT_TIME_ZONE, toPoint, type Point } from "./points";
+
+/** Prefix for the point source ids of datasets uploaded through `/imports`. */
+export const IMPORTED_SOURCE_PREFIX = "import:";
+
+export type ImportFormat = "csv" | "xyz";
+
+/** Assays an imported dataset can carry, named as the configured sources name them. */
+export const IMPORT_ATTRIBUTES = ["Fe", "SiO2", "Al2O3", "P", "H2O"] as const;
+
+export type ImportAttribute = (typeof IMPORT_ATTRIBUTES)[number];
+
+const ATTRIBUTE_HEADER_PATTERNS: Record<ImportAttribute, RegExp> = {
+  Fe: /^(fe|iron)(_?pct|%)?$/i,
+  SiO2: /^(sio2|silica)(_?pct|%)?$/i,
+  Al2O3: /^(al2o3|alumina)(_?pct|%)?$/i,
+  P: /^(p|phos(phorus)?)(_?pct|%)?$/i,
+  H2O: /^(h2o|moisture)(_?pct|%)?$/i,
+};
+
+/** Column indices for each point field; everything but `x`, `y` and `z` may be left unmapped. */
+export interface ImportColumnMapping {
+  x: number;
+  y: number;
+  z: number;
+  w: number | null;
+  time: number | null;
+  /** Payload tonnes; unmapped rows get the configured default mass. */
+  mass: number | null;
+  /** Assay columns; unmapped assays are left unset on every point. */
+  attributes: Record<ImportAttribute, number | null>;
+}
+
+export interface ImportTable {
+  columns: string[];
+  rows: string[][];
+}
+
+export interface ImportRequest {
+  name: string;
+  format: ImportFormat;
+  hasHeader: boolean;
+  mapping: ImportColumnMapping;
+  text: string;
+}
+
+export interface ImportResult {
+  points: Point[];
+  rejectedCount: number;
+}
+
+export interface ImportedDataset {
+  id: string;
+  name: string;
+  createdAt: number;
+  pointCount: number;
+}
+
+export function guessImportFormat(fileName: string, text: string): ImportFormat {
+  if (/\.csv$/i.test(fileName)) {
+    return "csv";
+  }
+
+  const firstLine = text.split(/\r?\n/, 1)[0] ?? "";
+  return firstLine.includes(",") ? "csv" : "xyz";
+}
+
+function parseCsvLine(line: string): string[] {
+  const cells: string[] = [];
+  let cell = "";
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i += 1) {
+    const char = line[i] as string;
+
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        cell += '"';
+        i += 1;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      cells.push(cell.trim());
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+
+  cells.push(cell.trim());
+  return cells;
+}
+
+/** Splits CSV or whitespace-delimited XYZ text into cells; `#` lines are comments. */
+export function parseImportText(text: string, format: ImportFormat, hasHeader: boolean): ImportTable {
+  const lines = text
+    .split(/\r?\n/)
+    .filter((line) => line.trim().length > 0 && !line.trimStart().startsWith("#"));
+  const cells = lines.map((line) =>
+    format === "csv" ? parseCsvLine(line) : line.trim().split(/[\s,;]+/)
+  );
+
+  const width = cells.reduce((max, row) => Math.max(max, row.length), 0);
+  const header = hasHeader ? cells.shift() ?? [] : [];
+  const columns = Array.from({ length: width }, (_, index) => header[index] || `Column ${index + 1}`);
+
+  return { columns, rows: cells };
+}
+
+/** Treats the first row as a header when any of its cells is not a number. */
+export function guessHasHeader(text: string, format: ImportFormat): boolean {
+  const table = parseImportText(text, format, false);
+  const first = table.rows[0];
+  return !!first && first.some((cell) => cell !== "" && !Number.isFinite(Number(cell)));
+}
+
+export function guessImportMapping(columns: string[]): ImportColumnMapping {
+  const find = (pattern: RegExp): number | null => {
+    const index = columns.findIndex((column) => pattern.test(column.trim()));
+    return index >= 0 ? index : null;
+  };
+
+  return {
+    x: find(/^(x|east(ing)?|xyzx)$/i) ?? 0,
+    y: find(/^(y|north(ing)?|xyzy)$/i) ?? 1,
+    z: find(/^(z|elev(ation)?|rl|xyzz)$/i) ?? 2,
+    w: find(/^(w|grade|value)$/i) ?? (columns.length > 3 ? 3 : null),
+    time: find(/^(t|time|date|timestamp|datetime)$/i),
+    mass: find(/^(mass|tonnes|tonnage|payload)$/i),
+    attributes: mapAttributes((attribute) => find(ATTRIBUTE_HEADER_PATTERNS[attribute])),
+  };
+}
+
+function mapAttributes(getColumn: (attribute: ImportAttribute) => number | null): Record<ImportAttribute, number | null> {
+  return Object.fromEntries(
+    IMPORT_ATTRIBUTES.map((attribute) => [attribute, getColumn(attribute)]),
+  ) as Record<ImportAttribute, number | null>;
+}
+
+/** Applies the column mapping and the same row rules as the point sources. */
+export function toImportedPoints(
+  table: ImportTable,
+  mapping: ImportColumnMapping,
+  timeZone: string = DEFAULT_TIME_ZONE,
+): ImportResult {
+  const points: Point[] = [];
+  let rejectedCount = 0;
+
+  for (const row of table.rows) {
+    const point = toPoint({
+      x: row[mapping.x],
+      y: row[mapping.y],
+      z: row[mapping.z],
+      w: mapping.w === null ? 0 : row[mapping.w],
+      t: mapping.time === null ? undefined : row[mapping.time],
+      mass: mapping.mass === null ? undefined : row[mapping.mass],
+    }, getAttributeCells(row, mapping), timeZone);
+
+    if (point) {
+      points.push(point);
+    } else {
+      rejectedCount += 1;
+    }
+  }
+
+  return { points, rejectedCount };
+}
+
+function getAttributeCells(row: string[], mapping: ImportColumnMapping): Record<string, unknown> | undefined {
+  const mapped = IMPORT_ATTRIBUTES.filter((attribute) => mapping.attributes[attribute] !== null);
+  if (mapped.length === 0) {
+    return undefined;
+  }
+  return Object.fromEntries(mapped.map((attribute) => [attribute, row[mapping.attributes[attribute] as number]]));
+}
+
+function isColumnIndex(value: unknown): value is number {
+  return typeof value === "number" && Number.isInteger(value) && value >= 0;
+}
+
+export function parseImportRequest(value: unknown): ImportRequest | null {
+  if (!value || typeof value !== "object") {
+    return null;
+  }
+
+  const request = value as Partial<ImportRequest>;
+  const mapping = request.mapping as Partial<ImportColumnMapping> | undefined;
+  const attributes: Partial<Record<ImportAttribute, unknown>> = mapping?.attributes ?? {};
+
+  if (
+    typeof request.name !== "string" ||
+    request.name.trim().length === 0 ||
+    (request.format !== "csv" && request.format !== "xyz") ||
+    typeof request.hasHeader !== "boolean" ||
+    typeof request.text !== "string" ||
+    !mapping ||
+    !isColumnIndex(mapping.x) ||
+    !isColumnIndex(mapping.y) ||
+    !isColumnIndex(mapping.z) ||
+    (mapping.w !== null && mapping.w !== undefined && !isColumnIndex(mapping.w)) ||
+    (mapping.time !== null && mapping.time !== undefined && !isColumnIndex(mapping.time)) ||
+    (mapping.mass !== null && mapping.mass !== undefined && !isColumnIndex(mapping.mass)) ||
+    typeof attributes !== "object" ||
+    IMPORT_ATTRIBUTES.some((attribute) => {
+      const column = attributes[attribute];
+      return column !== null && column !== undefined && !isColumnIndex(column);
+    })
+  ) {
+    return null;
+  }
+
+  return {
+    name: request.name.trim(),
+    format: request.format,
+    hasHeader: request.hasHeader,
+    mapping: {
+      x: mapping.x,
+      y: mapping.y,
+      z: mapping.z,
+      w: mapping.w ?? null,
+      time: mapping.time ?? null,
+      mass: mapping.mass ?? null,
+      attributes: mapAttributes((attribute) => (attributes[attribute] as number | null | undefined) ?? null),
+    },
+    text: request.text,
+  };
+}
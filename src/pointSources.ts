@@ -0,0 +1,389 @@
+import { Database } from "bun:sqlite";
+import { DB_PATH, IMPORTS_DB_PATH, POINT_SOURCES_CONFIG_PATH } from "./db";
+import { IMPORTED_ATTRIBUTE_COLUMNS, IMPORTED_POINTS_TABLE, listImportedDatasets } from "./importedDatasets";
+import { IMPORTED_SOURCE_PREFIX, type ImportedDataset } from "./pointImport";
+import {
+  assertTimeZone,
+  DEFAULT_POINT_MASS,
+  DEFAULT_SHIFT_PATTERN,
+  DEFAULT_TIME_ZONE,
+  getZonedTime,
+  isInWindow,
+  toPoint,
+  type DatasetSummary,
+  type Point,
+  type PointQuery,
+  type ShiftPattern,
+} from "./points";
+
+type FilterValue = string | number;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** One entry of `config/point-sources.json`: where a site keeps its dipper reports. */
+export interface PointSourceConfig {
+  id: string;
+  name?: string;
+  /** SQLite file holding the table; defaults to DB_PATH. */
+  dbPath?: string;
+  /** Table or view to read from. */
+  table: string;
+  /** Tonnes per report when the mass column is missing or empty; overrides the file-wide default. */
+  defaultMass?: number;
+  columns: {
+    x: string;
+    y: string;
+    z: string;
+    /** Grade column; every point gets 0 when omitted. */
+    w?: string;
+    /** Event time column, needed for time-windowed queries. */
+    time?: string;
+    /** Payload mass in tonnes. */
+    mass?: string;
+    /**
+     * Increasing row id used to stream new rows to open scenes. Defaults to SQLite's rowid,
+     * which views do not have, so configure it for view-backed sources.
+     */
+    id?: string;
+    /** Named assay columns, e.g. `{ "Fe": "FE_PCT" }`. Columns missing from the table are skipped. */
+    attributes?: Record<string, string>;
+  };
+  /** Equality filters (or IN lists) applied to the table, e.g. `{ "ObjectTypeID": "DipperReport" }`. */
+  filters?: Record<string, FilterValue | FilterValue[]>;
+}
+
+export interface PointSourcesConfig {
+  active: string;
+  shiftPattern?: ShiftPattern;
+  /** Tonnes per report for sources without their own default. */
+  defaultMass?: number;
+  sources: PointSourceConfig[];
+}
+
+export interface PointSource {
+  id: string;
+  name: string;
+  getPoints(query: PointQuery): Promise<Point[]>;
+  /** `getPoints` along with the cursor the rows were read at, to stream later rows from. */
+  getPointsWithCursor(query: PointQuery): Promise<{ points: Point[]; cursor: number }>;
+  /** Id of the newest row, the starting cursor for `getPointsSince`. */
+  getCursor(): Promise<number>;
+  /** Rows added after `cursor`, in the window of `query`, with the cursor to continue from. */
+  getPointsSince(cursor: number, query: PointQuery): Promise<{ points: Point[]; cursor: number }>;
+}
+
+interface SourceRow {
+  x: unknown;
+  y: unknown;
+  z: unknown;
+  w: unknown;
+  t: unknown;
+  mass: unknown;
+  cursor: number;
+  [attributeAlias: string]: unknown;
+}
+
+if (!DB_PATH) {
+  throw new Error("Missing DB_PATH environment variable");
+}
+
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === "string" && value.length > 0;
+}
+
+function quoteIdentifier(name: string): string {
+  return `"${name.replaceAll('"', '""')}"`;
+}
+
+function hasColumn(db: Database, table: string, column: string): boolean {
+  const columns = db.query(`PRAGMA table_info(${quoteIdentifier(table)})`).all() as Array<{ name: string }>;
+  return columns.some((info) => info.name === column);
+}
+
+function validateSourceConfig(value: unknown, index: number): PointSourceConfig {
+  const source = value as Partial<PointSourceConfig> | null;
+  const columns = source?.columns;
+
+  if (
+    !source ||
+    !isNonEmptyString(source.id) ||
+    !isNonEmptyString(source.table) ||
+    !columns ||
+    !isNonEmptyString(columns.x) ||
+    !isNonEmptyString(columns.y) ||
+    !isNonEmptyString(columns.z)
+  ) {
+    throw new Error(`Point source #${index} in ${POINT_SOURCES_CONFIG_PATH} needs an id, table and x/y/z columns`);
+  }
+
+  return source as PointSourceConfig;
+}
+
+export async function loadPointSourcesConfig(): Promise<PointSourcesConfig> {
+  const raw = (await Bun.file(POINT_SOURCES_CONFIG_PATH).json()) as Partial<PointSourcesConfig>;
+
+  if (!Array.isArray(raw.sources) || raw.sources.length === 0) {
+    throw new Error(`No point sources configured in ${POINT_SOURCES_CONFIG_PATH}`);
+  }
+
+  const sources = raw.sources.map(validateSourceConfig);
+  const shiftPattern = { ...DEFAULT_SHIFT_PATTERN, ...raw.shiftPattern };
+  try {
+    assertTimeZone(shiftPattern.timeZone ?? DEFAULT_TIME_ZONE);
+  } catch {
+    throw new Error(`Unknown shiftPattern.timeZone "${shiftPattern.timeZone}" in ${POINT_SOURCES_CONFIG_PATH}`);
+  }
+  // USE_PROD is kept for existing deployments that predate the config file.
+  const active =
+    Bun.env.POINT_SOURCE ||
+    (Bun.env.USE_PROD === "true" ? "production" : undefined) ||
+    raw.active ||
+    sources[0]!.id;
+
+  return {
+    active,
+    shiftPattern,
+    defaultMass: raw.defaultMass ?? DEFAULT_POINT_MASS,
+    sources,
+  };
+}
+
+function getIdColumn(config: PointSourceConfig): string {
+  return config.columns.id ? quoteIdentifier(config.columns.id) : "rowid";
+}
+
+function buildFilterSql(config: PointSourceConfig): { conditions: string[]; params: FilterValue[] } {
+  const conditions: string[] = [];
+  const params: FilterValue[] = [];
+  for (const [column, value] of Object.entries(config.filters ?? {})) {
+    const values = Array.isArray(value) ? value : [value];
+    conditions.push(`${quoteIdentifier(column)} IN (${values.map(() => "?").join(", ")})`);
+    params.push(...values);
+  }
+  return { conditions, params };
+}
+
+/** A site date as the YYYYMMDD number and the `YYYY-MM-DD` text that time columns store. */
+function getSiteDate(timestamp: number, timeZone: string): { digits: number; text: string } {
+  const { year, month, day } = getZonedTime(timestamp, timeZone);
+  const text = [String(year).padStart(4, "0"), String(month + 1).padStart(2, "0"), String(day).padStart(2, "0")].join("-");
+  return { digits: year * 10000 + (month + 1) * 100 + day, text };
+}
+
+/**
+ * Conditions that skip rows whose time is surely outside `from`/`to`, so a windowed read does
+ * not load the whole table. They cover the forms times are usually stored in: epoch
+ * milliseconds or seconds, YYYYMMDD numbers and ISO-style text, with a day's slack for dates
+ * and written offsets. Anything else is let through, and `isInWindow` still decides every row.
+ */
+function buildTimeFilterSql(
+  column: string,
+  query: PointQuery,
+  timeZone: string,
+): { conditions: string[]; params: FilterValue[] } {
+  const conditions: string[] = [];
+  const params: FilterValue[] = [];
+  const bounds = [
+    { timestamp: query.from, op: ">=", textOp: ">=", dateSlack: -DAY_MS, textSlack: -DAY_MS },
+    { timestamp: query.to, op: "<=", textOp: "<", dateSlack: DAY_MS, textSlack: 2 * DAY_MS },
+  ];
+
+  for (const { timestamp, op, textOp, dateSlack, textSlack } of bounds) {
+    if (timestamp === undefined) {
+      continue;
+    }
+    conditions.push([
+      `((typeof(${column}) = 'text' AND (${column} NOT GLOB '[0-9][0-9][0-9][0-9][-/]*'`,
+      `OR REPLACE(${column}, '/', '-') ${textOp} ?))`,
+      `OR (typeof(${column}) IN ('integer', 'real') AND CASE`,
+      `WHEN ${column} <> CAST(${column} AS INTEGER) THEN ${column} ${op} ?`,
+      `WHEN ${column} BETWEEN 1000000000000 AND 9999999999999 THEN ${column} ${op} ?`,
+      `WHEN ${column} BETWEEN 1000000000 AND 9999999999 THEN ${column} * 1000 ${op} ?`,
+      `WHEN ${column} BETWEEN 10000000 AND 99999999 THEN ${column} ${op} ?`,
+      `ELSE 1 END)`,
+      `OR typeof(${column}) = 'blob')`,
+    ].join(" "));
+    params.push(
+      getSiteDate(timestamp + textSlack, timeZone).text,
+      timestamp,
+      timestamp,
+      timestamp,
+      getSiteDate(timestamp + dateSlack, timeZone).digits,
+    );
+  }
+
+  return { conditions, params };
+}
+
+/** Configured attributes whose column exists, with the alias each is selected as. */
+function getAttributeColumns(db: Database, config: PointSourceConfig): Array<{ name: string; column: string; alias: string }> {
+  return Object.entries(config.columns.attributes ?? {})
+    .filter(([, column]) => hasColumn(db, config.table, column))
+    .map(([name, column], index) => ({ name, column, alias: `a${index}` }));
+}
+
+function buildSourceSql(
+  db: Database,
+  config: PointSourceConfig,
+  query: PointQuery,
+  timeZone: string,
+  afterCursor?: number,
+): { sql: string; params: FilterValue[]; attributes: Array<{ name: string; alias: string }> } {
+  const { columns } = config;
+  const time = columns.time && hasColumn(db, config.table, columns.time)
+    ? quoteIdentifier(columns.time)
+    : "NULL";
+  const mass = columns.mass && hasColumn(db, config.table, columns.mass)
+    ? quoteIdentifier(columns.mass)
+    : "NULL";
+  const attributes = getAttributeColumns(db, config);
+
+  const { conditions, params } = buildFilterSql(config);
+  if (time !== "NULL") {
+    const timeFilter = buildTimeFilterSql(time, query, timeZone);
+    conditions.push(...timeFilter.conditions);
+    params.push(...timeFilter.params);
+  }
+  if (afterCursor !== undefined) {
+    conditions.push(`${getIdColumn(config)} > ?`);
+    params.push(afterCursor);
+  }
+
+  const sql = [
+    `SELECT ${quoteIdentifier(columns.x)} as x, ${quoteIdentifier(columns.y)} as y, ${quoteIdentifier(columns.z)} as z,`,
+    `${columns.w ? quoteIdentifier(columns.w) : "0"} as w, ${time} as t, ${mass} as mass,`,
+    `${getIdColumn(config)} as cursor`,
+    ...attributes.map((attribute) => `, ${quoteIdentifier(attribute.column)} as ${attribute.alias}`),
+    `FROM ${quoteIdentifier(config.table)}`,
+    conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : "",
+    afterCursor !== undefined ? `ORDER BY ${getIdColumn(config)}` : "",
+  ].join(" ");
+
+  return { sql, params, attributes };
+}
+
+function withSourceDb<T>(config: PointSourceConfig, fn: (db: Database) => T): T {
+  const db = new Database(config.dbPath ?? DB_PATH, { readonly: true });
+
+  try {
+    return fn(db);
+  } finally {
+    db.close();
+  }
+}
+
+export function createSqlitePointSource(
+  config: PointSourceConfig,
+  shiftPattern: ShiftPattern,
+  defaultMass: number = DEFAULT_POINT_MASS,
+): PointSource {
+  const mass = config.defaultMass ?? defaultMass;
+
+  const readPoints = (db: Database, query: PointQuery, afterCursor?: number) => {
+    const points: Point[] = [];
+    let cursor = afterCursor ?? 0;
+    const { sql, params, attributes } = buildSourceSql(
+      db,
+      config,
+      query,
+      shiftPattern.timeZone ?? DEFAULT_TIME_ZONE,
+      afterCursor,
+    );
+    const rows = db.query(sql).all(...params) as SourceRow[];
+
+    for (const row of rows) {
+      cursor = Math.max(cursor, Number(row.cursor));
+      const point = toPoint(
+        row,
+        attributes.length > 0
+          ? Object.fromEntries(attributes.map((attribute) => [attribute.name, row[attribute.alias]]))
+          : undefined,
+        shiftPattern.timeZone,
+      );
+      if (point && isInWindow(point.t, query, shiftPattern)) {
+        point.mass ??= mass;
+        points.push(point);
+      }
+    }
+
+    return { points, cursor };
+  };
+
+  return {
+    id: config.id,
+    name: config.name ?? config.id,
+    async getPoints(query) {
+      return withSourceDb(config, (db) => readPoints(db, query).points);
+    },
+    async getPointsWithCursor(query) {
+      return withSourceDb(config, (db) => readPoints(db, query));
+    },
+    async getCursor() {
+      return withSourceDb(config, (db) => {
+        const { conditions, params } = buildFilterSql(config);
+        const row = db.query([
+          `SELECT COALESCE(MAX(${getIdColumn(config)}), 0) as cursor FROM ${quoteIdentifier(config.table)}`,
+          conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : "",
+        ].join(" ")).get(...params) as { cursor: number };
+        return Number(row.cursor);
+      });
+    },
+    async getPointsSince(cursor, query) {
+      return withSourceDb(config, (db) => readPoints(db, query, cursor));
+    },
+  };
+}
+
+function toImportedSourceConfig(dataset: ImportedDataset): PointSourceConfig {
+  return {
+    id: IMPORTED_SOURCE_PREFIX + dataset.id,
+    name: dataset.name,
+    dbPath: IMPORTS_DB_PATH,
+    table: IMPORTED_POINTS_TABLE,
+    columns: { x: "x", y: "y", z: "z", w: "w", time: "t", mass: "mass", attributes: IMPORTED_ATTRIBUTE_COLUMNS },
+    filters: { dataset_id: dataset.id },
+  };
+}
+
+/** Configured sources followed by uploaded datasets. */
+function getSourceConfigs(config: PointSourcesConfig): PointSourceConfig[] {
+  return [...config.sources, ...listImportedDatasets().map(toImportedSourceConfig)];
+}
+
+/** The zone offset-less times in requests and imports are read in. */
+export async function getSiteTimeZone(): Promise<string> {
+  return (await loadPointSourcesConfig()).shiftPattern?.timeZone ?? DEFAULT_TIME_ZONE;
+}
+
+export async function listPointSources(): Promise<PointSource[]> {
+  const config = await loadPointSourcesConfig();
+  const shiftPattern = config.shiftPattern ?? DEFAULT_SHIFT_PATTERN;
+  return getSourceConfigs(config).map((source) => createSqlitePointSource(source, shiftPattern, config.defaultMass));
+}
+
+export async function listDatasets(): Promise<DatasetSummary[]> {
+  const config = await loadPointSourcesConfig();
+  return getSourceConfigs(config).map((source) => ({
+    id: source.id,
+    name: source.name ?? source.id,
+    kind: source.id.startsWith(IMPORTED_SOURCE_PREFIX) ? "import" : "source",
+    isDefault: source.id === config.active,
+  }));
+}
+
+/** Resolves a source by id, or the configured active source when no id is given. */
+export async function getPointSource(id?: string): Promise<PointSource | null> {
+  const config = await loadPointSourcesConfig();
+  const source = getSourceConfigs(config).find((candidate) => candidate.id === (id ?? config.active));
+  return source
+    ? createSqlitePointSource(source, config.shiftPattern ?? DEFAULT_SHIFT_PATTERN, config.defaultMass)
+    : null;
+}
+
+export async function getPoints(query: PointQuery = {}): Promise<Point[]> {
+  const source = await getPointSource();
+  if (!source) {
+    throw new Error("The active point source is not configured");
+  }
+  return source.getPoints(query);
+}
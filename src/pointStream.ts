@@ -0,0 +1,121 @@
+import { loadPointSourcesConfig, type PointSource } from "./pointSources";
+import { DEFAULT_SHIFT_PATTERN, isInWindow, type Point, type PointQuery } from "./points";
+
+const DEFAULT_POLL_INTERVAL_MS = 5000;
+
+/** A non-numeric or non-positive setting would poll the database on every tick. */
+function getPollInterval(value: string | undefined): number {
+  const parsed = Number(value);
+  return value !== undefined && Number.isFinite(parsed) && parsed > 0 ? parsed : DEFAULT_POLL_INTERVAL_MS;
+}
+
+const POLL_INTERVAL_MS = getPollInterval(Bun.env.POINT_POLL_INTERVAL_MS);
+
+export interface PointSubscriber {
+  query: PointQuery;
+  /** Cursor the subscriber's points were loaded at; rows after it are delivered. Defaults to now. */
+  cursor?: number;
+  /** Receives new rows in the window along with the cursor they bring the subscriber up to. */
+  onPoints: (points: Point[], cursor: number) => void;
+  onError: (message: string) => void;
+}
+
+interface SourceWatcher {
+  source: PointSource;
+  /** Each subscriber's cursor; subscribers that loaded at different times catch up separately. */
+  subscribers: Map<PointSubscriber, number>;
+  timer: ReturnType<typeof setInterval>;
+  polling: boolean;
+}
+
+/** One poller per source, shared by every scene that has that source open. */
+const watchers = new Map<string, SourceWatcher>();
+
+function stopWatcher(watcher: SourceWatcher): void {
+  clearInterval(watcher.timer);
+  watchers.delete(watcher.source.id);
+}
+
+function removeSubscriber(watcher: SourceWatcher, subscriber: PointSubscriber): void {
+  watcher.subscribers.delete(subscriber);
+  if (watcher.subscribers.size === 0 && watchers.get(watcher.source.id) === watcher) {
+    stopWatcher(watcher);
+  }
+}
+
+/** Runs one subscriber's callback; a subscriber whose callback throws is dropped without affecting the rest. */
+function notify(watcher: SourceWatcher, subscriber: PointSubscriber, deliver: () => void): void {
+  try {
+    deliver();
+  } catch {
+    removeSubscriber(watcher, subscriber);
+  }
+}
+
+async function poll(watcher: SourceWatcher): Promise<void> {
+  if (watcher.polling) {
+    return;
+  }
+
+  watcher.polling = true;
+  try {
+    const byCursor = new Map<number, PointSubscriber[]>();
+    for (const [subscriber, cursor] of watcher.subscribers) {
+      byCursor.set(cursor, [...(byCursor.get(cursor) ?? []), subscriber]);
+    }
+
+    const config = await loadPointSourcesConfig();
+    const shiftPattern = config.shiftPattern ?? DEFAULT_SHIFT_PATTERN;
+    for (const [since, subscribers] of byCursor) {
+      const { points, cursor } = await watcher.source.getPointsSince(since, {});
+      for (const subscriber of subscribers) {
+        // Unsubscribed while the rows were read
+        if (!watcher.subscribers.has(subscriber)) {
+          continue;
+        }
+        watcher.subscribers.set(subscriber, cursor);
+        const inWindow = points.filter((point) => isInWindow(point.t, subscriber.query, shiftPattern));
+        if (inWindow.length > 0) {
+          notify(watcher, subscriber, () => subscriber.onPoints(inWindow, cursor));
+        }
+      }
+    }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    for (const subscriber of [...watcher.subscribers.keys()]) {
+      notify(watcher, subscriber, () => subscriber.onError(message));
+    }
+    stopWatcher(watcher);
+  } finally {
+    watcher.polling = false;
+  }
+}
+
+/**
+ * Starts delivering rows added to `source` after the subscriber's cursor, or from now on
+ * without one. Resolves to an unsubscribe function; the poller stops once its last
+ * subscriber leaves.
+ */
+export async function subscribeToPoints(
+  source: PointSource,
+  subscriber: PointSubscriber,
+): Promise<() => void> {
+  const cursor = subscriber.cursor ?? await source.getCursor();
+  let watcher = watchers.get(source.id);
+
+  if (!watcher) {
+    const created: SourceWatcher = {
+      source,
+      subscribers: new Map(),
+      timer: setInterval(() => void poll(created), POLL_INTERVAL_MS),
+      polling: false,
+    };
+    watchers.set(source.id, created);
+    watcher = created;
+  }
+
+  const active = watcher;
+  active.subscribers.set(subscriber, cursor);
+
+  return () => removeSubscriber(active, subscriber);
+}
@@ -0,0 +1,50 @@
+import { describe, expect, test } from "bun:test";
+import { getShift, isInWindow, toTimestamp, type ShiftPattern } from "./points";
+
+const PERTH = "Australia/Perth";
+const PERTH_SHIFTS: ShiftPattern = { dayShiftStartHour: 6, shiftLengthHours: 12, timeZone: PERTH };
+
+describe("toTimestamp", () => {
+  test("reads dates and times without an offset in the site zone", () => {
+    expect(toTimestamp("2024-01-05 10:00", PERTH)).toBe(Date.UTC(2024, 0, 5, 2));
+    expect(toTimestamp("2024-01-05T10:00:30.5", PERTH)).toBe(Date.UTC(2024, 0, 5, 2, 0, 30, 500));
+    expect(toTimestamp("2024-01-05", PERTH)).toBe(Date.UTC(2024, 0, 4, 16));
+    expect(toTimestamp("20240105", PERTH)).toBe(Date.UTC(2024, 0, 4, 16));
+  });
+
+  test("keeps an explicit offset", () => {
+    expect(toTimestamp("2024-01-05T10:00:00Z", PERTH)).toBe(Date.UTC(2024, 0, 5, 10));
+    expect(toTimestamp("2024-01-05T10:00:00+01:00", PERTH)).toBe(Date.UTC(2024, 0, 5, 9));
+  });
+
+  test("follows daylight saving in the site zone", () => {
+    const newYork = "America/New_York";
+    expect(toTimestamp("2024-01-15 12:00", newYork)).toBe(Date.UTC(2024, 0, 15, 17));
+    expect(toTimestamp("2024-07-15 12:00", newYork)).toBe(Date.UTC(2024, 6, 15, 16));
+  });
+
+  test("reads epoch digits regardless of the zone", () => {
+    expect(toTimestamp("1700000000000", PERTH)).toBe(1700000000000);
+    expect(toTimestamp(1700000000, PERTH)).toBe(1700000000000);
+  });
+
+  test("rejects dates that do not exist", () => {
+    expect(toTimestamp("2024-02-31", PERTH)).toBeUndefined();
+    expect(toTimestamp("20240231", PERTH)).toBeUndefined();
+    expect(toTimestamp("12345", PERTH)).toBeUndefined();
+  });
+});
+
+describe("getShift", () => {
+  test("classifies by the hour in the site zone", () => {
+    // Midnight UTC is 08:00 in Perth
+    expect(getShift(Date.UTC(2024, 0, 5, 0), PERTH_SHIFTS)).toBe("day");
+    expect(getShift(Date.UTC(2024, 0, 5, 0), { dayShiftStartHour: 6, shiftLengthHours: 12 })).toBe("night");
+  });
+
+  test("agrees with times parsed in the same zone", () => {
+    const t = toTimestamp("2024-01-05 05:59", PERTH);
+    expect(isInWindow(t, { shift: "night" }, PERTH_SHIFTS)).toBe(true);
+    expect(isInWindow(toTimestamp("2024-01-05 06:00", PERTH), { shift: "day" }, PERTH_SHIFTS)).toBe(true);
+  });
+});
@@ -1,55 +1,408 @@
-import { Database } from "bun:sqlite";
-import { DB_PATH } from "./db";
-
 export interface Point {
   x: number;
   y: number;
   z: number;
   w: number;
+  /** Event time in milliseconds since the epoch, when the source records one. */
+  t?: number;
+  /** Payload mass in tonnes; sources fill in their default when a report has none. */
+  mass?: number;
+  /** Named assay values (e.g. Fe, SiO2), when the source records them. */
+  attributes?: PointAttributes;
+}
+
+export type PointAttributes = Record<string, number>;
+
+/** The attribute name that reads a point's `w` grade. */
+export const DEFAULT_ATTRIBUTE = "w";
+
+/** Tonnes per dipper report when neither the report nor its source says otherwise. */
+export const DEFAULT_POINT_MASS = 100;
+
+/** Totals of one attribute over a set of points. */
+export interface AttributeTotal {
+  /** Sum of value × tonnes, i.e. grade-tonnes. */
+  total: number;
+  /** Tonnage-weighted mean over the assayed tonnes. */
+  average: number;
+  /** Tonnes of the points that carry the attribute; unassayed points add nothing. */
+  tonnage: number;
 }
 
-const USE_PROD = Bun.env.USE_PROD === "true" ? true : false;
+/** Range and tonnage-weighted mean of one attribute over the points that carry it. */
+export interface AttributeStats {
+  min: number;
+  max: number;
+  average: number;
+  /** Tonnes of the points that carry the attribute; zero means nothing was assayed. */
+  tonnage: number;
+}
 
-if (!DB_PATH) {
-  throw new Error("Missing DB_PATH environment variable");
+export function getPointMass(point: Point): number {
+  return point.mass ?? DEFAULT_POINT_MASS;
 }
 
-export async function getPoints(): Promise<Point[]> {
-  const db = new Database(DB_PATH, { readonly: true });
+export function getTonnage(points: Point[]): number {
+  let tonnage = 0;
+  for (const point of points) {
+    tonnage += getPointMass(point);
+  }
+  return tonnage;
+}
 
-  try {
-    const points: Point[] = [];
+/** The point's value for `attribute`, or undefined when the report was not assayed for it. */
+export function getAttributeValue(point: Point, attribute: string): number | undefined {
+  if (attribute === DEFAULT_ATTRIBUTE) {
+    return point.w;
+  }
+  return point.attributes?.[attribute];
+}
 
-    const query = USE_PROD ?
-      "SELECT XYZX as x, XYZY as y, XYZZ as z, 0 as w FROM V_PRODUCTION_EVENT WHERE ObjectTypeID = 'DipperReport'" :
-      "SELECT x, y, z, w FROM MockData";
+/** An average for display, or a dash when no tonnes carry the attribute. */
+export function formatAttributeAverage(value: { average: number; tonnage: number }, digits: number): string {
+  return value.tonnage > 0 ? value.average.toFixed(digits) : "–";
+}
 
-    const rows = db.query(query).all() as Array<{ x: unknown; y: unknown; z: unknown; w: unknown }>;
+export function getAttributeLabel(attribute: string): string {
+  return attribute === DEFAULT_ATTRIBUTE ? "Grade" : attribute;
+}
 
-    for (const row of rows) {
-      const x = Number(row.x);
-      const y = Number(row.y);
-      const z = Number(row.z);
-      const w = Number(row.w);
+/** `w` followed by every named attribute found on the points, in first-seen order. */
+export function getAttributeNames(points: Point[]): string[] {
+  const names = new Set<string>([DEFAULT_ATTRIBUTE]);
+  for (const point of points) {
+    for (const name of Object.keys(point.attributes ?? {})) {
+      names.add(name);
+    }
+  }
+  return [...names];
+}
 
-      if (
-        !Number.isFinite(x) ||
-        !Number.isFinite(y) ||
-        !Number.isFinite(z) ||
-        !Number.isFinite(w)
-      ) {
+export function getAttributeTotals(points: Point[], attributes: string[]): Record<string, AttributeTotal> {
+  const totals: Record<string, AttributeTotal> = {};
+  for (const attribute of attributes) {
+    let total = 0;
+    let tonnage = 0;
+    for (const point of points) {
+      const value = getAttributeValue(point, attribute);
+      if (value === undefined) {
         continue;
       }
+      const mass = getPointMass(point);
+      total += value * mass;
+      tonnage += mass;
+    }
+    totals[attribute] = { total, average: tonnage > 0 ? total / tonnage : 0, tonnage };
+  }
+  return totals;
+}
 
-      if (x === 0 && y === 0 && z === 0) {
-        continue;
+/** The entry for `attribute`, or zeros when the totals do not cover it. */
+export function getAttributeTotal(totals: Record<string, AttributeTotal>, attribute: string): AttributeTotal {
+  return totals[attribute] ?? { total: 0, average: 0, tonnage: 0 };
+}
+
+/** A point set the client can switch to: a configured source or an uploaded file. */
+export interface DatasetSummary {
+  id: string;
+  name: string;
+  kind: "source" | "import";
+  isDefault: boolean;
+}
+
+export type Shift = "day" | "night";
+
+export interface PointQuery {
+  from?: number;
+  to?: number;
+  shift?: Shift;
+}
+
+export interface ShiftPattern {
+  /** Hour of the day, in the site time zone, at which the day shift starts. */
+  dayShiftStartHour: number;
+  shiftLengthHours: number;
+  /**
+   * IANA time zone the site works in, e.g. "Australia/Perth". Shift hours and times written
+   * without an offset are read in it. Defaults to UTC.
+   */
+  timeZone?: string;
+}
+
+export const DEFAULT_TIME_ZONE = "UTC";
+
+export const DEFAULT_SHIFT_PATTERN: ShiftPattern = {
+  dayShiftStartHour: 6,
+  shiftLengthHours: 12,
+  timeZone: DEFAULT_TIME_ZONE,
+};
+
+/** Zone offsets only change on a quarter hour, so one lookup serves each quarter. */
+const OFFSET_BUCKET_MS = 15 * 60 * 1000;
+const zoneFormats = new Map<string, Intl.DateTimeFormat>();
+const zoneOffsets = new Map<string, Map<number, number>>();
+
+function getZoneFormat(timeZone: string): Intl.DateTimeFormat {
+  let format = zoneFormats.get(timeZone);
+  if (!format) {
+    format = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "numeric",
+      day: "numeric",
+      hour: "numeric",
+      minute: "numeric",
+      second: "numeric",
+    });
+    zoneFormats.set(timeZone, format);
+  }
+  return format;
+}
+
+/** Throws when `timeZone` is not a zone this runtime knows. */
+export function assertTimeZone(timeZone: string): void {
+  getZoneFormat(timeZone);
+}
+
+/** Milliseconds to add to a UTC time to get the wall-clock time in `timeZone`. */
+function getZoneOffset(timestamp: number, timeZone: string): number {
+  const bucket = Math.floor(timestamp / OFFSET_BUCKET_MS);
+  let offsets = zoneOffsets.get(timeZone);
+  if (!offsets) {
+    offsets = new Map();
+    zoneOffsets.set(timeZone, offsets);
+  }
+  const cached = offsets.get(bucket);
+  if (cached !== undefined) {
+    return cached;
+  }
+
+  const start = bucket * OFFSET_BUCKET_MS;
+  const parts = Object.fromEntries(
+    getZoneFormat(timeZone).formatToParts(start).map((part) => [part.type, Number(part.value)]),
+  ) as Record<string, number>;
+  const wall = Date.UTC(parts.year!, parts.month! - 1, parts.day!, parts.hour!, parts.minute!, parts.second!);
+  const offset = wall - start;
+  offsets.set(bucket, offset);
+  return offset;
+}
+
+/** Wall-clock fields of `timestamp` in `timeZone`; months count from 0 as in `Date`. */
+export function getZonedTime(timestamp: number, timeZone: string = DEFAULT_TIME_ZONE) {
+  const wall = new Date(timestamp + getZoneOffset(timestamp, timeZone));
+  return {
+    year: wall.getUTCFullYear(),
+    month: wall.getUTCMonth(),
+    day: wall.getUTCDate(),
+    hour: wall.getUTCHours(),
+  };
+}
+
+/**
+ * The time a wall clock in `timeZone` shows, or undefined for a date that does not exist.
+ * A time skipped by a daylight-saving change is moved by the size of the change.
+ */
+function fromZonedTime(
+  fields: { year: number; month: number; day: number; hour?: number; minute?: number; second?: number; ms?: number },
+  timeZone: string,
+): number | undefined {
+  const { year, month, day, hour = 0, minute = 0, second = 0, ms = 0 } = fields;
+  const wall = Date.UTC(year, month, day, hour, minute, second, ms);
+  const check = new Date(wall);
+  // Date rolls 2024-02-31 over into March rather than rejecting it.
+  if (
+    check.getUTCFullYear() !== year || check.getUTCMonth() !== month || check.getUTCDate() !== day ||
+    check.getUTCHours() !== hour || check.getUTCMinutes() !== minute || check.getUTCSeconds() !== second
+  ) {
+    return undefined;
+  }
+  const guess = wall - getZoneOffset(wall, timeZone);
+  return wall - getZoneOffset(guess, timeZone);
+}
+
+/** Reads an all-digit time: epoch milliseconds (13 digits), epoch seconds (10) or a site YYYYMMDD date. */
+function parseDigitTimestamp(digits: string, timeZone: string): number | undefined {
+  if (digits.length === 13) {
+    return Number(digits);
+  }
+  if (digits.length === 10) {
+    return Number(digits) * 1000;
+  }
+  if (digits.length !== 8) {
+    return undefined;
+  }
+
+  return fromZonedTime({
+    year: Number(digits.slice(0, 4)),
+    month: Number(digits.slice(4, 6)) - 1,
+    day: Number(digits.slice(6, 8)),
+  }, timeZone);
+}
+
+/** `2024-03-01`, `2024-03-01 06:30`, `2024/03/01T06:30:15.250` and the like, with no offset. */
+const WALL_CLOCK_PATTERN = /^(\d{4})[-/](\d{2})[-/](\d{2})(?:[T ](\d{2}):(\d{2})(?::(\d{2})(?:\.(\d{1,3})\d*)?)?)?$/;
+/** A trailing `Z`, `+08:00`, `-0500`, `GMT` or `UTC` that pins a time to an offset. */
+const EXPLICIT_ZONE_PATTERN = /(?:z|[+-]\d{2}:?\d{2}|\bgmt\b|\butc\b)$/i;
+
+/**
+ * Reads a time as epoch milliseconds. Times that carry an offset keep it; dates and times
+ * without one are read in `timeZone`, the site's zone, whatever zone the server runs in.
+ */
+export function toTimestamp(value: unknown, timeZone: string = DEFAULT_TIME_ZONE): number | undefined {
+  if (value === null || value === undefined || value === "") {
+    return undefined;
+  }
+
+  const text = String(value).trim();
+  if (/^\d+$/.test(text)) {
+    return parseDigitTimestamp(text, timeZone);
+  }
+  if (typeof value === "number") {
+    return Number.isFinite(value) ? value : undefined;
+  }
+
+  const wallClock = WALL_CLOCK_PATTERN.exec(text);
+  if (wallClock) {
+    const [, year, month, day, hour, minute, second, fraction] = wallClock;
+    return fromZonedTime({
+      year: Number(year),
+      month: Number(month) - 1,
+      day: Number(day),
+      hour: hour === undefined ? 0 : Number(hour),
+      minute: minute === undefined ? 0 : Number(minute),
+      second: second === undefined ? 0 : Number(second),
+      ms: fraction === undefined ? 0 : Number(fraction.padEnd(3, "0")),
+    }, timeZone);
+  }
+
+  const parsed = Date.parse(text);
+  if (!Number.isFinite(parsed)) {
+    return undefined;
+  }
+  if (EXPLICIT_ZONE_PATTERN.test(text)) {
+    return parsed;
+  }
+  // Date.parse read the other formats in the server's zone; take its wall clock to the site's.
+  const local = new Date(parsed);
+  return fromZonedTime({
+    year: local.getFullYear(),
+    month: local.getMonth(),
+    day: local.getDate(),
+    hour: local.getHours(),
+    minute: local.getMinutes(),
+    second: local.getSeconds(),
+    ms: local.getMilliseconds(),
+  }, timeZone);
+}
+
+export function getShift(timestamp: number, pattern: ShiftPattern = DEFAULT_SHIFT_PATTERN): Shift {
+  const { hour } = getZonedTime(timestamp, pattern.timeZone);
+  const hoursIntoDayShift = (hour - pattern.dayShiftStartHour + 24) % 24;
+  return hoursIntoDayShift < pattern.shiftLengthHours ? "day" : "night";
+}
+
+export function isInWindow(
+  t: number | undefined,
+  query: PointQuery,
+  pattern: ShiftPattern = DEFAULT_SHIFT_PATTERN,
+): boolean {
+  if (query.from === undefined && query.to === undefined && query.shift === undefined) {
+    return true;
+  }
+
+  // A point without a timestamp cannot be placed in any window.
+  if (t === undefined) {
+    return false;
+  }
+
+  if (query.from !== undefined && t < query.from) {
+    return false;
+  }
+
+  if (query.to !== undefined && t > query.to) {
+    return false;
+  }
+
+  return query.shift === undefined || getShift(t, pattern) === query.shift;
+}
+
+/**
+ * Validates a raw source row. Rows with non-finite values or sitting exactly on the
+ * origin (unset positions in the fleet system) are rejected.
+ */
+export function toPoint(
+  row: { x: unknown; y: unknown; z: unknown; w: unknown; t?: unknown; mass?: unknown },
+  attributeValues?: Record<string, unknown>,
+  timeZone: string = DEFAULT_TIME_ZONE,
+): Point | null {
+  const x = Number(row.x);
+  const y = Number(row.y);
+  const z = Number(row.z);
+  const w = Number(row.w);
+  const t = toTimestamp(row.t, timeZone);
+
+  if (
+    !Number.isFinite(x) ||
+    !Number.isFinite(y) ||
+    !Number.isFinite(z) ||
+    !Number.isFinite(w)
+  ) {
+    return null;
+  }
+
+  if (x === 0 && y === 0 && z === 0) {
+    return null;
+  }
+
+  const point: Point = t === undefined ? { x, y, z, w } : { x, y, z, w, t };
+
+  // Missing or non-positive payloads are left for the source default.
+  const mass = row.mass === null || row.mass === undefined || row.mass === "" ? NaN : Number(row.mass);
+  if (Number.isFinite(mass) && mass > 0) {
+    point.mass = mass;
+  }
+
+  if (attributeValues) {
+    const attributes: PointAttributes = {};
+    for (const [name, raw] of Object.entries(attributeValues)) {
+      // A missing assay leaves the attribute unset rather than dropping the whole row.
+      const value = raw === null || raw === undefined || raw === "" ? NaN : Number(raw);
+      if (Number.isFinite(value)) {
+        attributes[name] = value;
       }
+    }
+    if (Object.keys(attributes).length > 0) {
+      point.attributes = attributes;
+    }
+  }
+
+  return point;
+}
 
-      points.push({ x, y, z, w });
+/** Reads `from`, `to` (ISO date or epoch ms, site time when no offset is given) and `shift` from a request URL. */
+export function parsePointQuery(url: URL, timeZone: string = DEFAULT_TIME_ZONE): PointQuery | null {
+  const query: PointQuery = {};
+
+  for (const key of ["from", "to"] as const) {
+    const raw = url.searchParams.get(key);
+    if (raw === null || raw === "") {
+      continue;
     }
 
-    return points;
-  } finally {
-    db.close();
+    const timestamp = toTimestamp(raw, timeZone);
+    if (timestamp === undefined) {
+      return null;
+    }
+    query[key] = timestamp;
   }
+
+  const shift = url.searchParams.get("shift");
+  if (shift === "day" || shift === "night") {
+    query.shift = shift;
+  } else if (shift !== null && shift !== "" && shift !== "all") {
+    return null;
+  }
+
+  return query;
 }
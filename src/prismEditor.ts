@@ -0,0 +1,156 @@
+import * as THREE from "three";
+import { getFootprintRadius, getRegionCenter, isSimplePolygon, type PrismSnapshot } from "./geometry";
+
+/** What a handle in the shape editor moves. */
+export type PrismHandle =
+  | { kind: "vertex"; index: number }
+  | { kind: "midpoint"; index: number }
+  | { kind: "top" }
+  | { kind: "bottom" };
+
+/** Keeps a region from collapsing when its top is dragged down to its bottom. */
+export const MIN_PRISM_HEIGHT = 0.1;
+
+const VERTEX_HANDLE_COLOR = 0xf8fafc;
+const MIDPOINT_HANDLE_COLOR = 0x94a3b8;
+const ELEVATION_HANDLE_COLOR = 0xf59e0b;
+/** Drawn over the prism and points so handles stay reachable. */
+const HANDLE_RENDER_ORDER = 10;
+
+function getHandleSize(snapshot: PrismSnapshot): number {
+  return THREE.MathUtils.clamp(getFootprintRadius(snapshot) * 0.03, 0.15, 3);
+}
+
+function createHandleMesh(geometry: THREE.BufferGeometry, color: number, handle: PrismHandle): THREE.Mesh {
+  const mesh = new THREE.Mesh(
+    geometry,
+    new THREE.MeshBasicMaterial({ color, depthTest: false, transparent: true, opacity: 0.95 }),
+  );
+  mesh.renderOrder = HANDLE_RENDER_ORDER;
+  mesh.userData.prismHandle = handle;
+  return mesh;
+}
+
+/**
+ * Handles for every footprint vertex and edge midpoint, drawn on the prism's top, plus
+ * cones above and below its centre for the top and bottom elevations.
+ */
+export function addPrismHandles(scene: THREE.Scene, snapshot: PrismSnapshot): THREE.Group {
+  const size = getHandleSize(snapshot);
+  const group = new THREE.Group();
+  const vertexGeometry = new THREE.SphereGeometry(size, 12, 8);
+  const midpointGeometry = new THREE.SphereGeometry(size * 0.6, 10, 6);
+  const coneGeometry = new THREE.ConeGeometry(size * 1.2, size * 3, 16);
+  const { footprint } = snapshot;
+
+  footprint.forEach((point, index) => {
+    const next = footprint[(index + 1) % footprint.length] as { x: number; y: number };
+    const vertex = createHandleMesh(vertexGeometry, VERTEX_HANDLE_COLOR, { kind: "vertex", index });
+    vertex.position.set(point.x, point.y, snapshot.maxZ);
+    const midpoint = createHandleMesh(midpointGeometry, MIDPOINT_HANDLE_COLOR, { kind: "midpoint", index });
+    midpoint.position.set((point.x + next.x) / 2, (point.y + next.y) / 2, snapshot.maxZ);
+    group.add(vertex, midpoint);
+  });
+
+  const center = getRegionCenter(snapshot);
+  const top = createHandleMesh(coneGeometry, ELEVATION_HANDLE_COLOR, { kind: "top" });
+  top.rotation.x = Math.PI / 2;
+  top.position.set(center.x, center.y, snapshot.maxZ + size * 2);
+  const bottom = createHandleMesh(coneGeometry, ELEVATION_HANDLE_COLOR, { kind: "bottom" });
+  bottom.rotation.x = -Math.PI / 2;
+  bottom.position.set(center.x, center.y, snapshot.minZ - size * 2);
+  group.add(top, bottom);
+
+  scene.add(group);
+  return group;
+}
+
+/** Moves the handles to a snapshot with the same number of vertices, as during a drag. */
+export function updatePrismHandles(group: THREE.Group, snapshot: PrismSnapshot): void {
+  const size = getHandleSize(snapshot);
+  const center = getRegionCenter(snapshot);
+  const { footprint } = snapshot;
+
+  for (const node of group.children) {
+    const handle = getPrismHandle(node);
+    if (!handle) {
+      continue;
+    }
+    if (handle.kind === "top") {
+      node.position.set(center.x, center.y, snapshot.maxZ + size * 2);
+    } else if (handle.kind === "bottom") {
+      node.position.set(center.x, center.y, snapshot.minZ - size * 2);
+    } else {
+      const point = footprint[handle.index];
+      const next = footprint[(handle.index + 1) % footprint.length];
+      if (!point || !next) {
+        continue;
+      }
+      if (handle.kind === "vertex") {
+        node.position.set(point.x, point.y, snapshot.maxZ);
+      } else {
+        node.position.set((point.x + next.x) / 2, (point.y + next.y) / 2, snapshot.maxZ);
+      }
+    }
+  }
+}
+
+export function removePrismHandles(scene: THREE.Scene, group: THREE.Group): void {
+  scene.remove(group);
+  const geometries = new Set<THREE.BufferGeometry>();
+  group.traverse((node) => {
+    if (node instanceof THREE.Mesh) {
+      geometries.add(node.geometry);
+      (node.material as THREE.Material).dispose();
+    }
+  });
+  for (const geometry of geometries) {
+    geometry.dispose();
+  }
+}
+
+export function getPrismHandle(object: THREE.Object3D): PrismHandle | null {
+  return (object.userData.prismHandle as PrismHandle | undefined) ?? null;
+}
+
+/** Adds a vertex in the middle of the edge that starts at `index`; it becomes `index + 1`. */
+export function insertFootprintVertex(snapshot: PrismSnapshot, index: number): PrismSnapshot {
+  const { footprint } = snapshot;
+  const current = footprint[index] as { x: number; y: number };
+  const next = footprint[(index + 1) % footprint.length] as { x: number; y: number };
+  return {
+    ...snapshot,
+    footprint: [
+      ...footprint.slice(0, index + 1),
+      { x: (current.x + next.x) / 2, y: (current.y + next.y) / 2 },
+      ...footprint.slice(index + 1),
+    ],
+  };
+}
+
+/** Null when removing the vertex would leave fewer than three or a self-crossing outline. */
+export function removeFootprintVertex(snapshot: PrismSnapshot, index: number): PrismSnapshot | null {
+  const footprint = snapshot.footprint.filter((_, vertexIndex) => vertexIndex !== index);
+  return isSimplePolygon(footprint) ? { ...snapshot, footprint } : null;
+}
+
+/** Null when the move would make the outline cross itself. */
+export function moveFootprintVertex(
+  snapshot: PrismSnapshot,
+  index: number,
+  position: { x: number; y: number },
+): PrismSnapshot | null {
+  const footprint = snapshot.footprint.map((point, vertexIndex) =>
+    vertexIndex === index ? { x: position.x, y: position.y } : point,
+  );
+  return isSimplePolygon(footprint) ? { ...snapshot, footprint } : null;
+}
+
+export function setPrismElevation(snapshot: PrismSnapshot, edge: "top" | "bottom", z: number): PrismSnapshot {
+  if (!Number.isFinite(z)) {
+    return snapshot;
+  }
+  return edge === "top"
+    ? { ...snapshot, maxZ: Math.max(z, snapshot.minZ + MIN_PRISM_HEIGHT) }
+    : { ...snapshot, minZ: Math.min(z, snapshot.maxZ - MIN_PRISM_HEIGHT) };
+}
@@ -0,0 +1,76 @@
+import { describe, expect, test } from "bun:test";
+import type { ExtractionStep } from "./extraction";
+import type { Point } from "./points";
+import { getRecipeCandidate, solveRecipe, type RecipeCandidate } from "./recipe";
+
+const STEP: ExtractionStep = { mode: "face", angle: 0, dip: 90, increment: 5, quantity: 0 };
+
+/** Ten 10 t reports in a row, all assayed at the same Fe. */
+function candidate(regionId: string, fe: number, originX: number): RecipeCandidate {
+  const points: Point[] = Array.from({ length: 10 }, (_, index) => ({
+    x: originX + index,
+    y: 0,
+    z: 0,
+    w: 0,
+    mass: 10,
+    attributes: { Fe: fe },
+  }));
+  return getRecipeCandidate(regionId, regionId, points, STEP, "Fe");
+}
+
+const RICH = candidate("rich", 60, 0);
+const LEAN = candidate("lean", 50, 100);
+
+describe("getRecipeCandidate", () => {
+  test("totals the region's tonnes and grade", () => {
+    expect(RICH.tonnage).toBe(100);
+    expect(RICH.grade).toBe(60);
+    expect(Array.from(RICH.cumulativeMass)).toEqual([0, 10, 20, 30, 40, 50, 60, 70, 80, 90, 100]);
+  });
+});
+
+describe("solveRecipe", () => {
+  test("mixes the regions to land in the middle of the window", () => {
+    const solution = solveRecipe([RICH, LEAN], { tonnage: 100, minGrade: 54, maxGrade: 56 });
+    if (!solution.feasible) {
+      throw new Error(solution.reason);
+    }
+    expect(solution.tonnage).toBe(100);
+    expect(solution.grade).toBeCloseTo(55);
+    expect(solution.quantities).toEqual([
+      { regionKey: "rich", regionId: "rich", quantity: 50, grade: 60 },
+      { regionKey: "lean", regionId: "lean", quantity: 50, grade: 50 },
+    ]);
+  });
+
+  test("takes only the region the window calls for", () => {
+    const solution = solveRecipe([RICH, LEAN], { tonnage: 100, minGrade: 59, maxGrade: 61 });
+    expect(solution).toMatchObject({ feasible: true, tonnage: 100, grade: 60 });
+  });
+
+  test("explains a window above the richest blend", () => {
+    const solution = solveRecipe([RICH, LEAN], { tonnage: 150, minGrade: 58, maxGrade: 62 });
+    expect(solution).toEqual({
+      feasible: false,
+      reason: "The richest 150 t blend the faces reach averages 56.67, below the minimum of 58.00.",
+    });
+  });
+
+  test("explains a window below the leanest blend", () => {
+    const solution = solveRecipe([RICH, LEAN], { tonnage: 150, minGrade: 40, maxGrade: 52 });
+    expect(solution.feasible).toBe(false);
+    expect(solution.feasible ? "" : solution.reason).toStartWith("The leanest 150 t blend");
+  });
+
+  test("refuses a target larger than the candidates hold", () => {
+    const solution = solveRecipe([RICH, LEAN], { tonnage: 250, minGrade: 50, maxGrade: 60 });
+    expect(solution).toEqual({
+      feasible: false,
+      reason: "The candidate regions hold 200 t, 50 t short of the target.",
+    });
+  });
+
+  test("refuses a window whose minimum is above its maximum", () => {
+    expect(solveRecipe([RICH], { tonnage: 10, minGrade: 60, maxGrade: 50 }).feasible).toBe(false);
+  });
+});
@@ -0,0 +1,231 @@
+import { getExtractionOrder, type ExtractionStep } from "./extraction";
+import { getAttributeValue, getPointMass, type Point } from "./points";
+
+/** A region the recipe may draw from, with what it actually contains. */
+export interface RecipeCandidate {
+  regionKey: string;
+  regionId: string;
+  /** Tonnes available in the region. */
+  tonnage: number;
+  /** Tonnage-weighted average of the recipe attribute over the region's assayed tonnes. */
+  grade: number;
+  /**
+   * Cumulative tonnes, grade-tonnes and assayed tonnes along the order the region's plan
+   * item would dig it, so a partial take is priced at what that dig actually reaches.
+   */
+  cumulativeMass: Float64Array;
+  cumulativeGrade: Float64Array;
+  cumulativeAssayed: Float64Array;
+}
+
+export interface RecipeTarget {
+  tonnage: number;
+  minGrade: number;
+  maxGrade: number;
+}
+
+export interface RecipeQuantity {
+  regionKey: string;
+  regionId: string;
+  /** Tonnes to take from the region. */
+  quantity: number;
+  /** Average grade of what the region's dig takes for that quantity. */
+  grade: number;
+}
+
+/** Samples of the lean-to-rich mix searched for a blend inside the window. */
+const MIX_SAMPLES = 64;
+
+export type RecipeSolution =
+  | {
+    feasible: true;
+    quantities: RecipeQuantity[];
+    /** Tonnes the items actually dig; each region's last report may overshoot its quantity. */
+    tonnage: number;
+    grade: number;
+  }
+  | {
+    feasible: false;
+    reason: string;
+  };
+
+/** Dig curves for a region dug by `step`, which should match the plan item the recipe will create. */
+export function getRecipeCandidate(
+  regionKey: string,
+  regionId: string,
+  points: Point[],
+  step: ExtractionStep,
+  attribute: string,
+): RecipeCandidate {
+  const order = getExtractionOrder(points, step);
+  const cumulativeMass = new Float64Array(order.length + 1);
+  const cumulativeGrade = new Float64Array(order.length + 1);
+  const cumulativeAssayed = new Float64Array(order.length + 1);
+
+  for (let i = 0; i < order.length; i += 1) {
+    const point = points[order[i] as number] as Point;
+    const mass = getPointMass(point);
+    const value = getAttributeValue(point, attribute);
+    cumulativeMass[i + 1] = (cumulativeMass[i] as number) + mass;
+    cumulativeGrade[i + 1] = (cumulativeGrade[i] as number) + (value === undefined ? 0 : value * mass);
+    cumulativeAssayed[i + 1] = (cumulativeAssayed[i] as number) + (value === undefined ? 0 : mass);
+  }
+
+  const tonnage = cumulativeMass[order.length] as number;
+  const assayed = cumulativeAssayed[order.length] as number;
+  return {
+    regionKey,
+    regionId,
+    tonnage,
+    grade: assayed > 0 ? (cumulativeGrade[order.length] as number) / assayed : 0,
+    cumulativeMass,
+    cumulativeGrade,
+    cumulativeAssayed,
+  };
+}
+
+/** What a dig asking for `quantity` tonnes takes: whole reports until the tonnes are reached. */
+function getTake(candidate: RecipeCandidate, quantity: number): { tonnage: number; grade: number; assayed: number } {
+  const mass = candidate.cumulativeMass;
+  let low = 0;
+  let high = mass.length - 1;
+  while (low < high) {
+    const middle = (low + high) >> 1;
+    if ((mass[middle] as number) >= quantity) {
+      high = middle;
+    } else {
+      low = middle + 1;
+    }
+  }
+  return {
+    tonnage: mass[low] as number,
+    grade: candidate.cumulativeGrade[low] as number,
+    assayed: candidate.cumulativeAssayed[low] as number,
+  };
+}
+
+/** The tonnes and average grade the plan items would actually dig for these quantities. */
+function getBlend(candidates: RecipeCandidate[], quantities: number[]): { tonnage: number; grade: number } {
+  let tonnage = 0;
+  let gradeTonnes = 0;
+  let assayed = 0;
+  quantities.forEach((quantity, index) => {
+    if (quantity <= 0) {
+      return;
+    }
+    const take = getTake(candidates[index] as RecipeCandidate, quantity);
+    tonnage += take.tonnage;
+    gradeTonnes += take.grade;
+    assayed += take.assayed;
+  });
+  return { tonnage, grade: assayed > 0 ? gradeTonnes / assayed : 0 };
+}
+
+/**
+ * Fills `tonnage` from the candidates in the given order, taking each region in full
+ * before moving on. Returns tonnes per candidate, aligned with `candidates`.
+ */
+function fillInOrder(candidates: RecipeCandidate[], order: number[], tonnage: number): number[] {
+  const quantities = new Array<number>(candidates.length).fill(0);
+  let remaining = tonnage;
+
+  for (const index of order) {
+    if (remaining <= 0) {
+      break;
+    }
+    const take = Math.min(remaining, (candidates[index] as RecipeCandidate).tonnage);
+    quantities[index] = take;
+    remaining -= take;
+  }
+
+  return quantities;
+}
+
+function formatGrade(value: number): string {
+  return value.toFixed(2);
+}
+
+/**
+ * Solves how many tonnes to take from each candidate so the blend hits the target tonnage
+ * with an average grade inside the window, never taking more than a region holds.
+ *
+ * The search mixes the leanest and richest fills (lowest- or highest-grade regions first)
+ * and keeps the mix closest to the middle of the window. Every mix is scored on the dig
+ * curves rather than region averages, because a partial dig takes the reports its face
+ * reaches first, whose grade can be far from the region's average. The grade reported is
+ * therefore the one the applied plan items will dig.
+ */
+export function solveRecipe(candidates: RecipeCandidate[], target: RecipeTarget): RecipeSolution {
+  if (candidates.length === 0) {
+    return { feasible: false, reason: "Pick at least one candidate region." };
+  }
+
+  if (!Number.isFinite(target.tonnage) || target.tonnage <= 0) {
+    return { feasible: false, reason: "Enter a target tonnage above zero." };
+  }
+
+  if (!Number.isFinite(target.minGrade) || !Number.isFinite(target.maxGrade) || target.minGrade > target.maxGrade) {
+    return { feasible: false, reason: "The minimum grade must not be above the maximum grade." };
+  }
+
+  const available = candidates.reduce((sum, candidate) => sum + Math.max(0, candidate.tonnage), 0);
+  if (available < target.tonnage) {
+    return {
+      feasible: false,
+      reason: `The candidate regions hold ${available.toFixed(0)} t, ${(target.tonnage - available).toFixed(0)} t short of the target.`,
+    };
+  }
+
+  const byGrade = candidates
+    .map((_, index) => index)
+    .sort((a, b) => (candidates[a] as RecipeCandidate).grade - (candidates[b] as RecipeCandidate).grade);
+  const lean = fillInOrder(candidates, byGrade, target.tonnage);
+  const rich = fillInOrder(candidates, [...byGrade].reverse(), target.tonnage);
+  // Plan quantities are whole tonnes, so score the rounded quantities the plan will hold
+  const getMix = (mix: number): number[] =>
+    lean.map((quantity, index) => Math.round(quantity + mix * ((rich[index] as number) - quantity)));
+
+  const goal = (target.minGrade + target.maxGrade) / 2;
+  let best: { quantities: number[]; tonnage: number; grade: number } | null = null;
+  let leanest = Infinity;
+  let richest = -Infinity;
+  for (let sample = 0; sample <= MIX_SAMPLES; sample += 1) {
+    const quantities = getMix(sample / MIX_SAMPLES);
+    const blend = getBlend(candidates, quantities);
+    leanest = Math.min(leanest, blend.grade);
+    richest = Math.max(richest, blend.grade);
+    if (!best || Math.abs(blend.grade - goal) < Math.abs(best.grade - goal)) {
+      best = { quantities, ...blend };
+    }
+  }
+
+  if (!best || best.grade < target.minGrade - 1e-9 || best.grade > target.maxGrade + 1e-9) {
+    return {
+      feasible: false,
+      reason: richest < target.minGrade
+        ? `The richest ${target.tonnage.toFixed(0)} t blend the faces reach averages ${formatGrade(richest)}, below the minimum of ${formatGrade(target.minGrade)}.`
+        : leanest > target.maxGrade
+          ? `The leanest ${target.tonnage.toFixed(0)} t blend the faces reach averages ${formatGrade(leanest)}, above the maximum of ${formatGrade(target.maxGrade)}.`
+          : `No mix of the candidates digs an average between ${formatGrade(target.minGrade)} and ${formatGrade(target.maxGrade)}.`,
+    };
+  }
+
+  const { quantities } = best;
+  return {
+    feasible: true,
+    quantities: candidates
+      .map((candidate, index) => {
+        const quantity = quantities[index] as number;
+        const take = getTake(candidate, quantity);
+        return {
+          regionKey: candidate.regionKey,
+          regionId: candidate.regionId,
+          quantity,
+          grade: take.assayed > 0 ? take.grade / take.assayed : 0,
+        };
+      })
+      .filter((entry) => entry.quantity > 0),
+    tonnage: best.tonnage,
+    grade: best.grade,
+  };
+}
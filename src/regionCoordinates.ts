@@ -0,0 +1,84 @@
+import { getSignedArea, isSimplePolygon } from "./geometry";
+
+/** Outlines enclosing less than this share of their bounding square are treated as flat. */
+const MIN_AREA_RATIO = 1e-9;
+
+/** A region typed in from survey, in real-world (mine-grid) coordinates. */
+export interface RegionCoordinates {
+  footprint: Array<{ x: number; y: number }>;
+  minZ: number;
+  maxZ: number;
+}
+
+export interface ParsedVertexList {
+  vertices: Array<{ x: number; y: number }>;
+  /** 1-based line numbers that are not an x, y pair. */
+  invalidLines: number[];
+}
+
+/**
+ * One vertex per line, easting then northing, split by commas, tabs or spaces so rows pasted
+ * from a spreadsheet or CSV work. Anything after the second number (a z column, say) is ignored,
+ * and a last vertex that repeats the first is dropped.
+ */
+export function parseVertexList(text: string): ParsedVertexList {
+  const vertices: Array<{ x: number; y: number }> = [];
+  const invalidLines: number[] = [];
+
+  text.split(/\r?\n/).forEach((line, index) => {
+    const trimmed = line.trim();
+    if (trimmed.length === 0) {
+      return;
+    }
+
+    const [xText, yText] = trimmed.split(/[\s,;]+/);
+    const x = Number(xText);
+    const y = Number(yText);
+    if (xText === undefined || yText === undefined || !Number.isFinite(x) || !Number.isFinite(y)) {
+      invalidLines.push(index + 1);
+      return;
+    }
+    vertices.push({ x, y });
+  });
+
+  const first = vertices[0];
+  const last = vertices[vertices.length - 1];
+  if (vertices.length > 1 && first && last && first.x === last.x && first.y === last.y) {
+    vertices.pop();
+  }
+
+  return { vertices, invalidLines };
+}
+
+/** Whether the vertices enclose no real area, e.g. because they all lie on one line. */
+function isFlatOutline(vertices: Array<{ x: number; y: number }>): boolean {
+  const xs = vertices.map((vertex) => vertex.x);
+  const ys = vertices.map((vertex) => vertex.y);
+  const extent = Math.max(Math.max(...xs) - Math.min(...xs), Math.max(...ys) - Math.min(...ys));
+  return Math.abs(getSignedArea(vertices)) <= MIN_AREA_RATIO * extent * extent;
+}
+
+/** What is wrong with the typed region, or null when it can be created. */
+export function getRegionCoordinatesError(parsed: ParsedVertexList, minZ: number, maxZ: number): string | null {
+  if (parsed.invalidLines.length > 0) {
+    return parsed.invalidLines.length === 1
+      ? `Line ${parsed.invalidLines[0]} is not an x, y pair.`
+      : `Lines ${parsed.invalidLines.join(", ")} are not x, y pairs.`;
+  }
+  if (parsed.vertices.length < 3) {
+    return "Enter at least three vertices.";
+  }
+  if (!isSimplePolygon(parsed.vertices)) {
+    return "The outline crosses itself or repeats a vertex.";
+  }
+  if (isFlatOutline(parsed.vertices)) {
+    return "The outline encloses no area.";
+  }
+  if (!Number.isFinite(minZ) || !Number.isFinite(maxZ)) {
+    return "Enter the minimum and maximum elevation.";
+  }
+  if (minZ >= maxZ) {
+    return "The minimum elevation must be below the maximum.";
+  }
+  return null;
+}
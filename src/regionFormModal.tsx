@@ -1,14 +1,22 @@
-import { useEffect, useRef } from "react";
-import type { RegionMeta } from "./overlay";
+import { useEffect, useMemo, useRef } from "react";
+import type { GradeDistribution } from "./distribution";
+import { GradeDistributionPanel } from "./GradeDistributionPanel";
+import { getRegionAttributeStats, type RegionMeta } from "./overlay";
+import { formatAttributeAverage, getAttributeLabel } from "./points";
 
 interface RegionFormModalProps {
   region: RegionMeta;
+  attribute: string;
   onSaveEdit: (regionId: string) => void;
   onCancelEdit: () => void;
+  onDescribeGrades: (regionKeys: string[]) => GradeDistribution | null;
 }
 
 export function RegionFormModal(props: RegionFormModalProps) {
-  const { region, onSaveEdit, onCancelEdit } = props;
+  const { region, attribute, onSaveEdit, onCancelEdit, onDescribeGrades } = props;
+  const stats = getRegionAttributeStats(region, attribute);
+  const distribution = useMemo(() => onDescribeGrades([region.key]), [region.key, onDescribeGrades]);
+  const label = getAttributeLabel(attribute);
   const selectionIDInputRef = useRef<HTMLInputElement | null>(null);
 
   useEffect(() => {
@@ -38,12 +46,16 @@ export function RegionFormModal(props: RegionFormModalProps) {
           <div className="modal-title">Edit Region</div>
           <div className="modal-stats">
             <div>Points: <strong>{region.pointCount}</strong></div>
-            <div>
-              W min/max: <strong>{region.minW.toFixed(3)}</strong> /{" "}
-              <strong>{region.maxW.toFixed(3)}</strong>
-            </div>
-            <div>W avg: <strong>{region.avgW.toFixed(3)}</strong></div>
+            <div>Tonnes: <strong>{region.tonnage.toFixed(0)}</strong></div>
+            {stats.tonnage > 0 ? (
+              <div>
+                {label} min/max: <strong>{stats.min.toFixed(3)}</strong> /{" "}
+                <strong>{stats.max.toFixed(3)}</strong>
+              </div>
+            ) : null}
+            <div>{label} avg: <strong>{formatAttributeAverage(stats, 3)}</strong></div>
           </div>
+          <GradeDistributionPanel distribution={distribution} attribute={attribute} />
           <label className="label">
             Region ID
           </label>
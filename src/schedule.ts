@@ -0,0 +1,26 @@
+import type { Shift } from "./points";
+
+/** Shifts in the order they are worked each day; plan periods step through them. */
+const SHIFT_ORDER: Shift[] = ["day", "night"];
+
+export function getPeriodLabel(period: number): string {
+  const day = Math.floor(period / SHIFT_ORDER.length) + 1;
+  const shift = SHIFT_ORDER[period % SHIFT_ORDER.length] as Shift;
+  return `Day ${day} ${shift}`;
+}
+
+export function normalizePeriod(period: number): number {
+  return Number.isFinite(period) ? Math.max(0, Math.round(period)) : 0;
+}
+
+/** Items in the order they are dug: by period, then plan order within a period. */
+export function getScheduledOrder<T extends { period: number }>(items: T[]): T[] {
+  return items
+    .map((item, index) => ({ item, index }))
+    .sort((a, b) => a.item.period - b.item.period || a.index - b.index)
+    .map(({ item }) => item);
+}
+
+export function getLastPeriod(items: Array<{ period: number }>): number {
+  return items.reduce((last, item) => Math.max(last, item.period), 0);
+}
@@ -1,6 +1,156 @@
 import { serve } from "bun";
 import index from "./index.html";
-import { getPoints } from "./points";
+import { parsePointQuery } from "./points";
+import {
+  getPointSource,
+  getSiteTimeZone,
+  listDatasets,
+  loadPointSourcesConfig,
+  type PointSource,
+} from "./pointSources";
+import {
+  IMPORTED_SOURCE_PREFIX,
+  parseImportRequest,
+  parseImportText,
+  toImportedPoints,
+} from "./pointImport";
+import { subscribeToPoints } from "./pointStream";
+import { createImportedDataset, deleteImportedDataset, listImportedDatasets } from "./importedDatasets";
+import {
+  encodePoints,
+  getPointOffset,
+  POINT_CODEC_CONTENT_TYPE,
+  POINT_CURSOR_HEADER,
+  type PointOffset,
+} from "./pointCodec";
+import {
+  parseStoredPlanItem,
+  parseStoredPlanPayload,
+  parseStoredPrism,
+  parseStoredPrismsPayload,
+  parseStoredScenario,
+  parseStoredScenariosPayload,
+  STORED_PLAN_VERSION,
+  type StoredPlanPayload,
+  type StoredPrismsPayload,
+  type StoredScenariosPayload,
+} from "./storage";
+import {
+  adoptLegacyPlanItems,
+  claimLegacyRows,
+  deleteDatasetRows,
+  deletePlanItem,
+  deleteRegion,
+  deleteScenario,
+  ensureDefaultScenarioId,
+  getDefaultScenarioId,
+  hasScenario,
+  listPlanItems,
+  listRegions,
+  listScenarios,
+  replacePlanItems,
+  replaceRegions,
+  replaceScenarios,
+  upsertPlanItem,
+  upsertRegion,
+  upsertScenario,
+} from "./store";
+
+async function readJson(req: Request): Promise<unknown> {
+  try {
+    return await req.json();
+  } catch {
+    return null;
+  }
+}
+
+function badRequest(message: string): Response {
+  return new Response(message, { status: 400 });
+}
+
+function notFound(): Response {
+  return new Response("Not found", { status: 404 });
+}
+
+/** Reads an explicit `offsetX`/`offsetY`/`offsetZ` so clients can keep one frame across queries. */
+function parsePointOffset(url: URL): PointOffset | null | undefined {
+  const values = ["offsetX", "offsetY", "offsetZ"].map((key) => url.searchParams.get(key));
+  if (values.every((value) => value === null)) {
+    return undefined;
+  }
+
+  const [x, y, z] = values.map(Number);
+  if (!Number.isFinite(x) || !Number.isFinite(y) || !Number.isFinite(z)) {
+    return null;
+  }
+  return { x: x as number, y: y as number, z: z as number };
+}
+
+/**
+ * Where a stream resumes: the last event id on a reconnect, else the `cursor` the client's
+ * points were loaded at. Undefined streams from now; null when malformed.
+ */
+function parseStreamCursor(req: Request, url: URL): number | null | undefined {
+  const raw = req.headers.get("Last-Event-ID") ?? url.searchParams.get("cursor");
+  if (raw === null || raw === "") {
+    return undefined;
+  }
+
+  const cursor = Number(raw);
+  return Number.isInteger(cursor) && cursor >= 0 ? cursor : null;
+}
+
+/** The point source named by the `dataset` parameter, or the configured active source. */
+function resolvePointSource(url: URL): Promise<PointSource | null> {
+  return getPointSource(url.searchParams.get("dataset") || undefined);
+}
+
+/**
+ * The dataset regions and plans are stored against: the `dataset` parameter or the
+ * configured active source. Null when no such dataset exists.
+ */
+async function resolveDatasetId(url: URL): Promise<string | null> {
+  const config = await loadPointSourcesConfig();
+  const datasetId = url.searchParams.get("dataset") || config.active;
+  return (await getPointSource(datasetId)) ? datasetId : null;
+}
+
+/**
+ * The plan scenario `/plan` requests read and write: the `scenario` parameter or the
+ * dataset's first scenario, which writes create if the dataset has none yet. Null when the
+ * dataset has no such scenario.
+ */
+function resolveScenarioId(url: URL, datasetId: string, write = false): string | null {
+  const scenarioId = url.searchParams.get("scenario");
+  if (!scenarioId) {
+    return write ? ensureDefaultScenarioId(datasetId) : getDefaultScenarioId(datasetId);
+  }
+  return hasScenario(datasetId, scenarioId) ? scenarioId : null;
+}
+
+function regionsResponse(datasetId: string): Response {
+  const payload: StoredPrismsPayload = { version: 1, prisms: listRegions(datasetId) };
+  return Response.json(payload);
+}
+
+/** A dataset with no scenarios yet has an empty plan rather than a missing one. */
+function planResponse(datasetId: string, scenarioId: string | null): Response {
+  const payload: StoredPlanPayload = {
+    version: STORED_PLAN_VERSION,
+    plan: scenarioId === null ? [] : listPlanItems(datasetId, scenarioId),
+  };
+  return Response.json(payload);
+}
+
+function scenariosResponse(datasetId: string): Response {
+  const payload: StoredScenariosPayload = { version: STORED_PLAN_VERSION, scenarios: listScenarios(datasetId) };
+  return Response.json(payload);
+}
+
+// Rows saved before datasets existed were drawn against the active dataset, and plan items
+// saved before scenarios existed belong in its first scenario.
+claimLegacyRows((await loadPointSourcesConfig()).active);
+adoptLegacyPlanItems();
 
 const server = serve({
   port: 8080,
@@ -10,11 +160,305 @@ const server = serve({
 
     "/points": {
       async GET(req) {
-        const points = await getPoints();
+        const url = new URL(req.url);
+        const query = parsePointQuery(url, await getSiteTimeZone());
+        if (!query) {
+          return badRequest("Invalid from, to or shift parameter");
+        }
+        const source = await resolvePointSource(url);
+        if (!source) {
+          return notFound();
+        }
+        const points = await source.getPoints(query);
         return Response.json(points);
       }
     },
 
+    "/points.bin": {
+      async GET(req) {
+        const url = new URL(req.url);
+        const query = parsePointQuery(url, await getSiteTimeZone());
+        const offset = parsePointOffset(url);
+        if (!query || offset === null) {
+          return badRequest("Invalid from, to, shift or offset parameter");
+        }
+        const source = await resolvePointSource(url);
+        if (!source) {
+          return notFound();
+        }
+        const { points, cursor } = await source.getPointsWithCursor(query);
+        return new Response(encodePoints(points, offset ?? getPointOffset(points)), {
+          headers: { "Content-Type": POINT_CODEC_CONTENT_TYPE, [POINT_CURSOR_HEADER]: String(cursor) },
+        });
+      }
+    },
+
+    "/points/stream": {
+      async GET(req, server) {
+        const url = new URL(req.url);
+        const query = parsePointQuery(url, await getSiteTimeZone());
+        const cursor = parseStreamCursor(req, url);
+        if (!query || cursor === null) {
+          return badRequest("Invalid from, to, shift or cursor parameter");
+        }
+        const source = await resolvePointSource(url);
+        if (!source) {
+          return notFound();
+        }
+
+        // Server-Sent Events stay open between dumps, so opt out of the idle timeout.
+        server.timeout(req, 0);
+
+        const encoder = new TextEncoder();
+        let unsubscribe = (): void => {};
+        // Set once the stream ends either way, after which events have nowhere to go.
+        let closed = false;
+        const stream = new ReadableStream<Uint8Array>({
+          async start(controller) {
+            const send = (event: string, data: unknown, id?: number): void => {
+              if (closed) {
+                return;
+              }
+              const idField = id === undefined ? "" : `id: ${id}\n`;
+              controller.enqueue(encoder.encode(`${idField}event: ${event}\ndata: ${JSON.stringify(data)}\n\n`));
+            };
+            const close = (): void => {
+              if (!closed) {
+                closed = true;
+                controller.close();
+              }
+            };
+
+            try {
+              unsubscribe = await subscribeToPoints(source, {
+                query,
+                cursor,
+                // The id comes back as Last-Event-ID when the browser reconnects.
+                onPoints: (points, nextCursor) => send("points", points, nextCursor),
+                onError: (message) => {
+                  send("source-error", { message });
+                  close();
+                },
+              });
+              send("ready", { dataset: source.id });
+            } catch (error) {
+              send("source-error", { message: error instanceof Error ? error.message : String(error) });
+              close();
+            }
+          },
+          cancel() {
+            closed = true;
+            unsubscribe();
+          },
+        });
+        req.signal.addEventListener("abort", () => {
+          closed = true;
+          unsubscribe();
+        });
+
+        return new Response(stream, {
+          headers: {
+            "Content-Type": "text/event-stream",
+            "Cache-Control": "no-cache",
+            Connection: "keep-alive",
+          },
+        });
+      }
+    },
+
+    "/imports": {
+      GET() {
+        return Response.json(listImportedDatasets());
+      },
+      async POST(req) {
+        const request = parseImportRequest(await readJson(req));
+        if (!request) {
+          return badRequest("Expected a name, format, column mapping and file text");
+        }
+
+        const table = parseImportText(request.text, request.format, request.hasHeader);
+        const { points, rejectedCount } = toImportedPoints(table, request.mapping, await getSiteTimeZone());
+        if (points.length === 0) {
+          return badRequest(`No valid rows (${rejectedCount} rejected)`);
+        }
+
+        const dataset = createImportedDataset(request.name, points);
+        return Response.json({
+          dataset,
+          sourceId: IMPORTED_SOURCE_PREFIX + dataset.id,
+          rejectedCount,
+        });
+      }
+    },
+
+    "/imports/:id": {
+      DELETE(req) {
+        if (!deleteImportedDataset(req.params.id)) {
+          return notFound();
+        }
+        deleteDatasetRows(IMPORTED_SOURCE_PREFIX + req.params.id);
+        return new Response(null, { status: 204 });
+      }
+    },
+
+    "/datasets": {
+      async GET() {
+        return Response.json(await listDatasets());
+      }
+    },
+
+    "/regions": {
+      async GET(req) {
+        const datasetId = await resolveDatasetId(new URL(req.url));
+        return datasetId === null ? notFound() : regionsResponse(datasetId);
+      },
+      async PUT(req) {
+        const datasetId = await resolveDatasetId(new URL(req.url));
+        if (datasetId === null) {
+          return notFound();
+        }
+        const prisms = parseStoredPrismsPayload(await readJson(req));
+        if (!prisms) {
+          return badRequest("Expected a regions payload");
+        }
+        replaceRegions(datasetId, prisms);
+        return regionsResponse(datasetId);
+      }
+    },
+
+    "/regions/:key": {
+      async GET(req) {
+        const datasetId = await resolveDatasetId(new URL(req.url));
+        const prism = datasetId === null
+          ? undefined
+          : listRegions(datasetId).find((region) => region.key === req.params.key);
+        return prism ? Response.json(prism) : notFound();
+      },
+      async PUT(req) {
+        const datasetId = await resolveDatasetId(new URL(req.url));
+        if (datasetId === null) {
+          return notFound();
+        }
+        const body = await readJson(req);
+        const prism = parseStoredPrism(body && typeof body === "object" ? { ...body, key: req.params.key } : null);
+        if (!prism) {
+          return badRequest("Expected a region");
+        }
+        upsertRegion(datasetId, prism);
+        return Response.json(prism);
+      },
+      async DELETE(req) {
+        const datasetId = await resolveDatasetId(new URL(req.url));
+        return datasetId !== null && deleteRegion(datasetId, req.params.key)
+          ? new Response(null, { status: 204 })
+          : notFound();
+      }
+    },
+
+    "/scenarios": {
+      async GET(req) {
+        const datasetId = await resolveDatasetId(new URL(req.url));
+        return datasetId === null ? notFound() : scenariosResponse(datasetId);
+      },
+      async PUT(req) {
+        const datasetId = await resolveDatasetId(new URL(req.url));
+        if (datasetId === null) {
+          return notFound();
+        }
+        const scenarios = parseStoredScenariosPayload(await readJson(req));
+        if (!scenarios) {
+          return badRequest("Expected a scenarios payload");
+        }
+        replaceScenarios(datasetId, scenarios);
+        return scenariosResponse(datasetId);
+      }
+    },
+
+    "/scenarios/:id": {
+      async PUT(req) {
+        const datasetId = await resolveDatasetId(new URL(req.url));
+        if (datasetId === null) {
+          return notFound();
+        }
+        const body = await readJson(req);
+        const scenario = parseStoredScenario(body && typeof body === "object" ? { ...body, id: req.params.id } : null);
+        if (!scenario) {
+          return badRequest("Expected a scenario");
+        }
+        upsertScenario(datasetId, scenario);
+        return Response.json(scenario);
+      },
+      async DELETE(req) {
+        const datasetId = await resolveDatasetId(new URL(req.url));
+        return datasetId !== null && deleteScenario(datasetId, req.params.id)
+          ? new Response(null, { status: 204 })
+          : notFound();
+      }
+    },
+
+    "/plan": {
+      async GET(req) {
+        const url = new URL(req.url);
+        const datasetId = await resolveDatasetId(url);
+        if (datasetId === null) {
+          return notFound();
+        }
+        const scenarioId = resolveScenarioId(url, datasetId);
+        return scenarioId === null && url.searchParams.get("scenario")
+          ? notFound()
+          : planResponse(datasetId, scenarioId);
+      },
+      async PUT(req) {
+        const url = new URL(req.url);
+        const datasetId = await resolveDatasetId(url);
+        const scenarioId = datasetId === null ? null : resolveScenarioId(url, datasetId, true);
+        if (datasetId === null || scenarioId === null) {
+          return notFound();
+        }
+        const plan = parseStoredPlanPayload(await readJson(req));
+        if (!plan) {
+          return badRequest("Expected a plan payload");
+        }
+        replacePlanItems(datasetId, scenarioId, plan);
+        return planResponse(datasetId, scenarioId);
+      }
+    },
+
+    "/plan/:id": {
+      async GET(req) {
+        const url = new URL(req.url);
+        const datasetId = await resolveDatasetId(url);
+        const scenarioId = datasetId === null ? null : resolveScenarioId(url, datasetId);
+        const item = datasetId === null || scenarioId === null
+          ? undefined
+          : listPlanItems(datasetId, scenarioId).find((planItem) => planItem.id === req.params.id);
+        return item ? Response.json(item) : notFound();
+      },
+      async PUT(req) {
+        const url = new URL(req.url);
+        const datasetId = await resolveDatasetId(url);
+        const scenarioId = datasetId === null ? null : resolveScenarioId(url, datasetId, true);
+        if (datasetId === null || scenarioId === null) {
+          return notFound();
+        }
+        const body = await readJson(req);
+        const item = parseStoredPlanItem(body && typeof body === "object" ? { ...body, id: req.params.id } : null);
+        if (!item) {
+          return badRequest("Expected a plan item");
+        }
+        upsertPlanItem(datasetId, scenarioId, item);
+        return Response.json(item);
+      },
+      async DELETE(req) {
+        const url = new URL(req.url);
+        const datasetId = await resolveDatasetId(url);
+        const scenarioId = datasetId === null ? null : resolveScenarioId(url, datasetId);
+        return datasetId !== null && scenarioId !== null && deletePlanItem(datasetId, scenarioId, req.params.id)
+          ? new Response(null, { status: 204 })
+          : notFound();
+      }
+    },
+
     "/test-data": {
       async GET(req) {
         const { generateTestData } = await import("./testData");
@@ -0,0 +1,32 @@
+/** Progress reporting and cancellation for a long computation run on the page. */
+export interface WorkControl {
+  signal?: AbortSignal;
+  /** Share of the work done so far, from 0 to 1. */
+  onProgress?: (fraction: number) => void;
+}
+
+/** Longest stretch of work between yields to the browser, in milliseconds. */
+const SLICE_MS = 16;
+
+/**
+ * Returns a checkpoint for a long loop. Awaiting it yields to the browser once a slice's
+ * worth of time has passed, so input and painting carry on, reports progress and throws
+ * the abort reason once the work is cancelled.
+ */
+export function createCheckpoint(control: WorkControl): (fraction: number) => Promise<void> {
+  let sliceStart = performance.now();
+
+  return async (fraction) => {
+    if (performance.now() - sliceStart < SLICE_MS) {
+      return;
+    }
+    control.onProgress?.(Math.min(1, Math.max(0, fraction)));
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    control.signal?.throwIfAborted();
+    sliceStart = performance.now();
+  };
+}
+
+export function isAbortError(error: unknown): boolean {
+  return error instanceof DOMException && error.name === "AbortError";
+}
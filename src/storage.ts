@@ -1,3 +1,12 @@
+import {
+  DEFAULT_EXTRACTION_INCREMENT,
+  DEFAULT_EXTRACTION_MODE,
+  DEFAULT_FACE_DIP,
+  clampDip,
+  isExtractionMode,
+  type ExtractionMode,
+} from "./extraction";
+
 export interface StoredPrismPoint {
   x: number;
   y: number;
@@ -11,7 +20,7 @@ export interface StoredPrism {
   footprint: StoredPrismPoint[];
 }
 
-interface StoredPrismsPayload {
+export interface StoredPrismsPayload {
   version: 1;
   prisms: StoredPrism[];
 }
@@ -19,17 +28,55 @@ interface StoredPrismsPayload {
 export interface StoredPlanItem {
   id: string;
   regionKey: string;
+  period: number;
   angle: number;
+  dip: number;
+  mode: ExtractionMode;
+  increment: number;
   quantity: number;
+  /** Set on items saved when quantities were point counts rather than tonnes. */
+  pointQuantity?: true;
 }
 
-interface StoredPlanPayload {
-  version: 1;
+/**
+ * Plan payloads up to version 1 held point counts; from version 2 quantities are tonnes
+ * unless an item says otherwise.
+ */
+export const STORED_PLAN_VERSION = 2;
+
+export interface StoredPlanPayload {
+  version: 1 | 2;
+  plan: StoredPlanItem[];
+}
+
+/** A named alternative plan for the same dataset. */
+export interface StoredScenario {
+  id: string;
+  name: string;
   plan: StoredPlanItem[];
 }
 
+export interface StoredScenariosPayload {
+  version: 1 | 2;
+  scenarios: StoredScenario[];
+}
+
+/** Name given to the scenario that holds a plan saved before scenarios existed. */
+export const DEFAULT_SCENARIO_NAME = "Base plan";
+
 const STORAGE_KEY = "rom-vis-web.prisms.v1";
 const PLAN_STORAGE_KEY = "rom-vis-web.plan.v1";
+const SCENARIOS_STORAGE_KEY = "rom-vis-web.scenarios.v1";
+const ACTIVE_SCENARIO_STORAGE_KEY = "rom-vis-web.activeScenario.v1";
+const SYNCED_SUFFIX = ".synced";
+/** Suffix of the server copy that local edits were made against. */
+const BASE_SUFFIX = ".base";
+/** Older builds flagged local copies the server had not seen, rather than ones it had. */
+const PENDING_SUFFIX = ".pending";
+
+const REGIONS_URL = "/regions";
+const PLAN_URL = "/plan";
+const SCENARIOS_URL = "/scenarios";
 
 function isFiniteNumber(value: unknown): value is number {
   return typeof value === "number" && Number.isFinite(value);
@@ -48,7 +95,7 @@ function isStoredPrismPoint(value: unknown): value is StoredPrismPoint {
   return isFiniteNumber(point.x) && isFiniteNumber(point.y);
 }
 
-function toStoredPrism(value: unknown): StoredPrism | null {
+export function parseStoredPrism(value: unknown): StoredPrism | null {
   if (!value || typeof value !== "object") {
     return null;
   }
@@ -80,7 +127,8 @@ function toStoredPrism(value: unknown): StoredPrism | null {
   };
 }
 
-function toStoredPlanItem(value: unknown): StoredPlanItem | null {
+/** `pointQuantities` marks an item read from a payload saved before quantities were tonnes. */
+export function parseStoredPlanItem(value: unknown, pointQuantities = false): StoredPlanItem | null {
   if (!value || typeof value !== "object") {
     return null;
   }
@@ -98,91 +146,397 @@ function toStoredPlanItem(value: unknown): StoredPlanItem | null {
   return {
     id: item.id,
     regionKey: item.regionKey,
+    // Items saved before plans were scheduled all fall in the first period.
+    period: isFiniteNumber(item.period) ? Math.max(0, Math.round(item.period)) : 0,
     angle: Math.min(360, Math.max(0, Math.round(item.angle))),
+    // Items saved before extraction modes existed were all vertical faces.
+    dip: isFiniteNumber(item.dip) ? clampDip(Math.round(item.dip)) : DEFAULT_FACE_DIP,
+    mode: isExtractionMode(item.mode) ? item.mode : DEFAULT_EXTRACTION_MODE,
+    increment: isFiniteNumber(item.increment) && item.increment > 0 ? item.increment : DEFAULT_EXTRACTION_INCREMENT,
     quantity: Math.max(0, Math.round(quantity)),
+    ...(pointQuantities || item.pointQuantity === true ? { pointQuantity: true as const } : {}),
   };
 }
 
-export function loadStoredPrisms(): StoredPrism[] {
-  if (typeof window === "undefined") {
-    return [];
+
+export function parseStoredPrismsPayload(value: unknown): StoredPrism[] | null {
+  if (!value || typeof value !== "object") {
+    return null;
   }
 
-  const raw = window.localStorage.getItem(STORAGE_KEY);
-  if (!raw) {
-    return [];
+  const payload = value as Partial<StoredPrismsPayload>;
+  if (payload.version !== 1 || !Array.isArray(payload.prisms)) {
+    return null;
   }
 
-  try {
-    const payload = JSON.parse(raw) as Partial<StoredPrismsPayload>;
-    if (payload.version !== 1 || !Array.isArray(payload.prisms)) {
-      return [];
+  const prisms: StoredPrism[] = [];
+  for (const prism of payload.prisms) {
+    const normalized = parseStoredPrism(prism);
+    if (normalized) {
+      prisms.push(normalized);
     }
+  }
+  return prisms;
+}
 
-    const prisms: StoredPrism[] = [];
-    for (const prism of payload.prisms) {
-      const normalized = toStoredPrism(prism);
-      if (normalized) {
-        prisms.push(normalized);
-      }
+export function parseStoredPlanPayload(value: unknown): StoredPlanItem[] | null {
+  if (!value || typeof value !== "object") {
+    return null;
+  }
+
+  const payload = value as Partial<StoredPlanPayload>;
+  if ((payload.version !== 1 && payload.version !== 2) || !Array.isArray(payload.plan)) {
+    return null;
+  }
+
+  const plan: StoredPlanItem[] = [];
+  for (const item of payload.plan) {
+    const normalized = parseStoredPlanItem(item, payload.version === 1);
+    if (normalized) {
+      plan.push(normalized);
     }
-    return prisms;
-  } catch {
-    return [];
   }
+  return plan;
 }
 
-export function saveStoredPrisms(prisms: StoredPrism[]): void {
-  if (typeof window === "undefined") {
-    return;
+export function parseStoredScenario(value: unknown, pointQuantities = false): StoredScenario | null {
+  if (!value || typeof value !== "object") {
+    return null;
   }
 
-  const payload: StoredPrismsPayload = {
-    version: 1,
-    prisms,
+  const scenario = value as Partial<StoredScenario>;
+  if (!isNonEmptyString(scenario.id) || typeof scenario.name !== "string" || !Array.isArray(scenario.plan)) {
+    return null;
+  }
+
+  const plan: StoredPlanItem[] = [];
+  for (const item of scenario.plan) {
+    const normalized = parseStoredPlanItem(item, pointQuantities);
+    if (normalized) {
+      plan.push(normalized);
+    }
+  }
+  return {
+    id: scenario.id,
+    name: scenario.name.trim() || DEFAULT_SCENARIO_NAME,
+    plan,
   };
+}
+
+export function parseStoredScenariosPayload(value: unknown): StoredScenario[] | null {
+  if (!value || typeof value !== "object") {
+    return null;
+  }
+
+  const payload = value as Partial<StoredScenariosPayload>;
+  if ((payload.version !== 1 && payload.version !== 2) || !Array.isArray(payload.scenarios)) {
+    return null;
+  }
+
+  const scenarios: StoredScenario[] = [];
+  for (const scenario of payload.scenarios) {
+    const normalized = parseStoredScenario(scenario, payload.version === 1);
+    if (normalized) {
+      scenarios.push(normalized);
+    }
+  }
+  return scenarios;
+}
+
+function getDatasetKey(key: string, datasetId: string): string {
+  return `${key}:${datasetId}`;
+}
+
+function getDatasetUrl(url: string, datasetId: string): string {
+  return `${url}?dataset=${encodeURIComponent(datasetId)}`;
+}
+
+/** The per-item routes a list is saved through, so a save only touches the items it changed. */
+interface ItemRoutes<T> {
+  getId: (item: T) => string;
+  getUrl: (id: string) => string;
+}
+
+/** Pushes still running or waiting per local copy, so saves reach the server in order. */
+const pushQueues = new Map<string, Promise<boolean>>();
+
+function readLocalPayload(key: string): unknown {
+  const raw = window.localStorage.getItem(key);
+  if (!raw) {
+    return null;
+  }
+
+  try {
+    return JSON.parse(raw);
+  } catch {
+    return null;
+  }
+}
+
+function writeLocalPayload(key: string, payload: unknown): void {
+  window.localStorage.setItem(key, JSON.stringify(payload));
+}
 
-  window.localStorage.setItem(STORAGE_KEY, JSON.stringify(payload));
+/** Whether the local copy is known to match the server; false for edits made offline. */
+function isLocalSynced(key: string): boolean {
+  return window.localStorage.getItem(key + SYNCED_SUFFIX) === "true";
 }
 
-export function loadStoredPlan(): StoredPlanItem[] {
+function setLocalSynced(key: string, synced: boolean): void {
+  if (synced) {
+    window.localStorage.setItem(key + SYNCED_SUFFIX, "true");
+  } else {
+    window.localStorage.removeItem(key + SYNCED_SUFFIX);
+  }
+}
+
+async function fetchPayload(url: string): Promise<unknown> {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Failed to load ${url}: ${response.status}`);
+  }
+  return response.json();
+}
+
+async function sendItemRequest(url: string, init: RequestInit): Promise<boolean> {
+  try {
+    const response = await fetch(url, init);
+    // An item someone else already deleted needs no deleting.
+    return response.ok || (init.method === "DELETE" && response.status === 404);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Sends the items that differ between the local copy and the server copy it was edited
+ * against, leaving other browsers' edits to other items in place.
+ */
+async function pushItemChanges<T>(
+  key: string,
+  parse: (value: unknown) => T[] | null,
+  routes: ItemRoutes<T>,
+): Promise<boolean> {
+  const raw = window.localStorage.getItem(key);
+  const local = parse(readLocalPayload(key)) ?? [];
+  const base = new Map(
+    (parse(readLocalPayload(key + BASE_SUFFIX)) ?? []).map((item) => [routes.getId(item), JSON.stringify(item)]),
+  );
+  const localIds = new Set(local.map(routes.getId));
+
+  const requests = [
+    ...local
+      .filter((item) => base.get(routes.getId(item)) !== JSON.stringify(item))
+      .map((item) =>
+        sendItemRequest(routes.getUrl(routes.getId(item)), {
+          method: "PUT",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(item),
+        })
+      ),
+    ...[...base.keys()]
+      .filter((id) => !localIds.has(id))
+      .map((id) => sendItemRequest(routes.getUrl(id), { method: "DELETE" })),
+  ];
+  const sent = (await Promise.all(requests)).every(Boolean);
+
+  if (sent && raw !== null) {
+    window.localStorage.setItem(key + BASE_SUFFIX, raw);
+  }
+  // A save made while this push ran is still to be sent.
+  setLocalSynced(key, sent && window.localStorage.getItem(key) === raw);
+  return sent;
+}
+
+/** Runs a push after any already queued for the same local copy. */
+function queuePush(key: string, push: () => Promise<boolean>): Promise<boolean> {
+  const next = (pushQueues.get(key) ?? Promise.resolve(true)).then(push);
+  pushQueues.set(key, next);
+  return next;
+}
+
+/**
+ * Loads a payload from the server, falling back to the localStorage copy when the server
+ * cannot be reached. Local changes the server has not seen are pushed first, so what is
+ * read back holds them alongside everyone else's.
+ */
+async function loadPayload<T>(
+  key: string,
+  url: string,
+  parse: (value: unknown) => T[] | null,
+  push: () => Promise<boolean>,
+): Promise<T[]> {
   if (typeof window === "undefined") {
     return [];
   }
 
-  const raw = window.localStorage.getItem(PLAN_STORAGE_KEY);
-  if (!raw) {
-    return [];
+  const local = readLocalPayload(key);
+  if (local !== null && parse(local) !== null && !isLocalSynced(key) && !(await queuePush(key, push))) {
+    return parse(local) ?? [];
   }
 
   try {
-    const payload = JSON.parse(raw) as Partial<StoredPlanPayload>;
-    if (payload.version !== 1 || !Array.isArray(payload.plan)) {
-      return [];
+    const remote = await fetchPayload(url);
+    const parsed = parse(remote);
+    if (parsed) {
+      writeLocalPayload(key, remote);
+      writeLocalPayload(key + BASE_SUFFIX, remote);
+      setLocalSynced(key, true);
+      return parsed;
     }
-
-    const plan: StoredPlanItem[] = [];
-    for (const item of payload.plan) {
-      const normalized = toStoredPlanItem(item);
-      if (normalized) {
-        plan.push(normalized);
-      }
-    }
-    return plan;
   } catch {
-    return [];
+    // Offline: use the last copy we saw.
+  }
+
+  return parse(local) ?? [];
+}
+
+async function savePayload(key: string, payload: unknown, push: () => Promise<boolean>): Promise<void> {
+  if (typeof window === "undefined") {
+    return;
   }
+
+  writeLocalPayload(key, payload);
+  setLocalSynced(key, false);
+  await queuePush(key, push);
+}
+
+function getRegionRoutes(datasetId: string): ItemRoutes<StoredPrism> {
+  return {
+    getId: (prism) => prism.key,
+    getUrl: (key) => getDatasetUrl(`${REGIONS_URL}/${encodeURIComponent(key)}`, datasetId),
+  };
+}
+
+function getPlanRoutes(datasetId: string): ItemRoutes<StoredPlanItem> {
+  return {
+    getId: (item) => item.id,
+    getUrl: (id) => getDatasetUrl(`${PLAN_URL}/${encodeURIComponent(id)}`, datasetId),
+  };
 }
 
-export function saveStoredPlan(plan: StoredPlanItem[]): void {
+function getScenarioRoutes(datasetId: string): ItemRoutes<StoredScenario> {
+  return {
+    getId: (scenario) => scenario.id,
+    getUrl: (id) => getDatasetUrl(`${SCENARIOS_URL}/${encodeURIComponent(id)}`, datasetId),
+  };
+}
+
+/**
+ * Moves regions and plans saved before datasets existed under the default dataset, which
+ * is the cloud they were drawn against.
+ */
+export function adoptLegacyStorage(defaultDatasetId: string): void {
   if (typeof window === "undefined") {
     return;
   }
 
-  const payload: StoredPlanPayload = {
+  for (const key of [STORAGE_KEY, PLAN_STORAGE_KEY]) {
+    const legacy = window.localStorage.getItem(key);
+    const datasetKey = getDatasetKey(key, defaultDatasetId);
+    if (legacy === null) {
+      continue;
+    }
+
+    if (window.localStorage.getItem(datasetKey) === null) {
+      const synced = window.localStorage.getItem(key + PENDING_SUFFIX) !== "true";
+      window.localStorage.setItem(datasetKey, legacy);
+      if (synced) {
+        window.localStorage.setItem(datasetKey + BASE_SUFFIX, legacy);
+      }
+      setLocalSynced(datasetKey, synced);
+    }
+    window.localStorage.removeItem(key);
+    window.localStorage.removeItem(key + PENDING_SUFFIX);
+  }
+}
+
+export function loadStoredPrisms(datasetId: string): Promise<StoredPrism[]> {
+  const key = getDatasetKey(STORAGE_KEY, datasetId);
+  return loadPayload(
+    key,
+    getDatasetUrl(REGIONS_URL, datasetId),
+    parseStoredPrismsPayload,
+    () => pushItemChanges(key, parseStoredPrismsPayload, getRegionRoutes(datasetId)),
+  );
+}
+
+export function saveStoredPrisms(datasetId: string, prisms: StoredPrism[]): Promise<void> {
+  const payload: StoredPrismsPayload = {
     version: 1,
-    plan,
+    prisms,
+  };
+
+  const key = getDatasetKey(STORAGE_KEY, datasetId);
+  return savePayload(key, payload, () => pushItemChanges(key, parseStoredPrismsPayload, getRegionRoutes(datasetId)));
+}
+
+export function loadStoredPlan(datasetId: string): Promise<StoredPlanItem[]> {
+  const key = getDatasetKey(PLAN_STORAGE_KEY, datasetId);
+  return loadPayload(
+    key,
+    getDatasetUrl(PLAN_URL, datasetId),
+    parseStoredPlanPayload,
+    () => pushItemChanges(key, parseStoredPlanPayload, getPlanRoutes(datasetId)),
+  );
+}
+
+/**
+ * Loads the dataset's plan scenarios. A dataset with none yet gets one scenario holding
+ * its single plan from before scenarios existed.
+ */
+export async function loadStoredScenarios(datasetId: string): Promise<StoredScenario[]> {
+  const key = getDatasetKey(SCENARIOS_STORAGE_KEY, datasetId);
+  const scenarios = await loadPayload(
+    key,
+    getDatasetUrl(SCENARIOS_URL, datasetId),
+    parseStoredScenariosPayload,
+    () => pushItemChanges(key, parseStoredScenariosPayload, getScenarioRoutes(datasetId)),
+  );
+  if (scenarios.length > 0) {
+    return scenarios;
+  }
+
+  return [{ id: crypto.randomUUID(), name: DEFAULT_SCENARIO_NAME, plan: await loadStoredPlan(datasetId) }];
+}
+
+/**
+ * Converts quantities saved as point counts to tonnes at each region's mean mass per point.
+ * Done once, when the scenarios are next saved.
+ */
+export function convertPointQuantities(
+  scenarios: StoredScenario[],
+  getMassPerPoint: (regionKey: string) => number,
+): StoredScenario[] {
+  return scenarios.map((scenario) => ({
+    ...scenario,
+    plan: scenario.plan.map(({ pointQuantity, ...item }) =>
+      pointQuantity ? { ...item, quantity: Math.round(item.quantity * getMassPerPoint(item.regionKey)) } : item
+    ),
+  }));
+}
+
+export function saveStoredScenarios(datasetId: string, scenarios: StoredScenario[]): Promise<void> {
+  const payload: StoredScenariosPayload = {
+    version: STORED_PLAN_VERSION,
+    scenarios,
   };
 
-  window.localStorage.setItem(PLAN_STORAGE_KEY, JSON.stringify(payload));
+  const key = getDatasetKey(SCENARIOS_STORAGE_KEY, datasetId);
+  return savePayload(key, payload, () => pushItemChanges(key, parseStoredScenariosPayload, getScenarioRoutes(datasetId)));
+}
+
+/** The scenario last open for a dataset; kept per browser rather than on the server. */
+export function loadActiveScenarioId(datasetId: string): string | null {
+  if (typeof window === "undefined") {
+    return null;
+  }
+  return window.localStorage.getItem(getDatasetKey(ACTIVE_SCENARIO_STORAGE_KEY, datasetId));
+}
+
+export function saveActiveScenarioId(datasetId: string, scenarioId: string): void {
+  if (typeof window === "undefined") {
+    return;
+  }
+  window.localStorage.setItem(getDatasetKey(ACTIVE_SCENARIO_STORAGE_KEY, datasetId), scenarioId);
 }
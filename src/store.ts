@@ -0,0 +1,462 @@
+import { Database } from "bun:sqlite";
+import { STORE_DB_PATH } from "./db";
+import {
+  DEFAULT_EXTRACTION_INCREMENT,
+  DEFAULT_EXTRACTION_MODE,
+  DEFAULT_FACE_DIP,
+  isExtractionMode,
+} from "./extraction";
+import { DEFAULT_SCENARIO_NAME, type StoredPlanItem, type StoredPrism, type StoredPrismPoint, type StoredScenario } from "./storage";
+
+/** Dataset id of rows written before regions and plans were scoped per dataset. */
+const LEGACY_DATASET_ID = "";
+
+/** Scenario id of plan items written before a dataset could hold several plans. */
+const LEGACY_SCENARIO_ID = "";
+
+interface RegionRow {
+  key: string;
+  region_id: string;
+  min_z: number;
+  max_z: number;
+  footprint: string;
+}
+
+interface ScenarioRow {
+  id: string;
+  name: string;
+}
+
+interface PlanItemRow {
+  id: string;
+  region_key: string;
+  period: number;
+  angle: number;
+  dip: number;
+  mode: string;
+  increment: number;
+  quantity: number;
+  point_quantity: number;
+}
+
+const REGION_COLUMNS = `
+  key TEXT NOT NULL,
+  dataset_id TEXT NOT NULL,
+  region_id TEXT NOT NULL,
+  min_z REAL NOT NULL,
+  max_z REAL NOT NULL,
+  footprint TEXT NOT NULL,
+  sort_order INTEGER NOT NULL,
+  PRIMARY KEY (dataset_id, key)
+`;
+
+const PLAN_ITEM_COLUMNS = `
+  id TEXT NOT NULL,
+  dataset_id TEXT NOT NULL,
+  scenario_id TEXT NOT NULL,
+  region_key TEXT NOT NULL,
+  period INTEGER NOT NULL,
+  angle REAL NOT NULL,
+  dip REAL NOT NULL,
+  mode TEXT NOT NULL,
+  increment REAL NOT NULL,
+  quantity REAL NOT NULL,
+  point_quantity INTEGER NOT NULL DEFAULT 0,
+  sort_order INTEGER NOT NULL,
+  PRIMARY KEY (dataset_id, scenario_id, id)
+`;
+
+const SCENARIO_COLUMNS = `
+  id TEXT NOT NULL,
+  dataset_id TEXT NOT NULL,
+  name TEXT NOT NULL,
+  sort_order INTEGER NOT NULL,
+  PRIMARY KEY (dataset_id, id)
+`;
+
+/** Adds a column to a table created by an older version of the store or the imports store. */
+export function ensureColumn(db: Database, table: string, column: string, definition: string): void {
+  const columns = db.query(`PRAGMA table_info(${table})`).all() as Array<{ name: string }>;
+  if (!columns.some((info) => info.name === column)) {
+    db.run(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+  }
+}
+
+/**
+ * Rebuilds a table created by an older version of the store, whose rows were keyed across
+ * datasets or scenarios, so that it is keyed by the given columns.
+ */
+function ensurePrimaryKey(db: Database, table: string, key: string[], columns: string): void {
+  const info = db.query(`PRAGMA table_info(${table})`).all() as Array<{ name: string; pk: number }>;
+  const current = info
+    .filter((column) => column.pk > 0)
+    .sort((a, b) => a.pk - b.pk)
+    .map((column) => column.name);
+  if (current.join() === key.join()) {
+    return;
+  }
+
+  const names = info.map((column) => column.name).join(", ");
+  db.transaction(() => {
+    db.run(`CREATE TABLE ${table}_rekeyed (${columns})`);
+    db.run(`INSERT INTO ${table}_rekeyed (${names}) SELECT ${names} FROM ${table}`);
+    db.run(`DROP TABLE ${table}`);
+    db.run(`ALTER TABLE ${table}_rekeyed RENAME TO ${table}`);
+  })();
+}
+
+/** Set once this process has brought the store's tables up to date. */
+let storeMigrated = false;
+
+/** Creates the tables and upgrades ones left by older versions of the store. */
+function migrateStore(db: Database): void {
+  db.run(`CREATE TABLE IF NOT EXISTS Regions (${REGION_COLUMNS})`);
+  db.run(`CREATE TABLE IF NOT EXISTS PlanItems (${PLAN_ITEM_COLUMNS})`);
+  db.run(`CREATE TABLE IF NOT EXISTS PlanScenarios (${SCENARIO_COLUMNS})`);
+
+  ensureColumn(db, "Regions", "dataset_id", `TEXT NOT NULL DEFAULT '${LEGACY_DATASET_ID}'`);
+  ensureColumn(db, "PlanItems", "dataset_id", `TEXT NOT NULL DEFAULT '${LEGACY_DATASET_ID}'`);
+  ensureColumn(db, "PlanItems", "period", "INTEGER NOT NULL DEFAULT 0");
+  ensureColumn(db, "PlanItems", "dip", `REAL NOT NULL DEFAULT ${DEFAULT_FACE_DIP}`);
+  ensureColumn(db, "PlanItems", "mode", `TEXT NOT NULL DEFAULT '${DEFAULT_EXTRACTION_MODE}'`);
+  ensureColumn(db, "PlanItems", "increment", `REAL NOT NULL DEFAULT ${DEFAULT_EXTRACTION_INCREMENT}`);
+  ensureColumn(db, "PlanItems", "scenario_id", `TEXT NOT NULL DEFAULT '${LEGACY_SCENARIO_ID}'`);
+  // Quantities saved before this column existed are point counts.
+  ensureColumn(db, "PlanItems", "point_quantity", "INTEGER NOT NULL DEFAULT 1");
+  ensurePrimaryKey(db, "Regions", ["dataset_id", "key"], REGION_COLUMNS);
+  ensurePrimaryKey(db, "PlanItems", ["dataset_id", "scenario_id", "id"], PLAN_ITEM_COLUMNS);
+  ensurePrimaryKey(db, "PlanScenarios", ["dataset_id", "id"], SCENARIO_COLUMNS);
+}
+
+function openStore(): Database {
+  const db = new Database(STORE_DB_PATH, { create: true });
+  if (!storeMigrated) {
+    migrateStore(db);
+    storeMigrated = true;
+  }
+  return db;
+}
+
+function withStore<T>(fn: (db: Database) => T): T {
+  const db = openStore();
+
+  try {
+    return fn(db);
+  } finally {
+    db.close();
+  }
+}
+
+function fromRegionRow(row: RegionRow): StoredPrism {
+  return {
+    key: row.key,
+    regionId: row.region_id,
+    minZ: row.min_z,
+    maxZ: row.max_z,
+    footprint: JSON.parse(row.footprint) as StoredPrismPoint[],
+  };
+}
+
+function fromPlanItemRow(row: PlanItemRow): StoredPlanItem {
+  return {
+    id: row.id,
+    regionKey: row.region_key,
+    period: row.period,
+    angle: row.angle,
+    dip: row.dip,
+    mode: isExtractionMode(row.mode) ? row.mode : DEFAULT_EXTRACTION_MODE,
+    increment: row.increment,
+    quantity: row.quantity,
+    ...(row.point_quantity ? { pointQuantity: true as const } : {}),
+  };
+}
+
+function getNextSortOrder(db: Database, table: string, datasetId: string): number {
+  const row = db.query(
+    `SELECT COALESCE(MAX(sort_order), -1) + 1 AS next FROM ${table} WHERE dataset_id = ?`,
+  ).get(datasetId) as { next: number };
+  return row.next;
+}
+
+function selectDefaultScenarioId(db: Database, datasetId: string): string | null {
+  const row = db.query(
+    "SELECT id FROM PlanScenarios WHERE dataset_id = ? ORDER BY sort_order LIMIT 1",
+  ).get(datasetId) as { id: string } | null;
+  return row?.id ?? null;
+}
+
+/** Returns the dataset's first scenario, creating one if it has none. */
+function ensureScenario(db: Database, datasetId: string): string {
+  const existingId = selectDefaultScenarioId(db, datasetId);
+  if (existingId !== null) {
+    return existingId;
+  }
+
+  const id = crypto.randomUUID();
+  db.query("INSERT INTO PlanScenarios (id, dataset_id, name, sort_order) VALUES (?, ?, ?, ?)").run(
+    id,
+    datasetId,
+    DEFAULT_SCENARIO_NAME,
+    getNextSortOrder(db, "PlanScenarios", datasetId),
+  );
+  return id;
+}
+
+function selectPlanItems(db: Database, datasetId: string, scenarioId: string): StoredPlanItem[] {
+  const rows = db.query(
+    "SELECT id, region_key, period, angle, dip, mode, increment, quantity, point_quantity FROM PlanItems WHERE dataset_id = ? AND scenario_id = ? ORDER BY sort_order",
+  ).all(datasetId, scenarioId) as PlanItemRow[];
+  return rows.map(fromPlanItemRow);
+}
+
+function insertPlanItems(db: Database, datasetId: string, scenarioId: string, plan: StoredPlanItem[]): void {
+  const insert = db.prepare(`
+    INSERT OR REPLACE INTO PlanItems (id, dataset_id, scenario_id, region_key, period, angle, dip, mode, increment, quantity, point_quantity, sort_order)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `);
+
+  plan.forEach((item, index) => {
+    insert.run(
+      item.id,
+      datasetId,
+      scenarioId,
+      item.regionKey,
+      item.period,
+      item.angle,
+      item.dip,
+      item.mode,
+      item.increment,
+      item.quantity,
+      item.pointQuantity ? 1 : 0,
+      index,
+    );
+  });
+}
+
+/**
+ * Hands rows saved before datasets existed to the given dataset. Run once at startup for the
+ * default dataset, which is the one those rows were drawn against; rows whose key the
+ * dataset already uses are left where they are.
+ */
+export function claimLegacyRows(datasetId: string): void {
+  withStore((db) => {
+    db.transaction(() => {
+      db.query("UPDATE OR IGNORE Regions SET dataset_id = ? WHERE dataset_id = ?").run(datasetId, LEGACY_DATASET_ID);
+      db.query("UPDATE OR IGNORE PlanItems SET dataset_id = ? WHERE dataset_id = ?").run(datasetId, LEGACY_DATASET_ID);
+      db.query("UPDATE OR IGNORE PlanScenarios SET dataset_id = ? WHERE dataset_id = ?").run(datasetId, LEGACY_DATASET_ID);
+    })();
+  });
+}
+
+/**
+ * Moves plan items saved before a dataset could hold several plans into the dataset's first
+ * scenario. Run once at startup, after legacy rows are claimed.
+ */
+export function adoptLegacyPlanItems(): void {
+  withStore((db) => {
+    db.transaction(() => {
+      const rows = db.query(
+        "SELECT DISTINCT dataset_id FROM PlanItems WHERE scenario_id = ?",
+      ).all(LEGACY_SCENARIO_ID) as Array<{ dataset_id: string }>;
+
+      for (const row of rows) {
+        db.query("UPDATE PlanItems SET scenario_id = ? WHERE dataset_id = ? AND scenario_id = ?").run(
+          ensureScenario(db, row.dataset_id),
+          row.dataset_id,
+          LEGACY_SCENARIO_ID,
+        );
+      }
+    })();
+  });
+}
+
+export function listRegions(datasetId: string): StoredPrism[] {
+  return withStore((db) => {
+    const rows = db.query(
+      "SELECT key, region_id, min_z, max_z, footprint FROM Regions WHERE dataset_id = ? ORDER BY sort_order",
+    ).all(datasetId) as RegionRow[];
+    return rows.map(fromRegionRow);
+  });
+}
+
+export function replaceRegions(datasetId: string, prisms: StoredPrism[]): void {
+  withStore((db) => {
+    const insert = db.prepare(`
+      INSERT OR REPLACE INTO Regions (key, dataset_id, region_id, min_z, max_z, footprint, sort_order)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+    `);
+
+    db.transaction(() => {
+      db.query("DELETE FROM Regions WHERE dataset_id = ?").run(datasetId);
+      prisms.forEach((prism, index) => {
+        insert.run(
+          prism.key,
+          datasetId,
+          prism.regionId,
+          prism.minZ,
+          prism.maxZ,
+          JSON.stringify(prism.footprint),
+          index,
+        );
+      });
+    })();
+  });
+}
+
+export function upsertRegion(datasetId: string, prism: StoredPrism): void {
+  withStore((db) => {
+    db.query(`
+      INSERT INTO Regions (key, dataset_id, region_id, min_z, max_z, footprint, sort_order) VALUES (?, ?, ?, ?, ?, ?, ?)
+      ON CONFLICT(dataset_id, key) DO UPDATE SET
+        region_id = excluded.region_id,
+        min_z = excluded.min_z,
+        max_z = excluded.max_z,
+        footprint = excluded.footprint
+    `).run(
+      prism.key,
+      datasetId,
+      prism.regionId,
+      prism.minZ,
+      prism.maxZ,
+      JSON.stringify(prism.footprint),
+      getNextSortOrder(db, "Regions", datasetId),
+    );
+  });
+}
+
+/** Deletes a region along with any plan items that extract from it. */
+export function deleteRegion(datasetId: string, key: string): boolean {
+  return withStore((db) => {
+    const result = db.transaction(() => {
+      db.query("DELETE FROM PlanItems WHERE dataset_id = ? AND region_key = ?").run(datasetId, key);
+      return db.query("DELETE FROM Regions WHERE dataset_id = ? AND key = ?").run(datasetId, key);
+    })();
+    return result.changes > 0;
+  });
+}
+
+export function listScenarios(datasetId: string): StoredScenario[] {
+  return withStore((db) => {
+    const rows = db.query(
+      "SELECT id, name FROM PlanScenarios WHERE dataset_id = ? ORDER BY sort_order",
+    ).all(datasetId) as ScenarioRow[];
+    return rows.map((row) => ({ id: row.id, name: row.name, plan: selectPlanItems(db, datasetId, row.id) }));
+  });
+}
+
+export function replaceScenarios(datasetId: string, scenarios: StoredScenario[]): void {
+  withStore((db) => {
+    const insert = db.prepare("INSERT OR REPLACE INTO PlanScenarios (id, dataset_id, name, sort_order) VALUES (?, ?, ?, ?)");
+
+    db.transaction(() => {
+      db.query("DELETE FROM PlanItems WHERE dataset_id = ?").run(datasetId);
+      db.query("DELETE FROM PlanScenarios WHERE dataset_id = ?").run(datasetId);
+      scenarios.forEach((scenario, index) => {
+        insert.run(scenario.id, datasetId, scenario.name, index);
+        insertPlanItems(db, datasetId, scenario.id, scenario.plan);
+      });
+    })();
+  });
+}
+
+/** Saves one scenario, replacing its plan but leaving the dataset's other scenarios alone. */
+export function upsertScenario(datasetId: string, scenario: StoredScenario): void {
+  withStore((db) => {
+    db.transaction(() => {
+      db.query(`
+        INSERT INTO PlanScenarios (id, dataset_id, name, sort_order) VALUES (?, ?, ?, ?)
+        ON CONFLICT(dataset_id, id) DO UPDATE SET name = excluded.name
+      `).run(scenario.id, datasetId, scenario.name, getNextSortOrder(db, "PlanScenarios", datasetId));
+      db.query("DELETE FROM PlanItems WHERE dataset_id = ? AND scenario_id = ?").run(datasetId, scenario.id);
+      insertPlanItems(db, datasetId, scenario.id, scenario.plan);
+    })();
+  });
+}
+
+/** Deletes a scenario along with its plan. */
+export function deleteScenario(datasetId: string, scenarioId: string): boolean {
+  return withStore((db) => {
+    const result = db.transaction(() => {
+      db.query("DELETE FROM PlanItems WHERE dataset_id = ? AND scenario_id = ?").run(datasetId, scenarioId);
+      return db.query("DELETE FROM PlanScenarios WHERE dataset_id = ? AND id = ?").run(datasetId, scenarioId);
+    })();
+    return result.changes > 0;
+  });
+}
+
+/** The scenario plan requests without an explicit scenario read; null while the dataset has none. */
+export function getDefaultScenarioId(datasetId: string): string | null {
+  return withStore((db) => selectDefaultScenarioId(db, datasetId));
+}
+
+/** The scenario plan requests without an explicit scenario write, created on first use. */
+export function ensureDefaultScenarioId(datasetId: string): string {
+  return withStore((db) => db.transaction(() => ensureScenario(db, datasetId))());
+}
+
+export function hasScenario(datasetId: string, scenarioId: string): boolean {
+  return withStore((db) =>
+    db.query("SELECT 1 FROM PlanScenarios WHERE id = ? AND dataset_id = ?").get(scenarioId, datasetId) !== null,
+  );
+}
+
+export function listPlanItems(datasetId: string, scenarioId: string): StoredPlanItem[] {
+  return withStore((db) => selectPlanItems(db, datasetId, scenarioId));
+}
+
+export function replacePlanItems(datasetId: string, scenarioId: string, plan: StoredPlanItem[]): void {
+  withStore((db) => {
+    db.transaction(() => {
+      db.query("DELETE FROM PlanItems WHERE dataset_id = ? AND scenario_id = ?").run(datasetId, scenarioId);
+      insertPlanItems(db, datasetId, scenarioId, plan);
+    })();
+  });
+}
+
+export function upsertPlanItem(datasetId: string, scenarioId: string, item: StoredPlanItem): void {
+  withStore((db) => {
+    db.query(`
+      INSERT INTO PlanItems (id, dataset_id, scenario_id, region_key, period, angle, dip, mode, increment, quantity, point_quantity, sort_order)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      ON CONFLICT(dataset_id, scenario_id, id) DO UPDATE SET
+        region_key = excluded.region_key,
+        period = excluded.period,
+        angle = excluded.angle,
+        dip = excluded.dip,
+        mode = excluded.mode,
+        increment = excluded.increment,
+        quantity = excluded.quantity,
+        point_quantity = excluded.point_quantity
+    `).run(
+      item.id,
+      datasetId,
+      scenarioId,
+      item.regionKey,
+      item.period,
+      item.angle,
+      item.dip,
+      item.mode,
+      item.increment,
+      item.quantity,
+      item.pointQuantity ? 1 : 0,
+      getNextSortOrder(db, "PlanItems", datasetId),
+    );
+  });
+}
+
+export function deletePlanItem(datasetId: string, scenarioId: string, id: string): boolean {
+  return withStore((db) =>
+    db.query("DELETE FROM PlanItems WHERE dataset_id = ? AND scenario_id = ? AND id = ?").run(datasetId, scenarioId, id).changes > 0,
+  );
+}
+
+/** Removes everything stored against a dataset, e.g. when an imported dataset is deleted. */
+export function deleteDatasetRows(datasetId: string): void {
+  withStore((db) => {
+    db.transaction(() => {
+      db.query("DELETE FROM PlanItems WHERE dataset_id = ?").run(datasetId);
+      db.query("DELETE FROM PlanScenarios WHERE dataset_id = ?").run(datasetId);
+      db.query("DELETE FROM Regions WHERE dataset_id = ?").run(datasetId);
+    })();
+  });
+}
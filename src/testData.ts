@@ -1,11 +1,27 @@
 import { Database } from "bun:sqlite";
-import { getPoints, type Point } from "./points";
+import type { Point } from "./points";
+import { getPoints } from "./pointSources";
 import { DB_PATH } from "./db";
 
 const MIN_W = 0.5;
 const MAX_W = 10.0;
 const Q1_W = 1.0;
 const Q3_W = 2.0;
+const TIME_SPAN_MS = 30 * 24 * 60 * 60 * 1000;
+const MIN_PAYLOAD_T = 80;
+const MAX_PAYLOAD_T = 120;
+
+/** Assays loosely tied to `w` so richer zones also read as higher Fe and lower gangue. */
+function generateAssays(w: number): { fe: number; sio2: number; al2o3: number; p: number; h2o: number } {
+  const richness = (w - MIN_W) / (MAX_W - MIN_W);
+  return {
+    fe: 52 + richness * 14 + rand(-1.5, 1.5),
+    sio2: 9 - richness * 5 + rand(-0.8, 0.8),
+    al2o3: 4 - richness * 2 + rand(-0.4, 0.4),
+    p: 0.12 - richness * 0.06 + rand(-0.01, 0.01),
+    h2o: rand(4, 9),
+  };
+}
 
 function rand(min: number, max: number): number {
   return Math.random() * (max - min) + min;
@@ -109,16 +125,24 @@ export async function generateTestData() {
       x REAL,
       y REAL,
       z REAL,
-      w REAL
+      w REAL,
+      t INTEGER,
+      mass REAL,
+      fe REAL,
+      sio2 REAL,
+      al2o3 REAL,
+      p REAL,
+      h2o REAL
     )
   `);
 
   console.log(`Inserting ${points.length} points into ${tableName}...`);
 
   const insert = db.prepare(
-    `INSERT INTO ${tableName} (x, y, z, w) VALUES (?, ?, ?, ?)`
+    `INSERT INTO ${tableName} (x, y, z, w, t, mass, fe, sio2, al2o3, p, h2o) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
   );
 
+  const now = Date.now();
   const insertMany = db.transaction((data: Point[], values: Float64Array) => {
     for (let i = 0; i < data.length; i += 1) {
       const point = data[i];
@@ -126,7 +150,10 @@ export async function generateTestData() {
 
       if (!point || !w) continue;
 
-      insert.run(point.x, point.y, point.z, w);
+      const t = point.t ?? Math.round(now - rand(0, TIME_SPAN_MS));
+      const assays = generateAssays(w);
+      const mass = rand(MIN_PAYLOAD_T, MAX_PAYLOAD_T);
+      insert.run(point.x, point.y, point.z, w, t, mass, assays.fe, assays.sio2, assays.al2o3, assays.p, assays.h2o);
     }
   });
 
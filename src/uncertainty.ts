@@ -0,0 +1,168 @@
+import { extractRegion, type ExtractionStep } from "./extraction";
+import { getAttributeValue, getPointMass, type Point } from "./points";
+import { createCheckpoint, type WorkControl } from "./slicedWork";
+
+export const DEFAULT_UNCERTAINTY_RUNS = 100;
+export const MAX_UNCERTAINTY_RUNS = 1000;
+/** Default one-sigma dipper position error in metres. */
+export const DEFAULT_GPS_ERROR = 1;
+
+/** Fixed so rerunning an unchanged plan reports the same bands. */
+const UNCERTAINTY_SEED = 0x5eed;
+
+export interface UncertaintySettings {
+  runs: number;
+  /** One-sigma error applied to each report's x, y and z, in metres. */
+  gpsError: number;
+}
+
+/** Extracted grade percentiles across the simulated runs. */
+export interface GradeInterval {
+  p10: number;
+  p50: number;
+  p90: number;
+}
+
+export interface PlanUncertainty {
+  attribute: string;
+  runs: number;
+  gpsError: number;
+  byItemId: Record<string, GradeInterval>;
+  grandTotal: GradeInterval | null;
+}
+
+/** A region's points and the plan items that dig it, in schedule order. */
+export interface UncertaintyRegion {
+  points: Point[];
+  items: Array<ExtractionStep & { planItemId: string }>;
+}
+
+/** mulberry32: small, fast and good enough for resampling. */
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/** Standard normal sample by Box-Muller. */
+function gaussian(random: () => number): number {
+  const u = 1 - random();
+  const v = random();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+}
+
+/**
+ * Draws as many reports as the region holds, with replacement, and moves each by the GPS
+ * error. Membership stays with the region; only the dig order and mix change.
+ */
+function resamplePoints(points: Point[], gpsError: number, random: () => number): Point[] {
+  return points.map(() => {
+    const point = points[Math.floor(random() * points.length)] as Point;
+    return {
+      ...point,
+      x: point.x + gaussian(random) * gpsError,
+      y: point.y + gaussian(random) * gpsError,
+      z: point.z + gaussian(random) * gpsError,
+    };
+  });
+}
+
+function getPercentile(sorted: number[], fraction: number): number {
+  const position = (sorted.length - 1) * fraction;
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  const lowerValue = sorted[lower] as number;
+  return lowerValue + ((sorted[upper] as number) - lowerValue) * (position - lower);
+}
+
+function toInterval(samples: number[]): GradeInterval | null {
+  if (samples.length === 0) {
+    return null;
+  }
+  const sorted = [...samples].sort((a, b) => a - b);
+  return {
+    p10: getPercentile(sorted, 0.1),
+    p50: getPercentile(sorted, 0.5),
+    p90: getPercentile(sorted, 0.9),
+  };
+}
+
+/**
+ * Reruns the plan on bootstrapped, position-jittered copies of each region's reports and
+ * reports the spread of the extracted tonnage-weighted average of `attribute`. Runs in
+ * slices so the page stays responsive; cancelling rejects with the abort reason.
+ */
+export async function analysePlanUncertainty(
+  regions: UncertaintyRegion[],
+  attribute: string,
+  settings: UncertaintySettings,
+  control: WorkControl = {},
+): Promise<PlanUncertainty> {
+  const runs = Math.min(MAX_UNCERTAINTY_RUNS, Math.max(1, Math.round(settings.runs)));
+  const gpsError = Number.isFinite(settings.gpsError) ? Math.max(0, settings.gpsError) : 0;
+  const random = createRandom(UNCERTAINTY_SEED);
+  const samplesByItemId = new Map<string, number[]>();
+  const grandTotalSamples: number[] = [];
+  const checkpoint = createCheckpoint(control);
+
+  for (let run = 0; run < runs; run += 1) {
+    let runTonnage = 0;
+    let runTotal = 0;
+
+    for (const region of regions) {
+      await checkpoint(run / runs);
+      if (region.points.length === 0) {
+        continue;
+      }
+      const extracted = extractRegion(resamplePoints(region.points, gpsError, random), region.items);
+      region.items.forEach((item, index) => {
+        // Only assayed reports count, so gaps in the assays do not read as zero grade
+        let tonnage = 0;
+        let total = 0;
+        for (const point of extracted[index] as Point[]) {
+          const value = getAttributeValue(point, attribute);
+          if (value === undefined) {
+            continue;
+          }
+          const mass = getPointMass(point);
+          tonnage += mass;
+          total += value * mass;
+        }
+        if (tonnage <= 0) {
+          return;
+        }
+
+        const samples = samplesByItemId.get(item.planItemId) ?? [];
+        samples.push(total / tonnage);
+        samplesByItemId.set(item.planItemId, samples);
+        runTonnage += tonnage;
+        runTotal += total;
+      });
+    }
+
+    if (runTonnage > 0) {
+      grandTotalSamples.push(runTotal / runTonnage);
+    }
+  }
+
+  const byItemId: Record<string, GradeInterval> = {};
+  for (const [planItemId, samples] of samplesByItemId) {
+    const interval = toInterval(samples);
+    if (interval) {
+      byItemId[planItemId] = interval;
+    }
+  }
+
+  return {
+    attribute,
+    runs,
+    gpsError,
+    byItemId,
+    grandTotal: toInterval(grandTotalSamples),
+  };
+}
@@ -0,0 +1,163 @@
+import { useEffect, useRef, useState } from "react";
+import type { ScreenPoint } from "./geometry";
+import { addOutlineControls, isClosingClick } from "./outlineControls";
+import { fromPlanScreen, toPlanScreen, type PlanViewBounds } from "./planView";
+
+/** Pointer travel, in pixels, beyond which a press is a pan rather than a click. */
+const CLICK_TOLERANCE = 4;
+
+type PlanPoint = { x: number; y: number };
+
+interface UsePlanDrawingOptions {
+  interactionElement: HTMLCanvasElement | null;
+  /** The plan view while a footprint is being drawn, or null when drawing is off. */
+  bounds: PlanViewBounds | null;
+  snapPoint: (point: PlanPoint, bounds: PlanViewBounds) => PlanPoint;
+  /** Completes as soon as this many vertices are placed, for lines rather than outlines. */
+  vertexLimit?: number;
+  onComplete: (footprint: PlanPoint[]) => void;
+  onCancel: () => void;
+}
+
+export interface PlanDrawingState {
+  /** Placed vertices in render coordinates. */
+  vertices: PlanPoint[];
+  /** Where the next vertex would go, after snapping. */
+  cursor: PlanPoint | null;
+}
+
+/**
+ * Click-to-place footprint drawing in the plan view. Dragging still pans; clicking the first
+ * vertex, double-clicking or pressing Enter closes the outline, Backspace removes the last
+ * vertex and Escape cancels.
+ */
+export function usePlanDrawing(options: UsePlanDrawingOptions): PlanDrawingState {
+  const { interactionElement, bounds, snapPoint, vertexLimit, onComplete, onCancel } = options;
+
+  const [vertices, setVertices] = useState<PlanPoint[]>([]);
+  const [cursor, setCursor] = useState<PlanPoint | null>(null);
+  const boundsRef = useRef<PlanViewBounds | null>(bounds);
+  // Held in a ref so new callbacks do not throw away a half-drawn outline
+  const callbacksRef = useRef({ snapPoint, onComplete, onCancel });
+  const drawing = bounds !== null;
+
+  useEffect(() => {
+    boundsRef.current = bounds;
+  }, [bounds]);
+
+  useEffect(() => {
+    callbacksRef.current = { snapPoint, onComplete, onCancel };
+  }, [snapPoint, onComplete, onCancel]);
+
+  useEffect(() => {
+    const element = interactionElement;
+    if (!element || !drawing) {
+      return;
+    }
+
+    let placed: PlanPoint[] = [];
+    const minimumVertices = vertexLimit ?? 3;
+    let press: { pointerId: number; x: number; y: number } | null = null;
+
+    const getCanvasPosition = (event: PointerEvent | MouseEvent): ScreenPoint => {
+      const rect = element.getBoundingClientRect();
+      return { x: event.clientX - rect.left, y: event.clientY - rect.top };
+    };
+
+    const getSnappedPoint = (event: PointerEvent | MouseEvent): PlanPoint | null => {
+      const current = boundsRef.current;
+      if (!current) {
+        return null;
+      }
+      return callbacksRef.current.snapPoint(fromPlanScreen(current, getCanvasPosition(event)), current);
+    };
+
+    const update = (next: PlanPoint[]): void => {
+      placed = next;
+      setVertices(next);
+    };
+
+    const complete = (): void => {
+      if (placed.length < minimumVertices) {
+        return;
+      }
+      const footprint = placed;
+      update([]);
+      setCursor(null);
+      callbacksRef.current.onComplete(footprint);
+    };
+
+    const isNearFirstVertex = (position: ScreenPoint): boolean => {
+      const current = boundsRef.current;
+      const first = placed[0];
+      if (!current || !first || vertexLimit !== undefined) {
+        return false;
+      }
+      return isClosingClick(toPlanScreen(current, first), placed.length, position);
+    };
+
+    const onPointerDown = (event: PointerEvent): void => {
+      if (event.button !== 0 || event.shiftKey) {
+        return;
+      }
+      const position = getCanvasPosition(event);
+      press = { pointerId: event.pointerId, x: position.x, y: position.y };
+    };
+
+    const onPointerUp = (event: PointerEvent): void => {
+      if (!press || event.pointerId !== press.pointerId) {
+        return;
+      }
+      const position = getCanvasPosition(event);
+      const moved = Math.hypot(position.x - press.x, position.y - press.y);
+      press = null;
+      if (moved > CLICK_TOLERANCE) {
+        return;
+      }
+
+      if (isNearFirstVertex(position)) {
+        complete();
+        return;
+      }
+
+      const point = getSnappedPoint(event);
+      const last = placed[placed.length - 1];
+      // The second click of a double-click lands on the vertex the first one placed
+      if (point && !(last && last.x === point.x && last.y === point.y)) {
+        update([...placed, point]);
+        if (placed.length === vertexLimit) {
+          complete();
+        }
+      }
+    };
+
+    const onPointerMove = (event: PointerEvent): void => {
+      setCursor(getSnappedPoint(event));
+    };
+
+    element.addEventListener("pointerdown", onPointerDown);
+    element.addEventListener("pointerup", onPointerUp);
+    element.addEventListener("pointermove", onPointerMove);
+    const removeOutlineControls = addOutlineControls(element, {
+      isActive: () => true,
+      onClose: complete,
+      onUndo: () => {
+        if (placed.length > 0) {
+          update(placed.slice(0, -1));
+        }
+      },
+      onCancel: () => callbacksRef.current.onCancel(),
+    });
+
+    return () => {
+      element.removeEventListener("pointerdown", onPointerDown);
+      element.removeEventListener("pointerup", onPointerUp);
+      element.removeEventListener("pointermove", onPointerMove);
+      removeOutlineControls();
+      setVertices([]);
+      setCursor(null);
+    };
+  }, [interactionElement, drawing, vertexLimit]);
+
+  return { vertices, cursor };
+}
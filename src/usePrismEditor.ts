@@ -0,0 +1,213 @@
+import { useEffect, useRef, type MutableRefObject } from "react";
+import * as THREE from "three";
+import type { PrismSnapshot } from "./geometry";
+import {
+  getPrismHandle,
+  insertFootprintVertex,
+  moveFootprintVertex,
+  removeFootprintVertex,
+  setPrismElevation,
+  type PrismHandle,
+} from "./prismEditor";
+
+interface UsePrismEditorOptions {
+  interactionElement: HTMLCanvasElement | null;
+  cameraRef: MutableRefObject<THREE.Camera | null>;
+  handlesRef: MutableRefObject<THREE.Group | null>;
+  /** The shape being edited, or null when no region is in shape edit mode. */
+  snapshot: PrismSnapshot | null;
+  onChangeSnapshot: (snapshot: PrismSnapshot) => void;
+  /** Called on every move of a drag; `onChangeSnapshot` only hears the result when it ends. */
+  onPreviewSnapshot: (snapshot: PrismSnapshot) => void;
+  onDraggingChange: (value: boolean) => void;
+}
+
+interface HandleDrag {
+  pointerId: number;
+  handle: PrismHandle;
+  plane: THREE.Plane;
+  /** Height of the grab point above the dragged elevation, so the edge does not jump to the cursor. */
+  grabOffset: number;
+  moved: boolean;
+}
+
+/**
+ * Drags the handles drawn by `addPrismHandles`: vertices move across the prism's top,
+ * midpoints insert a vertex and drag it, Alt + click removes a vertex, and the cones move
+ * the top and bottom elevations.
+ */
+export function usePrismEditor(options: UsePrismEditorOptions): void {
+  const {
+    interactionElement,
+    cameraRef,
+    handlesRef,
+    snapshot,
+    onChangeSnapshot,
+    onPreviewSnapshot,
+    onDraggingChange,
+  } = options;
+
+  const snapshotRef = useRef<PrismSnapshot | null>(snapshot);
+  const editing = snapshot !== null;
+
+  useEffect(() => {
+    snapshotRef.current = snapshot;
+  }, [snapshot]);
+
+  useEffect(() => {
+    const element = interactionElement;
+    if (!element || !editing) {
+      return;
+    }
+
+    const raycaster = new THREE.Raycaster();
+    const pointer = new THREE.Vector2();
+    const hit = new THREE.Vector3();
+    let drag: HandleDrag | null = null;
+
+    const setRay = (event: PointerEvent): boolean => {
+      const camera = cameraRef.current;
+      const rect = element.getBoundingClientRect();
+      if (!camera || rect.width === 0 || rect.height === 0) {
+        return false;
+      }
+      pointer.x = ((event.clientX - rect.left) / rect.width) * 2 - 1;
+      pointer.y = -((event.clientY - rect.top) / rect.height) * 2 + 1;
+      raycaster.setFromCamera(pointer, camera);
+      return true;
+    };
+
+    const emit = (next: PrismSnapshot): void => {
+      snapshotRef.current = next;
+      onChangeSnapshot(next);
+    };
+
+    const preview = (next: PrismSnapshot): void => {
+      snapshotRef.current = next;
+      if (drag) {
+        drag.moved = true;
+      }
+      onPreviewSnapshot(next);
+    };
+
+    const getDragPlane = (handle: PrismHandle, current: PrismSnapshot, grabPoint: THREE.Vector3): THREE.Plane => {
+      if (handle.kind === "vertex" || handle.kind === "midpoint") {
+        return new THREE.Plane(new THREE.Vector3(0, 0, 1), -current.maxZ);
+      }
+
+      // A vertical plane through the cone, turned to face the camera as far as it can
+      const normal = raycaster.ray.direction.clone().setZ(0);
+      if (normal.lengthSq() < 1e-8) {
+        normal.set(1, 0, 0);
+      }
+      return new THREE.Plane().setFromNormalAndCoplanarPoint(normal.normalize(), grabPoint);
+    };
+
+    const finishDrag = (event: PointerEvent): void => {
+      if (!drag || event.pointerId !== drag.pointerId) {
+        return;
+      }
+      const { moved } = drag;
+      drag = null;
+      onDraggingChange(false);
+      const current = snapshotRef.current;
+      if (moved && current) {
+        emit(current);
+      }
+      if (element.hasPointerCapture(event.pointerId)) {
+        element.releasePointerCapture(event.pointerId);
+      }
+    };
+
+    const onPointerDown = (event: PointerEvent): void => {
+      const current = snapshotRef.current;
+      const handles = handlesRef.current;
+      if (!current || !handles || event.button !== 0 || event.shiftKey || !setRay(event)) {
+        return;
+      }
+
+      const intersection = raycaster.intersectObjects(handles.children, false)[0];
+      const picked = intersection ? getPrismHandle(intersection.object) : null;
+      if (!intersection || !picked) {
+        return;
+      }
+
+      event.preventDefault();
+      event.stopPropagation();
+
+      if (picked.kind === "vertex" && event.altKey) {
+        const next = removeFootprintVertex(current, picked.index);
+        if (next) {
+          emit(next);
+        }
+        return;
+      }
+
+      let handle = picked;
+      let start = current;
+      if (picked.kind === "midpoint") {
+        start = insertFootprintVertex(current, picked.index);
+        handle = { kind: "vertex", index: picked.index + 1 };
+        emit(start);
+      }
+
+      const grabPoint = intersection.point;
+      drag = {
+        pointerId: event.pointerId,
+        handle,
+        plane: getDragPlane(handle, start, grabPoint),
+        grabOffset: handle.kind === "top"
+          ? grabPoint.z - start.maxZ
+          : handle.kind === "bottom"
+            ? grabPoint.z - start.minZ
+            : 0,
+        moved: false,
+      };
+      onDraggingChange(true);
+      element.setPointerCapture(event.pointerId);
+    };
+
+    const onPointerMove = (event: PointerEvent): void => {
+      const current = snapshotRef.current;
+      if (!drag || event.pointerId !== drag.pointerId || !current || !setRay(event)) {
+        return;
+      }
+      if (!raycaster.ray.intersectPlane(drag.plane, hit)) {
+        return;
+      }
+
+      const { handle } = drag;
+      if (handle.kind === "vertex") {
+        const next = moveFootprintVertex(current, handle.index, hit);
+        if (next) {
+          preview(next);
+        }
+      } else if (handle.kind === "top" || handle.kind === "bottom") {
+        preview(setPrismElevation(current, handle.kind, hit.z - drag.grabOffset));
+      }
+    };
+
+    element.addEventListener("pointerdown", onPointerDown, { capture: true });
+    element.addEventListener("pointermove", onPointerMove);
+    element.addEventListener("pointerup", finishDrag);
+    element.addEventListener("pointercancel", finishDrag);
+
+    return () => {
+      element.removeEventListener("pointerdown", onPointerDown, { capture: true });
+      element.removeEventListener("pointermove", onPointerMove);
+      element.removeEventListener("pointerup", finishDrag);
+      element.removeEventListener("pointercancel", finishDrag);
+      if (drag) {
+        onDraggingChange(false);
+      }
+    };
+  }, [
+    interactionElement,
+    cameraRef,
+    handlesRef,
+    editing,
+    onChangeSnapshot,
+    onPreviewSnapshot,
+    onDraggingChange,
+  ]);
+}
@@ -1,15 +1,51 @@
 import { useEffect, useRef, useState } from "react";
+import type { ScreenPoint } from "./geometry";
+import { addOutlineControls, isClosingClick } from "./outlineControls";
 import type { SelectionRect } from "./overlay";
 
+/** Box drags a rectangle, lasso records a freehand outline, polygon places vertices by click. */
+export type SelectionMode = "rectangle" | "lasso" | "polygon";
+
+export const SELECTION_MODES: SelectionMode[] = ["rectangle", "lasso", "polygon"];
+
+/** Lasso samples closer together than this, in pixels, are dropped. */
+const LASSO_MIN_STEP = 3;
+
+export function getSelectionModeLabel(mode: SelectionMode): string {
+  switch (mode) {
+    case "rectangle":
+      return "Box";
+    case "lasso":
+      return "Lasso";
+    case "polygon":
+      return "Polygon";
+  }
+}
+
+export function getSelectionModeHint(mode: SelectionMode): string {
+  switch (mode) {
+    case "rectangle":
+      return "Shift + drag to select";
+    case "lasso":
+      return "Shift + drag to draw a lasso";
+    case "polygon":
+      return "Shift + click to place vertices; click the first vertex, double-click or press Enter to close";
+  }
+}
+
 interface UseSelectionControllerOptions {
   interactionElement: HTMLCanvasElement | null;
   selectionEnabled: boolean;
+  selectionMode: SelectionMode;
   onCurrentlySelectingChange: (value: boolean) => void;
   onSelectionComplete: (value: SelectionRect) => void;
+  onPolygonSelectionComplete: (polygon: ScreenPoint[]) => void;
 }
 
 interface SelectionControllerState {
   selectionRect: SelectionRect | null;
+  /** Outline of a lasso or polygon in progress, ending at the cursor for polygons. */
+  selectionPath: ScreenPoint[] | null;
 }
 
 export function useSelectionController(
@@ -18,11 +54,14 @@ export function useSelectionController(
   const {
     interactionElement,
     selectionEnabled,
+    selectionMode,
     onCurrentlySelectingChange,
     onSelectionComplete,
+    onPolygonSelectionComplete,
   } = options;
 
   const [selectionRect, setSelectionRect] = useState<SelectionRect | null>(null);
+  const [selectionPath, setSelectionPath] = useState<ScreenPoint[] | null>(null);
   const pointerIdRef = useRef<number | null>(null);
   const selectionRectRef = useRef<SelectionRect | null>(null);
 
@@ -40,6 +79,9 @@ export function useSelectionController(
     let startY = 0;
     let currentX = 0;
     let currentY = 0;
+    let path: ScreenPoint[] = [];
+    /** Placed polygon vertices; the polygon stays open between clicks. */
+    let polygon: ScreenPoint[] | null = null;
 
     const setRect = (): void => {
       const minX = Math.min(startX, currentX);
@@ -54,7 +96,7 @@ export function useSelectionController(
       });
     };
 
-    const getCanvasPosition = (event: PointerEvent): { x: number; y: number } => {
+    const getCanvasPosition = (event: { clientX: number; clientY: number }): ScreenPoint => {
       const rect = element.getBoundingClientRect();
       return {
         x: event.clientX - rect.left,
@@ -62,25 +104,67 @@ export function useSelectionController(
       };
     };
 
+    const finishPolygon = (): void => {
+      const completed = polygon;
+      polygon = null;
+      setSelectionPath(null);
+      onCurrentlySelectingChange(false);
+      if (completed && completed.length >= 3) {
+        onPolygonSelectionComplete(completed);
+      }
+    };
+
+    const cancelPolygon = (): void => {
+      if (polygon) {
+        polygon = null;
+        setSelectionPath(null);
+        onCurrentlySelectingChange(false);
+      }
+    };
+
     const finishSelection = (event: PointerEvent): void => {
       if (pointerIdRef.current === null || event.pointerId !== pointerIdRef.current) {
         return;
       }
 
       const completedRect = selectionRectRef.current;
+      const completedPath = path;
       onCurrentlySelectingChange(false);
       setSelectionRect(null);
+      setSelectionPath(null);
+      path = [];
       pointerIdRef.current = null;
 
       if (element.hasPointerCapture(event.pointerId)) {
         element.releasePointerCapture(event.pointerId);
       }
 
-      if (completedRect && completedRect.width >= 2 && completedRect.height >= 2) {
+      if (selectionMode === "lasso") {
+        if (completedPath.length >= 3) {
+          onPolygonSelectionComplete(completedPath);
+        }
+      } else if (completedRect && completedRect.width >= 2 && completedRect.height >= 2) {
         onSelectionComplete(completedRect);
       }
     };
 
+    const onPolygonPointerDown = (position: ScreenPoint): void => {
+      if (!polygon) {
+        polygon = [position];
+        onCurrentlySelectingChange(true);
+        setSelectionPath([position, position]);
+        return;
+      }
+
+      if (isClosingClick(polygon[0], polygon.length, position)) {
+        finishPolygon();
+        return;
+      }
+
+      polygon = [...polygon, position];
+      setSelectionPath([...polygon, position]);
+    };
+
     const onPointerDown = (event: PointerEvent): void => {
       if (!selectionEnabled) {
         return;
@@ -93,17 +177,31 @@ export function useSelectionController(
       event.stopPropagation();
       const position = getCanvasPosition(event);
 
+      if (selectionMode === "polygon") {
+        onPolygonPointerDown(position);
+        return;
+      }
+
       startX = position.x;
       startY = position.y;
       currentX = position.x;
       currentY = position.y;
       onCurrentlySelectingChange(true);
       pointerIdRef.current = event.pointerId;
-      setRect();
+      if (selectionMode === "lasso") {
+        path = [position];
+        setSelectionPath(path);
+      } else {
+        setRect();
+      }
       element.setPointerCapture(event.pointerId);
     };
 
     const onPointerMove = (event: PointerEvent): void => {
+      if (polygon) {
+        setSelectionPath([...polygon, getCanvasPosition(event)]);
+        return;
+      }
       if (pointerIdRef.current === null || event.pointerId !== pointerIdRef.current) {
         return;
       }
@@ -111,26 +209,57 @@ export function useSelectionController(
       const position = getCanvasPosition(event);
       currentX = position.x;
       currentY = position.y;
-      setRect();
+      if (selectionMode === "lasso") {
+        const last = path[path.length - 1] as ScreenPoint;
+        if (Math.hypot(position.x - last.x, position.y - last.y) >= LASSO_MIN_STEP) {
+          path = [...path, position];
+          setSelectionPath(path);
+        }
+      } else {
+        setRect();
+      }
+    };
+
+    const undoPolygonVertex = (): void => {
+      if (!polygon || polygon.length <= 1) {
+        cancelPolygon();
+        return;
+      }
+      polygon = polygon.slice(0, -1);
+      setSelectionPath([...polygon, polygon[polygon.length - 1] as ScreenPoint]);
     };
 
     element.addEventListener("pointerdown", onPointerDown, { capture: true });
     element.addEventListener("pointermove", onPointerMove);
     element.addEventListener("pointerup", finishSelection);
     element.addEventListener("pointercancel", finishSelection);
+    const removeOutlineControls = addOutlineControls(element, {
+      isActive: () => polygon !== null,
+      onClose: finishPolygon,
+      onUndo: undoPolygonVertex,
+      onCancel: cancelPolygon,
+    });
 
     return () => {
       element.removeEventListener("pointerdown", onPointerDown, { capture: true });
       element.removeEventListener("pointermove", onPointerMove);
       element.removeEventListener("pointerup", finishSelection);
       element.removeEventListener("pointercancel", finishSelection);
+      removeOutlineControls();
+      // A half-placed polygon does not survive a mode change
+      if (polygon) {
+        setSelectionPath(null);
+        onCurrentlySelectingChange(false);
+      }
     };
   }, [
     interactionElement,
     onCurrentlySelectingChange,
     onSelectionComplete,
+    onPolygonSelectionComplete,
     selectionEnabled,
+    selectionMode,
   ]);
 
-  return { selectionRect };
+  return { selectionRect, selectionPath };
 }
@@ -4,31 +4,119 @@ import { OrbitControls } from "three/examples/jsm/controls/OrbitControls.js";
 import { CSS2DObject, CSS2DRenderer } from "three/examples/jsm/renderers/CSS2DRenderer.js";
 import {
   addPointClouds,
+  appendToPointClouds,
+  recolourPointClouds,
+  setHiddenPoints,
+  removePointClouds,
   fromStoredPrism,
   getPointsInPrism,
   getPrismSnapshot,
   restorePrism,
+  removePrism,
+  updatePrism,
+  addClippedPrism,
   addSelectionPrism,
   fitCameraToPointCloud,
+  getClippedPrismOutlines,
+  getClippedPrismSurface,
+  getFootprintRadius,
+  getFootprintSnapshot,
+  getPointsInScreenPolygon,
   getPointsInScreenSelection,
   toStoredPrism,
   type PrismSnapshot,
+  type ScreenPoint,
   getRegionCenter,
+  isSimplePolygon,
 } from "./geometry";
 import {
   Overlay,
+  getRegionAttributeStats,
   type RegionMeta,
   type SelectionRect,
 } from "./overlay";
-import type { PlanGrandTotal, PlanItem, PlanOutcomeItem } from "./OperationPlan";
-import type { Point } from "./points";
+import type { PlanGrandTotal, PlanItem, PlanOutcomeItem, PlanPeriodOutcome } from "./OperationPlan";
+import type { PlanScenario, ScenarioSummary } from "./PlanScenarios";
+import { getLastPeriod, getScheduledOrder, normalizePeriod } from "./schedule";
 import {
-  loadStoredPlan,
+  DEFAULT_ATTRIBUTE,
+  DEFAULT_POINT_MASS,
+  getAttributeTotals,
+  getAttributeValue,
+  getPointMass,
+  getTonnage,
+  type AttributeStats,
+  type DatasetSummary,
+  type Point,
+} from "./points";
+import {
+  decodePoints,
+  POINT_CURSOR_HEADER,
+  toPoints,
+  type PointColumns,
+  type PointOffset,
+} from "./pointCodec";
+import { listDatasets } from "./datasetApi";
+import {
+  adoptLegacyStorage,
+  convertPointQuantities,
+  loadActiveScenarioId,
   loadStoredPrisms,
-  saveStoredPlan,
+  loadStoredScenarios,
+  saveActiveScenarioId,
   saveStoredPrisms,
+  saveStoredScenarios,
 } from "./storage";
-import { useSelectionController } from "./useSelectionController";
+import { optimiseBlend, type BlendRegion, type BlendResult, type BlendSettings } from "./blend";
+import { getGradeDistribution, type GradeDistribution } from "./distribution";
+import { analysePlanUncertainty, type PlanUncertainty, type UncertaintySettings } from "./uncertainty";
+import {
+  DEFAULT_EXTRACTION_INCREMENT,
+  DEFAULT_EXTRACTION_MODE,
+  DEFAULT_FACE_DIP,
+  clampDip,
+  extractRegion,
+  getExtractionVolumes,
+  sweepFaceAngles,
+  type AngleSample,
+  type ExtractionMode,
+  type ExtractionVolume,
+} from "./extraction";
+import type { WorkControl } from "./slicedWork";
+import { getRecipeCandidate, type RecipeCandidate, type RecipeQuantity } from "./recipe";
+import { getSelectionModeHint, useSelectionController, type SelectionMode } from "./useSelectionController";
+import { usePrismEditor } from "./usePrismEditor";
+import { addPrismHandles, removePrismHandles, setPrismElevation, updatePrismHandles } from "./prismEditor";
+import type { ShapeEditSummary } from "./ShapeEditBar";
+import { ALL_TIME, toPointQueryString, type TimeWindow } from "./TimeWindowControl";
+import {
+  centerPlanCamera,
+  createPlanCamera,
+  createPlanControls,
+  fitPlanCamera,
+  getGridStep,
+  getMinorGridStep,
+  getPlanPixelSize,
+  getPlanViewBounds,
+  resizePlanCamera,
+  snapPlanPoint,
+  type PlanViewBounds,
+  type ViewMode,
+} from "./planView";
+import { usePlanDrawing } from "./usePlanDrawing";
+import {
+  combineFootprints,
+  splitFootprint,
+  type FootprintOperation,
+} from "./footprintBoolean";
+import type { RegionCoordinates } from "./regionCoordinates";
+import type { DxfDrawing, DxfEntity, DxfPoint } from "./dxf";
+import {
+  parseRegionsGeoJson,
+  toGeoJsonFeature,
+  type GeoJsonFeature,
+  type GeoJsonFeatureCollection,
+} from "./geojson";
 
 interface RegionPrism {
   key: string;
@@ -38,9 +126,31 @@ interface RegionPrism {
   label: CSS2DObject;
 }
 
+/** A camera with the controls that move it; only the active view's controls are enabled. */
+interface SceneView<TCamera extends THREE.Camera> {
+  camera: TCamera;
+  controls: OrbitControls;
+}
+
+interface SceneViews {
+  perspective: SceneView<THREE.PerspectiveCamera>;
+  plan: SceneView<THREE.OrthographicCamera>;
+}
+
+/** Drawn vertices snap to an existing footprint vertex this close, in pixels. */
+const FOOTPRINT_SNAP_PIXELS = 10;
+
+/** A region in shape edit mode and its edited, not yet saved, shape. */
+interface ShapeEdit {
+  key: string;
+  snapshot: PrismSnapshot;
+}
+
 interface PlanStats {
   outcomeByItemId: Record<string, PlanOutcomeItem>;
   grandTotal: PlanGrandTotal;
+  periodOutcomes: PlanPeriodOutcome[];
+  extractionVolumesByItemId: Record<string, ExtractionVolume[]>;
   extractedPointsByItemId: Record<string, Point[]>;
 }
 
@@ -50,6 +160,11 @@ const REGION_SELECTED_COLOR = 0xf59e0b;
 const PLAN_EXTRACTION_COLOR = 0xff4d00;
 const PLAN_EXTRACTION_OPACITY = 0.3;
 const REGION_LABEL_Z_OFFSET = 1.5;
+const DXF_REGION_LAYER = { name: "REGIONS", color: 4 };
+const DXF_LABEL_LAYER = { name: "REGION_LABELS", color: 7 };
+const DXF_EXTRACTION_LAYER = { name: "EXTRACTION", color: 30 };
+const DEFAULT_PLAN_TONNES = 10000;
+const EMPTY_PLAN: PlanItem[] = [];
 
 function createScene(): THREE.Scene {
   const scene = new THREE.Scene();
@@ -111,65 +226,136 @@ function addLights(scene: THREE.Scene): void {
   scene.add(directional);
 }
 
-async function getPoints(): Promise<Point[]> {
-  const response = await fetch("/points");
+/** A loaded cloud that new points stream onto: its dataset, window and the cursor it was read at. */
+interface PointStreamStart {
+  datasetId: string;
+  timeWindow: TimeWindow;
+  cursor: number;
+}
+
+async function getPoints(
+  timeWindow: TimeWindow,
+  datasetId: string,
+  offset?: PointOffset,
+): Promise<{ columns: PointColumns; cursor: number }> {
+  const params = new URLSearchParams(toPointQueryString(timeWindow));
+  params.set("dataset", datasetId);
+  if (offset) {
+    params.set("offsetX", String(offset.x));
+    params.set("offsetY", String(offset.y));
+    params.set("offsetZ", String(offset.z));
+  }
+
+  const query = params.toString();
+  const response = await fetch(query ? `/points.bin?${query}` : "/points.bin");
   if (!response.ok) {
     throw new Error(`Failed to load points: ${response.status}`);
   }
-  return (await response.json()) as Point[];
+  return {
+    columns: decodePoints(await response.arrayBuffer()),
+    cursor: Number(response.headers.get(POINT_CURSOR_HEADER)),
+  };
+}
+
+/** Colour values for one attribute, in the same order as the decoded positions. */
+function getColumnValues(columns: PointColumns, attribute: string): Float32Array {
+  if (attribute === DEFAULT_ATTRIBUTE) {
+    return columns.w;
+  }
+  return columns.attributes[attribute] ?? new Float32Array(columns.count).fill(NaN);
 }
 
-function getRegionStats(points: Point[]): { min: Point; max: Point; avgW: number } {
+/** NaN marks an unassayed point, which gets its own colour. */
+function getAttributeValues(points: Point[], attribute: string): Float32Array {
+  const values = new Float32Array(points.length);
+  points.forEach((point, index) => {
+    values[index] = getAttributeValue(point, attribute) ?? NaN;
+  });
+  return values;
+}
+
+function getEmptyAttributeStats(): AttributeStats {
+  return { min: 0, max: 0, average: 0, tonnage: 0 };
+}
+
+interface RegionStats {
+  min: Point;
+  max: Point;
+  tonnage: number;
+  attributes: Record<string, AttributeStats>;
+}
+
+function getRegionStats(points: Point[], attributes: string[]): RegionStats {
   let minX = Infinity;
   let minY = Infinity;
   let minZ = Infinity;
-  let minW = Infinity;
   let maxX = -Infinity;
   let maxY = -Infinity;
   let maxZ = -Infinity;
-  let maxW = -Infinity;
-  let sumW = 0;
 
   for (const point of points) {
     if (point.x < minX) minX = point.x;
     if (point.y < minY) minY = point.y;
     if (point.z < minZ) minZ = point.z;
-    if (point.w < minW) minW = point.w;
     if (point.x > maxX) maxX = point.x;
     if (point.y > maxY) maxY = point.y;
     if (point.z > maxZ) maxZ = point.z;
-    if (point.w > maxW) maxW = point.w;
-    sumW += point.w;
   }
 
+  const tonnage = getTonnage(points);
+  const attributeStats: Record<string, AttributeStats> = {};
+  for (const attribute of attributes) {
+    let min = Infinity;
+    let max = -Infinity;
+    let sum = 0;
+    let assayedTonnage = 0;
+    for (const point of points) {
+      const value = getAttributeValue(point, attribute);
+      if (value === undefined) {
+        continue;
+      }
+      const mass = getPointMass(point);
+      if (value < min) min = value;
+      if (value > max) max = value;
+      sum += value * mass;
+      assayedTonnage += mass;
+    }
+    attributeStats[attribute] = assayedTonnage > 0
+      ? { min, max, average: sum / assayedTonnage, tonnage: assayedTonnage }
+      : getEmptyAttributeStats();
+  }
+
+  const w = attributeStats[DEFAULT_ATTRIBUTE] ?? { min: Infinity, max: -Infinity, average: 0, tonnage: 0 };
   return {
-    min: { x: minX, y: minY, z: minZ, w: minW },
-    max: { x: maxX, y: maxY, z: maxZ, w: maxW },
-    avgW: points.length > 0 ? sumW / points.length : 0,
+    min: { x: minX, y: minY, z: minZ, w: w.min },
+    max: { x: maxX, y: maxY, z: maxZ, w: w.max },
+    tonnage,
+    attributes: attributeStats,
   };
 }
 
-function getPointCloudOffset(points: Point[]): { x: number; y: number; z: number } {
-  if (points.length === 0) {
-    return { x: 0, y: 0, z: 0 };
-  }
-
-  let sumX = 0;
-  let sumY = 0;
-  let sumZ = 0;
-
-  for (const point of points) {
-    sumX += point.x;
-    sumY += point.y;
-    sumZ += point.z;
-  }
-
-  const invCount = 1 / points.length;
+function toWorldSnapshot(snapshot: PrismSnapshot, pointOffset: PointOffset): PrismSnapshot {
   return {
-    x: sumX * invCount,
-    y: sumY * invCount,
-    z: sumZ * invCount,
+    minZ: snapshot.minZ + pointOffset.z,
+    maxZ: snapshot.maxZ + pointOffset.z,
+    footprint: snapshot.footprint.map((point) => ({ x: point.x + pointOffset.x, y: point.y + pointOffset.y })),
+  };
+}
+
+/** Region stats flattened into GeoJSON properties, which GIS tools expect to be scalars. */
+function getRegionFeatureProperties(region: RegionMeta): Record<string, string | number | null> {
+  const properties: Record<string, string | number | null> = {
+    regionId: region.regionId,
+    pointCount: region.pointCount,
+    tonnage: region.tonnage,
   };
+  for (const [attribute, stats] of Object.entries(region.attributes)) {
+    const assayed = stats.tonnage > 0;
+    properties[`${attribute}_min`] = assayed ? stats.min : null;
+    properties[`${attribute}_max`] = assayed ? stats.max : null;
+    properties[`${attribute}_avg`] = assayed ? stats.average : null;
+  }
+  return properties;
 }
 
 function getRegionMetaFromSelection(
@@ -178,16 +364,16 @@ function getRegionMetaFromSelection(
   snapshot: PrismSnapshot,
   selectedPoints: Point[],
   pointOffset: { x: number; y: number; z: number },
+  attributes: string[],
 ): RegionMeta {
   if (selectedPoints.length > 0) {
-    const region = getRegionStats(selectedPoints);
+    const region = getRegionStats(selectedPoints, attributes);
     return {
       key,
       regionId,
       pointCount: selectedPoints.length,
-      minW: region.min.w,
-      maxW: region.max.w,
-      avgW: region.avgW,
+      tonnage: region.tonnage,
+      attributes: region.attributes,
       min: {
         x: region.min.x + pointOffset.x,
         y: region.min.y + pointOffset.y,
@@ -219,141 +405,161 @@ function getRegionMetaFromSelection(
     key,
     regionId,
     pointCount: 0,
-    minW: 0,
-    maxW: 0,
-    avgW: 0,
+    tonnage: 0,
+    attributes: Object.fromEntries(attributes.map((attribute) => [attribute, getEmptyAttributeStats()])),
     min: { x: minX + pointOffset.x, y: minY + pointOffset.y, z: snapshot.minZ + pointOffset.z, w: 0 },
     max: { x: maxX + pointOffset.x, y: maxY + pointOffset.y, z: snapshot.maxZ + pointOffset.z, w: 0 },
   };
 }
 
-function getDepthFromRegionEdge(
-  point: Point,
-  center: THREE.Vector3,
-  outward: THREE.Vector3,
-  maxProjection: number,
-): number {
-  const projection =
-    (point.x - center.x) * outward.x +
-    (point.y - center.y) * outward.y;
-  return maxProjection - projection;
-}
+/** Folds newly arrived points into a region's stats without rescanning the cloud. */
+function mergeRegionMeta(
+  region: RegionMeta,
+  snapshot: PrismSnapshot,
+  addedPoints: Point[],
+  pointOffset: { x: number; y: number; z: number },
+  attributes: string[],
+): RegionMeta {
+  if (addedPoints.length === 0) {
+    return region;
+  }
 
-function clipPolygonByHalfPlane(
-  polygon: Array<{ x: number; y: number }>,
-  outward: THREE.Vector3,
-  threshold: number,
-): Array<{ x: number; y: number }> {
-  if (polygon.length < 3) {
-    return [];
+  if (region.pointCount === 0) {
+    return getRegionMetaFromSelection(region.key, region.regionId, snapshot, addedPoints, pointOffset, attributes);
   }
 
-  const inside = (point: { x: number; y: number }): boolean =>
-    (point.x * outward.x + point.y * outward.y) >= threshold;
-
-  const intersect = (
-    start: { x: number; y: number },
-    end: { x: number; y: number },
-  ): { x: number; y: number } | null => {
-    const dx = end.x - start.x;
-    const dy = end.y - start.y;
-    const denominator = dx * outward.x + dy * outward.y;
-    if (Math.abs(denominator) < 1e-8) {
-      return null;
-    }
-    const t = (threshold - (start.x * outward.x + start.y * outward.y)) / denominator;
-    if (t < 0 || t > 1) {
-      return null;
+  const added = getRegionStats(addedPoints, attributes);
+  const pointCount = region.pointCount + addedPoints.length;
+  const tonnage = region.tonnage + added.tonnage;
+  const mergedAttributes: Record<string, AttributeStats> = {};
+  for (const attribute of attributes) {
+    const previous = getRegionAttributeStats(region, attribute);
+    const next = added.attributes[attribute] as AttributeStats;
+    // Either side may have no assays, in which case its range and average say nothing
+    if (previous.tonnage === 0 || next.tonnage === 0) {
+      mergedAttributes[attribute] = previous.tonnage === 0 ? next : previous;
+      continue;
     }
-    return {
-      x: start.x + t * dx,
-      y: start.y + t * dy,
+    const assayedTonnage = previous.tonnage + next.tonnage;
+    mergedAttributes[attribute] = {
+      min: Math.min(previous.min, next.min),
+      max: Math.max(previous.max, next.max),
+      average: (previous.average * previous.tonnage + next.average * next.tonnage) / assayedTonnage,
+      tonnage: assayedTonnage,
     };
-  };
-
-  const result: Array<{ x: number; y: number }> = [];
+  }
 
-  for (let i = 0; i < polygon.length; i += 1) {
-    const current = polygon[i] as { x: number; y: number };
-    const next = polygon[(i + 1) % polygon.length] as { x: number; y: number };
-    const currentInside = inside(current);
-    const nextInside = inside(next);
+  return {
+    ...region,
+    pointCount,
+    tonnage,
+    attributes: mergedAttributes,
+    min: {
+      x: Math.min(region.min.x, added.min.x + pointOffset.x),
+      y: Math.min(region.min.y, added.min.y + pointOffset.y),
+      z: Math.min(region.min.z, added.min.z + pointOffset.z),
+      w: Math.min(region.min.w, added.min.w),
+    },
+    max: {
+      x: Math.max(region.max.x, added.max.x + pointOffset.x),
+      y: Math.max(region.max.y, added.max.y + pointOffset.y),
+      z: Math.max(region.max.z, added.max.z + pointOffset.z),
+      w: Math.max(region.max.w, added.max.w),
+    },
+  };
+}
 
-    if (currentInside && nextInside) {
-      result.push(next);
-      continue;
-    }
+function getEmptyGrandTotal(): PlanGrandTotal {
+  return {
+    extractedPointCount: 0,
+    tonnage: 0,
+    attributes: {},
+  };
+}
 
-    if (currentInside && !nextInside) {
-      const crossing = intersect(current, next);
-      if (crossing) {
-        result.push(crossing);
-      }
-      continue;
-    }
+interface RegionPlanResult {
+  outcomes: PlanOutcomeItem[];
+  extractionVolumes: ExtractionVolume[][];
+  extractedPoints: Point[][];
+}
 
-    if (!currentInside && nextInside) {
-      const crossing = intersect(current, next);
-      if (crossing) {
-        result.push(crossing);
-      }
-      result.push(next);
-    }
-  }
+/** Per-region plan results, reused until the region's meta or its plan items change. */
+type PlanStatsCache = Map<string, { region: RegionMeta; signature: string; result: RegionPlanResult }>;
 
-  return result;
+function getPlanItemsSignature(items: PlanItem[]): string {
+  return items.map((item) => `${item.id}:${item.period}:${item.mode}:${item.angle}:${item.dip}:${item.increment}:${item.quantity}`).join("|");
 }
 
-function createExtractionSnapshot(
-  regionSnapshot: PrismSnapshot,
-  itemAngle: number,
-  takenPoints: Point[],
-): PrismSnapshot | null {
-  if (takenPoints.length === 0 || regionSnapshot.footprint.length < 3) {
-    return null;
-  }
+function computeRegionPlan(
+  region: RegionMeta,
+  items: PlanItem[],
+  regionPrism: RegionPrism,
+  points: Point[],
+  attributes: string[],
+): RegionPlanResult {
+  const regionPoints = getPointsInPrism(points, regionPrism.snapshot);
+  const regionPointCount = regionPoints.length;
+  const regionTonnage = getTonnage(regionPoints);
+  const regionAttributes = getAttributeTotals(regionPoints, attributes);
+  const extractedPoints = extractRegion(regionPoints, items);
+  const extractionVolumes = items.map((item, index) =>
+    getExtractionVolumes(regionPrism.snapshot, regionPoints, item, extractedPoints[index] as Point[]),
+  );
+  const outcomes = items.map((item, index): PlanOutcomeItem => {
+    const takenPoints = extractedPoints[index] as Point[];
+    return {
+      planItemId: item.id,
+      regionId: region.regionId,
+      regionPointCount,
+      regionTonnage,
+      regionAttributes,
+      extractedPointCount: takenPoints.length,
+      extractedTonnage: getTonnage(takenPoints),
+      extractedAttributes: getAttributeTotals(takenPoints, attributes),
+    };
+  });
 
-  const angleRadians = THREE.MathUtils.degToRad(itemAngle);
-  const outward = new THREE.Vector3(Math.cos(angleRadians), Math.sin(angleRadians), 0);
+  return { outcomes, extractionVolumes, extractedPoints };
+}
 
-  let threshold = Infinity;
-  for (const point of takenPoints) {
-    const projection = point.x * outward.x + point.y * outward.y;
-    if (projection < threshold) {
-      threshold = projection;
+/** Adds up what a set of plan items extracted. */
+function sumOutcomes(outcomes: PlanOutcomeItem[]): PlanGrandTotal {
+  let extractedPointCount = 0;
+  let tonnage = 0;
+  const totals: Record<string, { total: number; tonnage: number }> = {};
+
+  for (const outcome of outcomes) {
+    extractedPointCount += outcome.extractedPointCount;
+    tonnage += outcome.extractedTonnage;
+    for (const [attribute, extracted] of Object.entries(outcome.extractedAttributes)) {
+      const sum = totals[attribute] ?? { total: 0, tonnage: 0 };
+      totals[attribute] = { total: sum.total + extracted.total, tonnage: sum.tonnage + extracted.tonnage };
     }
   }
 
-  if (!Number.isFinite(threshold)) {
-    return null;
-  }
-
-  const clippedFootprint = clipPolygonByHalfPlane(regionSnapshot.footprint, outward, threshold);
-  if (clippedFootprint.length < 3) {
-    return null;
-  }
-
   return {
-    minZ: regionSnapshot.minZ,
-    maxZ: regionSnapshot.maxZ,
-    footprint: clippedFootprint,
+    extractedPointCount,
+    tonnage,
+    attributes: Object.fromEntries(Object.entries(totals).map(([attribute, sum]) => [
+      attribute,
+      { ...sum, average: sum.tonnage > 0 ? sum.total / sum.tonnage : 0 },
+    ])),
   };
 }
 
-function sumW(points: Point[]): number {
-  let total = 0;
-  for (const point of points) {
-    total += point.w;
+function getPeriodOutcomes(plan: PlanItem[], outcomeByItemId: Record<string, PlanOutcomeItem>): PlanPeriodOutcome[] {
+  const outcomesByPeriod = new Map<number, PlanOutcomeItem[]>();
+  for (const item of getScheduledOrder(plan)) {
+    const outcome = outcomeByItemId[item.id];
+    if (!outcome) {
+      continue;
+    }
+    const list = outcomesByPeriod.get(item.period) ?? [];
+    list.push(outcome);
+    outcomesByPeriod.set(item.period, list);
   }
-  return total;
-}
 
-function getEmptyGrandTotal(): PlanGrandTotal {
-  return {
-    extractedPointCount: 0,
-    totalW: 0,
-    averageW: 0,
-  };
+  return [...outcomesByPeriod].map(([period, outcomes]) => ({ period, ...sumOutcomes(outcomes) }));
 }
 
 function computePlanStats(
@@ -361,11 +567,14 @@ function computePlanStats(
   plan: PlanItem[],
   regionPrisms: RegionPrism[],
   points: Point[],
+  cache?: PlanStatsCache,
 ): PlanStats {
   if (plan.length === 0 || regions.length === 0 || regionPrisms.length === 0 || points.length === 0) {
     return {
       outcomeByItemId: {},
       grandTotal: getEmptyGrandTotal(),
+      periodOutcomes: [],
+      extractionVolumesByItemId: {},
       extractedPointsByItemId: {},
     };
   }
@@ -374,16 +583,16 @@ function computePlanStats(
   const prismByKey = new Map(regionPrisms.map((regionPrism) => [regionPrism.key, regionPrism]));
   const itemsByRegionKey = new Map<string, PlanItem[]>();
 
-  for (const item of plan) {
+  // Each region is depleted period by period, so its items run in schedule order
+  for (const item of getScheduledOrder(plan)) {
     const list = itemsByRegionKey.get(item.regionKey) ?? [];
     list.push(item);
     itemsByRegionKey.set(item.regionKey, list);
   }
 
   const outcomeByItemId: Record<string, PlanOutcomeItem> = {};
+  const extractionVolumesByItemId: Record<string, ExtractionVolume[]> = {};
   const extractedPointsByItemId: Record<string, Point[]> = {};
-  let grandExtractedPointCount = 0;
-  let grandTotalW = 0;
 
   for (const item of plan) {
     const region = regionByKey.get(item.regionKey);
@@ -391,17 +600,21 @@ function computePlanStats(
       continue;
     }
 
-    const regionTotalW = region.avgW * region.pointCount;
+    const attributes = Object.keys(region.attributes);
     outcomeByItemId[item.id] = {
       planItemId: item.id,
       regionId: region.regionId,
       regionPointCount: region.pointCount,
-      regionTotalW,
-      regionAverageW: region.avgW,
+      regionTonnage: region.tonnage,
+      regionAttributes: Object.fromEntries(attributes.map((attribute) => {
+        const { average, tonnage } = getRegionAttributeStats(region, attribute);
+        return [attribute, { total: average * tonnage, average, tonnage }];
+      })),
       extractedPointCount: 0,
-      extractedTotalW: 0,
-      extractedAverageW: 0,
+      extractedTonnage: 0,
+      extractedAttributes: getAttributeTotals([], attributes),
     };
+    extractionVolumesByItemId[item.id] = [];
     extractedPointsByItemId[item.id] = [];
   }
 
@@ -412,105 +625,188 @@ function computePlanStats(
       continue;
     }
 
-    const regionPoints = getPointsInPrism(points, regionPrism.snapshot);
-    const regionPointCount = regionPoints.length;
-    const regionTotalW = sumW(regionPoints);
-    const regionAverageW = regionPointCount > 0 ? regionTotalW / regionPointCount : 0;
-    let remaining = regionPoints;
-
-    const center = getRegionCenter(regionPrism.snapshot);
+    const signature = getPlanItemsSignature(items);
+    const cached = cache?.get(regionKey);
+    const result = cached && cached.region === region && cached.signature === signature
+      ? cached.result
+      : computeRegionPlan(region, items, regionPrism, points, Object.keys(region.attributes));
+    cache?.set(regionKey, { region, signature, result });
+
+    items.forEach((item, index) => {
+      outcomeByItemId[item.id] = result.outcomes[index] as PlanOutcomeItem;
+      extractionVolumesByItemId[item.id] = result.extractionVolumes[index] as ExtractionVolume[];
+      extractedPointsByItemId[item.id] = result.extractedPoints[index] as Point[];
+    });
+  }
 
-    for (const item of items) {
-      const quantity = Math.max(0, Math.round(item.quantity));
-      if (quantity === 0 || remaining.length === 0) {
-        outcomeByItemId[item.id] = {
-          planItemId: item.id,
-          regionId: region.regionId,
-          regionPointCount,
-          regionTotalW,
-          regionAverageW,
-          extractedPointCount: 0,
-          extractedTotalW: 0,
-          extractedAverageW: 0,
-        };
-        extractedPointsByItemId[item.id] = [];
-        continue;
+  if (cache) {
+    for (const regionKey of cache.keys()) {
+      if (!itemsByRegionKey.has(regionKey)) {
+        cache.delete(regionKey);
       }
+    }
+  }
 
-      const angleRadians = THREE.MathUtils.degToRad(item.angle);
-      const outward = new THREE.Vector3(Math.cos(angleRadians), Math.sin(angleRadians), 0);
+  return {
+    outcomeByItemId,
+    grandTotal: sumOutcomes(plan.flatMap((item) => {
+      const outcome = outcomeByItemId[item.id];
+      return outcome ? [outcome] : [];
+    })),
+    periodOutcomes: getPeriodOutcomes(plan, outcomeByItemId),
+    extractionVolumesByItemId,
+    extractedPointsByItemId,
+  };
+}
 
-      let maxProjection = -Infinity;
-      for (const point of remaining) {
-        const projection =
-          (point.x - center.x) * outward.x +
-          (point.y - center.y) * outward.y;
-        if (projection > maxProjection) {
-          maxProjection = projection;
-        }
-      }
+/**
+ * How the recipe digs a region: like the region's first plan item, or the defaults when it
+ * has none. Shared by pricing and applying so both describe the same dig.
+ */
+function getRecipeItemTemplate(plan: PlanItem[], regionKey: string): Omit<PlanItem, "id" | "regionKey" | "quantity"> {
+  const existing = plan.find((item) => item.regionKey === regionKey);
+  return {
+    period: existing?.period ?? 0,
+    angle: existing?.angle ?? 0,
+    dip: existing?.dip ?? DEFAULT_FACE_DIP,
+    mode: existing?.mode ?? DEFAULT_EXTRACTION_MODE,
+    increment: existing?.increment ?? DEFAULT_EXTRACTION_INCREMENT,
+  };
+}
 
-      remaining = [...remaining]
-        .sort((a, b) =>
-          getDepthFromRegionEdge(a, center, outward, maxProjection) -
-          getDepthFromRegionEdge(b, center, outward, maxProjection),
-        );
+/** Each planned region's points with the items that dig it, in schedule order. */
+function collectPlanRegions(plan: PlanItem[], regionPrisms: RegionPrism[], points: Point[]): BlendRegion[] {
+  const prismByKey = new Map(regionPrisms.map((regionPrism) => [regionPrism.key, regionPrism]));
+  const planRegions = new Map<string, BlendRegion>();
 
-      const takeCount = Math.min(quantity, remaining.length);
-      const takenPoints = remaining.slice(0, takeCount);
-      const extractedTotalW = sumW(takenPoints);
-      const extractedAverageW = takeCount > 0 ? extractedTotalW / takeCount : 0;
-      grandExtractedPointCount += takeCount;
-      grandTotalW += extractedTotalW;
-      outcomeByItemId[item.id] = {
-        planItemId: item.id,
-        regionId: region.regionId,
-        regionPointCount,
-        regionTotalW,
-        regionAverageW,
-        extractedPointCount: takeCount,
-        extractedTotalW,
-        extractedAverageW,
+  for (const item of getScheduledOrder(plan)) {
+    const regionPrism = prismByKey.get(item.regionKey);
+    if (!regionPrism) {
+      continue;
+    }
+    let planRegion = planRegions.get(item.regionKey);
+    if (!planRegion) {
+      planRegion = {
+        regionId: regionPrism.regionId,
+        points: getPointsInPrism(points, regionPrism.snapshot),
+        items: [],
       };
-      extractedPointsByItemId[item.id] = takenPoints;
-      remaining = remaining.slice(takeCount);
+      planRegions.set(item.regionKey, planRegion);
+    }
+    planRegion.items.push({
+      planItemId: item.id,
+      mode: item.mode,
+      angle: item.angle,
+      dip: item.dip,
+      increment: item.increment,
+      quantity: item.quantity,
+    });
+  }
+
+  return [...planRegions.values()];
+}
+
+/** Totals a scenario's plan overall and per region, for comparing scenarios side by side. */
+function summariseScenario(
+  scenario: PlanScenario,
+  regions: RegionMeta[],
+  regionPrisms: RegionPrism[],
+  points: Point[],
+  cache: PlanStatsCache,
+): ScenarioSummary {
+  const stats = computePlanStats(regions, scenario.plan, regionPrisms, points, cache);
+  const outcomesByRegionKey = new Map<string, PlanOutcomeItem[]>();
+  for (const item of scenario.plan) {
+    const outcome = stats.outcomeByItemId[item.id];
+    if (!outcome) {
+      continue;
     }
+    const list = outcomesByRegionKey.get(item.regionKey) ?? [];
+    list.push(outcome);
+    outcomesByRegionKey.set(item.regionKey, list);
   }
 
   return {
-    outcomeByItemId,
-    grandTotal: {
-      extractedPointCount: grandExtractedPointCount,
-      totalW: grandTotalW,
-      averageW: grandExtractedPointCount > 0 ? grandTotalW / grandExtractedPointCount : 0,
-    },
-    extractedPointsByItemId,
+    scenarioId: scenario.id,
+    name: scenario.name,
+    grandTotal: stats.grandTotal,
+    regionTotals: Object.fromEntries(
+      [...outcomesByRegionKey].map(([regionKey, outcomes]) => [regionKey, sumOutcomes(outcomes)]),
+    ),
   };
 }
 
+function getNewScenarioName(scenarios: PlanScenario[]): string {
+  const names = new Set(scenarios.map((scenario) => scenario.name));
+  let index = scenarios.length + 1;
+  while (names.has(`Scenario ${index}`)) {
+    index += 1;
+  }
+  return `Scenario ${index}`;
+}
+
 export function Visualiser() {
   const viewportRef = useRef<HTMLDivElement | null>(null);
   const sceneRef = useRef<THREE.Scene | null>(null);
-  const cameraRef = useRef<THREE.PerspectiveCamera | null>(null);
+  /** The camera and controls of the active view. */
+  const cameraRef = useRef<THREE.PerspectiveCamera | THREE.OrthographicCamera | null>(null);
   const rendererRef = useRef<THREE.WebGLRenderer | null>(null);
   const labelRendererRef = useRef<CSS2DRenderer | null>(null);
   const controlsRef = useRef<OrbitControls | null>(null);
+  const sceneViewsRef = useRef<SceneViews | null>(null);
   const pointsRef = useRef<Point[]>([]);
   const pointOffsetRef = useRef<{ x: number; y: number; z: number }>({ x: 0, y: 0, z: 0 });
+  const pointCloudsRef = useRef<THREE.Group | null>(null);
+  const loadedTimeWindowRef = useRef<TimeWindow>(ALL_TIME);
+  const attributeNamesRef = useRef<string[]>([DEFAULT_ATTRIBUTE]);
+  const pointCloudAttributeRef = useRef<string>(DEFAULT_ATTRIBUTE);
   const regionPrismsRef = useRef<RegionPrism[]>([]);
   const planExtractionVolumesRef = useRef<Map<string, THREE.Group>>(new Map());
+  const planStatsCacheRef = useRef<PlanStatsCache>(new Map());
+  const scenarioStatsCachesRef = useRef<Map<string, PlanStatsCache>>(new Map());
   const [regions, setRegions] = useState<RegionMeta[]>([]);
+  /** Bumped whenever the points or a region's prism change, for callbacks that read them from refs. */
+  const [sceneDataVersion, setSceneDataVersion] = useState(0);
   const [selectedRegionKeys, setSelectedRegionKeys] = useState<string[]>([]);
-  const [plan, setPlan] = useState<PlanItem[]>(() => loadStoredPlan());
+  const [scenarios, setScenarios] = useState<PlanScenario[]>([]);
+  const [activeScenarioId, setActiveScenarioId] = useState<string | null>(null);
+  const activeScenario = scenarios.find((scenario) => scenario.id === activeScenarioId) ?? scenarios[0] ?? null;
+  const activeScenarioIdRef = useRef<string | null>(null);
+  const plan = activeScenario?.plan ?? EMPTY_PLAN;
+  /** Last schedule period shown in the scene, or null for the whole plan. */
+  const [timelinePeriod, setTimelinePeriod] = useState<number | null>(null);
   const [regionsHydrated, setRegionsHydrated] = useState(false);
   const [editingRegionKey, setEditingRegionKey] = useState<string | null>(null);
+  const [shapeEdit, setShapeEdit] = useState<ShapeEdit | null>(null);
+  const [selectionMode, setSelectionMode] = useState<SelectionMode>("rectangle");
+  const selectionModeRef = useRef<SelectionMode>("rectangle");
+  const [viewMode, setViewMode] = useState<ViewMode>("perspective");
+  const viewModeRef = useRef<ViewMode>("perspective");
+  const [planViewBounds, setPlanViewBounds] = useState<PlanViewBounds | null>(null);
+  const [footprintDrawing, setFootprintDrawing] = useState(false);
+  const footprintDrawingRef = useRef(false);
+  /** The region a split line is being drawn across, in the plan view. */
+  const [splitRegionKey, setSplitRegionKey] = useState<string | null>(null);
+  const splitRegionKeyRef = useRef<string | null>(null);
+  const [snapFootprint, setSnapFootprint] = useState(true);
+  const shapeEditKeyRef = useRef<string | null>(null);
+  const prismHandlesRef = useRef<THREE.Group | null>(null);
+  const shapePreviewRef = useRef<THREE.Group | null>(null);
   const [status, setStatus] = useState("Loading points...");
+  const [timeWindow, setTimeWindow] = useState<TimeWindow>(ALL_TIME);
+  const [streamFrom, setStreamFrom] = useState<PointStreamStart | null>(null);
+  const [datasets, setDatasets] = useState<DatasetSummary[]>([]);
+  const [datasetId, setDatasetId] = useState<string | null>(null);
+  const [attributeNames, setAttributeNames] = useState<string[]>([DEFAULT_ATTRIBUTE]);
+  const [attribute, setAttribute] = useState<string>(DEFAULT_ATTRIBUTE);
+  const attributeRef = useRef<string>(DEFAULT_ATTRIBUTE);
+  const datasetIdRef = useRef<string | null>(null);
   const [interactionElement, setInteractionElement] = useState<HTMLCanvasElement | null>(null);
 
-  const selectionRectRef = useRef<SelectionRect | null>(null);
+  const selectionActiveRef = useRef(false);
   const editingRegionKeyRef = useRef<string | null>(null);
   const planStats = useMemo(
-    () => computePlanStats(regions, plan, regionPrismsRef.current, pointsRef.current),
+    () => computePlanStats(regions, plan, regionPrismsRef.current, pointsRef.current, planStatsCacheRef.current),
     [regions, plan],
   );
 
@@ -518,17 +814,158 @@ export function Visualiser() {
     editingRegionKeyRef.current = editingRegionKey;
   }, [editingRegionKey]);
 
+  useEffect(() => {
+    activeScenarioIdRef.current = activeScenario?.id ?? null;
+  }, [activeScenario]);
+
+  /** Updates the active scenario's plan; other scenarios are only edited through the scenario handlers. */
+  const setPlan = useCallback((update: (prev: PlanItem[]) => PlanItem[]): void => {
+    setScenarios((prev) => {
+      const activeId = activeScenarioIdRef.current ?? prev[0]?.id;
+      let changed = false;
+      const next = prev.map((scenario) => {
+        if (scenario.id !== activeId) {
+          return scenario;
+        }
+        const nextPlan = update(scenario.plan);
+        if (nextPlan === scenario.plan) {
+          return scenario;
+        }
+        changed = true;
+        return { ...scenario, plan: nextPlan };
+      });
+      return changed ? next : prev;
+    });
+  }, []);
+
+  /** Drops plan items for removed regions from every scenario. */
+  const prunePlanRegions = useCallback((keepRegion: (regionKey: string) => boolean): void => {
+    setScenarios((prev) => {
+      let changed = false;
+      const next = prev.map((scenario) => {
+        const nextPlan = scenario.plan.filter((item) => keepRegion(item.regionKey));
+        if (nextPlan.length === scenario.plan.length) {
+          return scenario;
+        }
+        changed = true;
+        return { ...scenario, plan: nextPlan };
+      });
+      return changed ? next : prev;
+    });
+  }, []);
+
+  /** Points every scenario's plan items for the `fromKeys` regions at region `toKey` instead. */
+  const reassignPlanRegions = useCallback((fromKeys: Set<string>, toKey: string): void => {
+    setScenarios((prev) => {
+      let changed = false;
+      const next = prev.map((scenario) => {
+        if (!scenario.plan.some((item) => fromKeys.has(item.regionKey))) {
+          return scenario;
+        }
+        changed = true;
+        return {
+          ...scenario,
+          plan: scenario.plan.map((item) => (fromKeys.has(item.regionKey) ? { ...item, regionKey: toKey } : item)),
+        };
+      });
+      return changed ? next : prev;
+    });
+  }, []);
+
+  useEffect(() => {
+    datasetIdRef.current = datasetId;
+  }, [datasetId]);
+
+  useEffect(() => {
+    attributeRef.current = attribute;
+  }, [attribute]);
+
+  const refreshDatasets = useCallback(async (): Promise<void> => {
+    try {
+      const nextDatasets = await listDatasets();
+      const defaultDataset = nextDatasets.find((dataset) => dataset.isDefault) ?? nextDatasets[0];
+      if (defaultDataset) {
+        adoptLegacyStorage(defaultDataset.id);
+      }
+
+      setDatasets(nextDatasets);
+      setDatasetId((prev) =>
+        prev !== null && nextDatasets.some((dataset) => dataset.id === prev)
+          ? prev
+          : defaultDataset?.id ?? null
+      );
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      setStatus(`Failed to load datasets: ${message}`);
+    }
+  }, []);
+
+  useEffect(() => {
+    void refreshDatasets();
+  }, [refreshDatasets]);
+
   const persistRegionPrisms = useCallback((): void => {
-    saveStoredPrisms(
+    setSceneDataVersion((version) => version + 1);
+    const currentDatasetId = datasetIdRef.current;
+    if (currentDatasetId === null) {
+      return;
+    }
+
+    void saveStoredPrisms(
+      currentDatasetId,
       regionPrismsRef.current.map((regionPrism) =>
         toStoredPrism(regionPrism.key, regionPrism.regionId, regionPrism.snapshot)
       ),
     );
   }, []);
 
+  const refreshPlanViewBounds = useCallback((): void => {
+    const renderer = rendererRef.current;
+    const views = sceneViewsRef.current;
+    if (!renderer || !views || viewModeRef.current !== "plan") {
+      return;
+    }
+    setPlanViewBounds(getPlanViewBounds(
+      views.plan.camera,
+      renderer.domElement.clientWidth,
+      renderer.domElement.clientHeight,
+      { ...pointOffsetRef.current },
+    ));
+  }, []);
+
+  /** Points the renderer, picking and selection at one view's camera and hands it the controls. */
+  const activateView = useCallback((mode: ViewMode): void => {
+    const views = sceneViewsRef.current;
+    if (!views) {
+      return;
+    }
+
+    if (mode === "plan" && cameraRef.current === views.perspective.camera) {
+      const { target } = views.perspective.controls;
+      centerPlanCamera(views.plan.camera, views.plan.controls, target.x, target.y);
+    }
+
+    const active = views[mode];
+    const inactive = views[mode === "plan" ? "perspective" : "plan"];
+    inactive.controls.enabled = false;
+    active.controls.enabled = true;
+    cameraRef.current = active.camera;
+    controlsRef.current = active.controls;
+    if (mode === "plan") {
+      refreshPlanViewBounds();
+    } else {
+      setPlanViewBounds(null);
+    }
+  }, [refreshPlanViewBounds]);
+
+  useEffect(() => {
+    viewModeRef.current = viewMode;
+    activateView(viewMode);
+  }, [viewMode, activateView]);
+
   useEffect(() => {
     const viewport = viewportRef.current;
-    if (!viewport) {
+    if (!viewport || datasetId === null) {
       return;
     }
 
@@ -543,13 +980,18 @@ export function Visualiser() {
     controls.enableDamping = true;
     controls.dampingFactor = 0.08;
     controls.update();
+    const planCamera = createPlanCamera(viewport.clientWidth, viewport.clientHeight);
+    const planControls = createPlanControls(planCamera, renderer.domElement);
     addLights(scene);
 
     sceneRef.current = scene;
-    cameraRef.current = camera;
     rendererRef.current = renderer;
     labelRendererRef.current = labelRenderer;
-    controlsRef.current = controls;
+    sceneViewsRef.current = {
+      perspective: { camera, controls },
+      plan: { camera: planCamera, controls: planControls },
+    };
+    activateView(viewModeRef.current);
     setInteractionElement(renderer.domElement);
     regionPrismsRef.current = [];
     planExtractionVolumesRef.current.clear();
@@ -562,17 +1004,20 @@ export function Visualiser() {
       const height = viewport.clientHeight;
       camera.aspect = width / height;
       camera.updateProjectionMatrix();
+      resizePlanCamera(planCamera, width, height);
       renderer.setSize(width, height);
       labelRenderer.setSize(width, height);
+      refreshPlanViewBounds();
     };
 
     const animate = (): void => {
       if (disposed) {
         return;
       }
-      controls.update();
-      renderer.render(scene, camera);
-      labelRenderer.render(scene, camera);
+      const activeCamera = cameraRef.current ?? camera;
+      (controlsRef.current ?? controls).update();
+      renderer.render(scene, activeCamera);
+      labelRenderer.render(scene, activeCamera);
       frameId = requestAnimationFrame(animate);
     };
 
@@ -592,7 +1037,13 @@ export function Visualiser() {
     };
 
     const onSceneClick = (event: MouseEvent): void => {
-      if (editingRegionKeyRef.current !== null || selectionRectRef.current) {
+      if (
+        editingRegionKeyRef.current !== null ||
+        shapeEditKeyRef.current !== null ||
+        selectionActiveRef.current ||
+        footprintDrawingRef.current ||
+        splitRegionKeyRef.current !== null
+      ) {
         return;
       }
 
@@ -603,7 +1054,7 @@ export function Visualiser() {
 
       pointer.x = ((event.clientX - rect.left) / rect.width) * 2 - 1;
       pointer.y = -((event.clientY - rect.top) / rect.height) * 2 + 1;
-      raycaster.setFromCamera(pointer, camera);
+      raycaster.setFromCamera(pointer, cameraRef.current ?? camera);
 
       const regionObjects = regionPrismsRef.current.map((regionPrism) => regionPrism.prism);
       const intersections = raycaster.intersectObjects(regionObjects, true);
@@ -623,30 +1074,43 @@ export function Visualiser() {
 
     window.addEventListener("resize", resize);
     renderer.domElement.addEventListener("click", onSceneClick);
+    planControls.addEventListener("change", refreshPlanViewBounds);
+
+    setStatus("Loading points...");
 
     void (async () => {
       try {
-        const sourcePoints = await getPoints();
+        const { columns, cursor } = await getPoints(ALL_TIME, datasetId);
         if (disposed) {
           return;
         }
 
-        const pointOffset = getPointCloudOffset(sourcePoints);
-        const renderPoints = sourcePoints.map((point) => ({
-          x: point.x - pointOffset.x,
-          y: point.y - pointOffset.y,
-          z: point.z - pointOffset.z,
-          w: point.w,
-        }));
+        const pointOffset = columns.offset;
+        const renderPoints = toPoints(columns);
+
+        const names = [DEFAULT_ATTRIBUTE, ...Object.keys(columns.attributes)];
+        const colourAttribute = names.includes(attributeRef.current) ? attributeRef.current : DEFAULT_ATTRIBUTE;
 
         pointOffsetRef.current = pointOffset;
         pointsRef.current = renderPoints;
-        addPointClouds(scene, renderPoints);
+        setSceneDataVersion((version) => version + 1);
+        attributeNamesRef.current = names;
+        pointCloudAttributeRef.current = colourAttribute;
+        pointCloudsRef.current = addPointClouds(scene, columns.positions, getColumnValues(columns, colourAttribute));
+        setAttributeNames(names);
+        setAttribute(colourAttribute);
+
+        const [storedPrisms, savedScenarios] = await Promise.all([
+          loadStoredPrisms(datasetId),
+          loadStoredScenarios(datasetId),
+        ]);
+        if (disposed) {
+          return;
+        }
 
-        const storedPrisms = loadStoredPrisms();
+        const restoredRegions: RegionMeta[] = [];
         if (storedPrisms.length > 0) {
           const restoredRegionPrisms: RegionPrism[] = [];
-          const restoredRegions: RegionMeta[] = [];
 
           for (const storedPrism of storedPrisms) {
             const snapshot = fromStoredPrism(storedPrism);
@@ -667,19 +1131,35 @@ export function Visualiser() {
             });
             restoredRegionPrisms.push({ key, regionId, prism, snapshot, label });
             restoredRegions.push(
-              getRegionMetaFromSelection(key, regionId, snapshot, selectedPoints, pointOffset),
+              getRegionMetaFromSelection(key, regionId, snapshot, selectedPoints, pointOffset, names),
             );
           }
 
           regionPrismsRef.current = restoredRegionPrisms;
+          setSceneDataVersion((version) => version + 1);
           setRegions(restoredRegions);
         }
+        const regionMassPerPoint = new Map(
+          restoredRegions.map((region) => [region.key, region.tonnage / region.pointCount]),
+        );
+        const storedScenarios = convertPointQuantities(savedScenarios, (regionKey) => {
+          const massPerPoint = regionMassPerPoint.get(regionKey);
+          return massPerPoint !== undefined && Number.isFinite(massPerPoint) ? massPerPoint : DEFAULT_POINT_MASS;
+        });
+        const storedActiveScenarioId = loadActiveScenarioId(datasetId);
+        setScenarios(storedScenarios);
+        setActiveScenarioId(
+          storedScenarios.some((scenario) => scenario.id === storedActiveScenarioId)
+            ? storedActiveScenarioId
+            : storedScenarios[0]?.id ?? null,
+        );
         setRegionsHydrated(true);
+        setStreamFrom({ datasetId, timeWindow: ALL_TIME, cursor });
 
         fitCameraToPointCloud(camera, controls, renderPoints);
-        setStatus(
-          "Shift + drag to select",
-        );
+        fitPlanCamera(planCamera, planControls, renderPoints, viewport.clientWidth, viewport.clientHeight);
+        refreshPlanViewBounds();
+        setStatus(getSelectionModeHint(selectionModeRef.current));
       } catch (error) {
         const message = error instanceof Error ? error.message : String(error);
         setStatus(`Failed to initialize scene: ${message}`);
@@ -696,6 +1176,7 @@ export function Visualiser() {
 
       window.removeEventListener("resize", resize);
       renderer.domElement.removeEventListener("click", onSceneClick);
+      planControls.removeEventListener("change", refreshPlanViewBounds);
 
       for (const regionPrism of regionPrismsRef.current) {
         scene.remove(regionPrism.prism);
@@ -703,10 +1184,11 @@ export function Visualiser() {
       }
       regionPrismsRef.current = [];
       for (const volume of planExtractionVolumesRef.current.values()) {
-        scene.remove(volume);
+        removePrism(scene, volume);
       }
       planExtractionVolumesRef.current.clear();
       controls.dispose();
+      planControls.dispose();
       renderer.dispose();
       labelRenderer.domElement.remove();
       renderer.domElement.remove();
@@ -716,72 +1198,202 @@ export function Visualiser() {
       rendererRef.current = null;
       labelRendererRef.current = null;
       controlsRef.current = null;
+      sceneViewsRef.current = null;
+      setPlanViewBounds(null);
       pointsRef.current = [];
       pointOffsetRef.current = { x: 0, y: 0, z: 0 };
+      planStatsCacheRef.current.clear();
+      scenarioStatsCachesRef.current.clear();
+      pointCloudsRef.current = null;
+      loadedTimeWindowRef.current = ALL_TIME;
+      attributeNamesRef.current = [DEFAULT_ATTRIBUTE];
+      setRegions([]);
       setSelectedRegionKeys([]);
-      setPlan([]);
+      setScenarios([]);
+      setActiveScenarioId(null);
+      setTimelinePeriod(null);
       setRegionsHydrated(false);
+      setStreamFrom(null);
       setEditingRegionKey(null);
+      setShapeEdit(null);
       setInteractionElement(null);
     };
-  }, []);
-
-  // Disable controls while selecting to prevent conflicts
-  const onCurrentlySelectingChange = useCallback((currentlySelecting: boolean): void => {
-    const controls = controlsRef.current;
+  }, [datasetId]);
 
-    if (!controls) {
+  // Reload the cloud for a new time window, keeping the original offset so stored regions stay aligned
+  useEffect(() => {
+    if (!regionsHydrated || timeWindow === loadedTimeWindowRef.current) {
       return;
     }
 
-    controls.enabled = !currentlySelecting;
-  }, []);
+    let cancelled = false;
+    setStatus("Loading points...");
 
-  const handleSelectionComplete = useCallback((rect: SelectionRect): void => {
-    if (editingRegionKey !== null) {
-      return;
-    }
+    void (async () => {
+      try {
+        const pointOffset = pointOffsetRef.current;
+        const currentDatasetId = datasetIdRef.current;
+        if (currentDatasetId === null) {
+          return;
+        }
+        const { columns, cursor } = await getPoints(timeWindow, currentDatasetId, pointOffset);
+        const scene = sceneRef.current;
+        if (cancelled || !scene) {
+          return;
+        }
 
-    const scene = sceneRef.current;
-    const camera = cameraRef.current;
-    const renderer = rendererRef.current;
-    const points = pointsRef.current;
+        const renderPoints = toPoints(columns);
+
+        if (pointCloudsRef.current) {
+          removePointClouds(scene, pointCloudsRef.current);
+        }
+        pointCloudsRef.current = addPointClouds(
+          scene,
+          columns.positions,
+          getColumnValues(columns, pointCloudAttributeRef.current),
+        );
+        pointsRef.current = renderPoints;
+        setSceneDataVersion((version) => version + 1);
+        loadedTimeWindowRef.current = timeWindow;
+        setStreamFrom({ datasetId: currentDatasetId, timeWindow, cursor });
+
+        setRegions(
+          regionPrismsRef.current.map((regionPrism) =>
+            getRegionMetaFromSelection(
+              regionPrism.key,
+              regionPrism.regionId,
+              regionPrism.snapshot,
+              getPointsInPrism(renderPoints, regionPrism.snapshot),
+              pointOffset,
+              attributeNamesRef.current,
+            )
+          ),
+        );
+        setStatus(`${renderPoints.length} points in window.`);
+      } catch (error) {
+        if (cancelled) {
+          return;
+        }
+        const message = error instanceof Error ? error.message : String(error);
+        setStatus(`Failed to load points: ${message}`);
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [timeWindow, regionsHydrated]);
 
-    if (!scene || !camera || !renderer || points.length === 0) {
+  const appendStreamedPoints = useCallback((sourcePoints: Point[]): void => {
+    const scene = sceneRef.current;
+    const pointClouds = pointCloudsRef.current;
+    if (!scene || !pointClouds || sourcePoints.length === 0) {
       return;
     }
 
-    const selectedPoints = getPointsInScreenSelection(
-      points,
-      camera,
-      renderer.domElement.clientWidth,
-      renderer.domElement.clientHeight,
-      {
-        minX: rect.left,
-        maxX: rect.left + rect.width,
-        minY: rect.top,
-        maxY: rect.top + rect.height,
-      },
+    const pointOffset = pointOffsetRef.current;
+    const addedPoints = sourcePoints.map((point) => ({
+      ...point,
+      x: point.x - pointOffset.x,
+      y: point.y - pointOffset.y,
+      z: point.z - pointOffset.z,
+    }));
+
+    const positions = new Float32Array(addedPoints.length * 3);
+    const values = new Float32Array(addedPoints.length);
+    addedPoints.forEach((point, index) => {
+      positions[index * 3 + 0] = point.x;
+      positions[index * 3 + 1] = point.y;
+      positions[index * 3 + 2] = point.z;
+      values[index] = getAttributeValue(point, pointCloudAttributeRef.current) ?? NaN;
+    });
+
+    appendToPointClouds(scene, pointClouds, positions, values);
+    pointsRef.current = pointsRef.current.concat(addedPoints);
+    setSceneDataVersion((version) => version + 1);
+
+    const prismByKey = new Map(regionPrismsRef.current.map((regionPrism) => [regionPrism.key, regionPrism]));
+    setRegions((prev) =>
+      prev.map((region) => {
+        const regionPrism = prismByKey.get(region.key);
+        return regionPrism
+          ? mergeRegionMeta(
+            region,
+            regionPrism.snapshot,
+            getPointsInPrism(addedPoints, regionPrism.snapshot),
+            pointOffset,
+            attributeNamesRef.current,
+          )
+          : region;
+      }),
     );
+    setStatus(`${addedPoints.length} new point${addedPoints.length === 1 ? "" : "s"} received.`);
+  }, []);
 
-    if (selectedPoints.length === 0) {
+  // Stream points reported since the cloud was loaded into the open scene; the camera is left where it is
+  useEffect(() => {
+    if (!regionsHydrated || streamFrom === null) {
       return;
     }
 
-    const prism = addSelectionPrism(scene, selectedPoints, 20);
-    if (!prism) {
-      return;
-    }
+    const params = new URLSearchParams(toPointQueryString(streamFrom.timeWindow));
+    params.set("dataset", streamFrom.datasetId);
+    params.set("cursor", String(streamFrom.cursor));
+    const events = new EventSource(`/points/stream?${params.toString()}`);
+
+    events.addEventListener("points", (event) => {
+      appendStreamedPoints(JSON.parse((event as MessageEvent<string>).data) as Point[]);
+    });
+    events.addEventListener("source-error", (event) => {
+      const { message } = JSON.parse((event as MessageEvent<string>).data) as { message: string };
+      setStatus(`Live updates stopped: ${message}`);
+      events.close();
+    });
+
+    return () => {
+      events.close();
+    };
+  }, [regionsHydrated, streamFrom, appendStreamedPoints]);
+
+  // Recolour the cloud when a different attribute is chosen
+  useEffect(() => {
+    const scene = sceneRef.current;
+    const pointClouds = pointCloudsRef.current;
+    if (!scene || !pointClouds || attribute === pointCloudAttributeRef.current) {
+      return;
+    }
+
+    pointCloudsRef.current = recolourPointClouds(scene, pointClouds, getAttributeValues(pointsRef.current, attribute));
+    pointCloudAttributeRef.current = attribute;
+  }, [attribute]);
+
+  // Disable controls while selecting to prevent conflicts
+  const onCurrentlySelectingChange = useCallback((currentlySelecting: boolean): void => {
+    const controls = controlsRef.current;
+
+    if (!controls) {
+      return;
+    }
+
+    controls.enabled = !currentlySelecting;
+  }, []);
+
+  /** Lists a prism as a region without saving, so a batch of them can be saved once; false if it has no shape. */
+  const registerRegionPrism = useCallback((prism: THREE.Group, selectedPoints: Point[], regionId?: string): boolean => {
+    const scene = sceneRef.current;
+    if (!scene) {
+      return false;
+    }
 
     const prismSnapshot = getPrismSnapshot(prism);
     if (!prismSnapshot) {
       scene.remove(prism);
-      return;
+      return false;
     }
 
     const pointOffset = pointOffsetRef.current;
     const key = crypto.randomUUID();
-    const suggestedId = `region-${Math.floor(Math.random() * 1000)}`;
+    const suggestedId = regionId ?? `region-${Math.floor(Math.random() * 1000)}`;
     const label = createRegionLabel(suggestedId);
     label.position.copy(getRegionLabelPosition(prismSnapshot));
     scene.add(label);
@@ -791,108 +1403,775 @@ export function Visualiser() {
       node.userData.regionKey = key;
     });
     regionPrismsRef.current.push({ key, regionId: suggestedId, prism, snapshot: prismSnapshot, label });
-    persistRegionPrisms();
 
     setRegions((prev) => [
       ...prev,
-      getRegionMetaFromSelection(key, suggestedId, prismSnapshot, selectedPoints, pointOffset),
+      getRegionMetaFromSelection(
+        key,
+        suggestedId,
+        prismSnapshot,
+        selectedPoints,
+        pointOffset,
+        attributeNamesRef.current,
+      ),
     ]);
-    setStatus("Region added. Use Edit to rename.");
-  }, [editingRegionKey, persistRegionPrisms]);
+    return true;
+  }, []);
+
+  /** Lists a newly added prism as a region with a suggested id. */
+  const addRegionPrism = useCallback((prism: THREE.Group, selectedPoints: Point[], regionId?: string): void => {
+    if (!registerRegionPrism(prism, selectedPoints, regionId)) {
+      return;
+    }
+    persistRegionPrisms();
+    setStatus(regionId === undefined ? "Region added. Use Edit to rename." : "Region added.");
+  }, [registerRegionPrism, persistRegionPrisms]);
+
+  /** Wraps the selected points in a new region prism. */
+  const createRegionFromPoints = useCallback((selectedPoints: Point[]): void => {
+    const scene = sceneRef.current;
+    if (!scene || selectedPoints.length === 0) {
+      return;
+    }
+
+    const prism = addSelectionPrism(scene, selectedPoints, 20);
+    if (prism) {
+      addRegionPrism(prism, selectedPoints);
+    }
+  }, [addRegionPrism]);
+
+  const handleSelectionComplete = useCallback((rect: SelectionRect): void => {
+    if (editingRegionKey !== null) {
+      return;
+    }
+
+    const camera = cameraRef.current;
+    const renderer = rendererRef.current;
+    const points = pointsRef.current;
+
+    if (!camera || !renderer || points.length === 0) {
+      return;
+    }
+
+    createRegionFromPoints(getPointsInScreenSelection(
+      points,
+      camera,
+      renderer.domElement.clientWidth,
+      renderer.domElement.clientHeight,
+      {
+        minX: rect.left,
+        maxX: rect.left + rect.width,
+        minY: rect.top,
+        maxY: rect.top + rect.height,
+      },
+    ));
+  }, [editingRegionKey, createRegionFromPoints]);
+
+  const handlePolygonSelectionComplete = useCallback((polygon: ScreenPoint[]): void => {
+    if (editingRegionKey !== null) {
+      return;
+    }
 
-  const { selectionRect } = useSelectionController({
+    const camera = cameraRef.current;
+    const renderer = rendererRef.current;
+    const points = pointsRef.current;
+
+    if (!camera || !renderer || points.length === 0) {
+      return;
+    }
+
+    createRegionFromPoints(getPointsInScreenPolygon(
+      points,
+      camera,
+      renderer.domElement.clientWidth,
+      renderer.domElement.clientHeight,
+      polygon,
+    ));
+  }, [editingRegionKey, createRegionFromPoints]);
+
+  const handleChangeSelectionMode = useCallback((mode: SelectionMode): void => {
+    selectionModeRef.current = mode;
+    setSelectionMode(mode);
+    setStatus(getSelectionModeHint(mode));
+  }, []);
+
+  const { selectionRect, selectionPath } = useSelectionController({
     interactionElement,
-    selectionEnabled: editingRegionKey === null,
+    selectionEnabled: editingRegionKey === null && shapeEdit === null && !footprintDrawing && splitRegionKey === null,
+    selectionMode,
     onCurrentlySelectingChange,
     onSelectionComplete: handleSelectionComplete,
+    onPolygonSelectionComplete: handlePolygonSelectionComplete,
   });
 
   useEffect(() => {
-    selectionRectRef.current = selectionRect;
-  }, [selectionRect]);
+    selectionActiveRef.current = selectionRect !== null || selectionPath !== null;
+  }, [selectionRect, selectionPath]);
+
+  const handleChangeViewMode = useCallback((mode: ViewMode): void => {
+    setViewMode(mode);
+    if (mode !== "plan") {
+      setFootprintDrawing(false);
+      setSplitRegionKey(null);
+    }
+  }, []);
+
+  const handleToggleFootprintDrawing = useCallback((): void => {
+    setFootprintDrawing(!footprintDrawing);
+    setSplitRegionKey(null);
+    setStatus(footprintDrawing
+      ? getSelectionModeHint(selectionModeRef.current)
+      : "Click to place footprint vertices; click the first vertex, double-click or press Enter to close");
+  }, [footprintDrawing]);
+
+  const handleCancelFootprint = useCallback((): void => {
+    setFootprintDrawing(false);
+    setStatus(getSelectionModeHint(selectionModeRef.current));
+  }, []);
+
+  const snapFootprintPoint = useCallback((
+    point: { x: number; y: number },
+    bounds: PlanViewBounds,
+  ): { x: number; y: number } => {
+    if (!snapFootprint) {
+      return point;
+    }
+    return snapPlanPoint(
+      point,
+      bounds.offset,
+      getMinorGridStep(getGridStep(bounds)),
+      regionPrismsRef.current.flatMap((regionPrism) => regionPrism.snapshot.footprint),
+      FOOTPRINT_SNAP_PIXELS * getPlanPixelSize(bounds),
+    );
+  }, [snapFootprint]);
+
+  /** Builds a region from surveyed mine-grid coordinates, shifted into render space like the points. */
+  const handleCreateRegionFromCoordinates = useCallback((
+    regionId: string | null,
+    coordinates: RegionCoordinates,
+  ): void => {
+    const scene = sceneRef.current;
+    if (!scene) {
+      return;
+    }
+
+    const pointOffset = pointOffsetRef.current;
+    const snapshot: PrismSnapshot = {
+      minZ: coordinates.minZ - pointOffset.z,
+      maxZ: coordinates.maxZ - pointOffset.z,
+      footprint: coordinates.footprint.map((vertex) => ({
+        x: vertex.x - pointOffset.x,
+        y: vertex.y - pointOffset.y,
+      })),
+    };
+    const prism = restorePrism(scene, snapshot);
+    if (prism) {
+      addRegionPrism(prism, getPointsInPrism(pointsRef.current, snapshot), regionId ?? undefined);
+    }
+  }, [addRegionPrism]);
+
+  /**
+   * Every region and the active scenario's extraction volumes as polygons in mine-grid
+   * coordinates. GeoJSON assumes WGS84, so receiving tools need the mine grid set by hand.
+   */
+  const handleExportRegionsGeoJson = useCallback((): GeoJsonFeatureCollection => {
+    const pointOffset = pointOffsetRef.current;
+    const regionByKey = new Map(regions.map((region) => [region.key, region]));
+    const features: GeoJsonFeature[] = [];
+
+    for (const regionPrism of regionPrismsRef.current) {
+      const region = regionByKey.get(regionPrism.key);
+      features.push(toGeoJsonFeature(
+        toWorldSnapshot(regionPrism.snapshot, pointOffset),
+        "region",
+        region ? getRegionFeatureProperties(region) : { regionId: regionPrism.regionId },
+      ));
+    }
+
+    for (const item of getScheduledOrder(plan)) {
+      const outcome = planStats.outcomeByItemId[item.id];
+      const volumes = planStats.extractionVolumesByItemId[item.id] ?? [];
+      volumes.forEach((volume, volumeIndex) => {
+        for (const outline of getClippedPrismOutlines(volume.region, volume.halfSpaces)) {
+          features.push(toGeoJsonFeature(toWorldSnapshot(outline, pointOffset), "extraction", {
+            regionId: outcome?.regionId ?? null,
+            scenario: activeScenario?.name ?? null,
+            planItemId: item.id,
+            period: item.period,
+            volumeIndex,
+            mode: item.mode,
+            extractedTonnage: outcome?.extractedTonnage ?? 0,
+            ...Object.fromEntries(Object.entries(outcome?.extractedAttributes ?? {}).map(
+              ([attribute, total]) => [`${attribute}_avg`, total.tonnage > 0 ? total.average : null],
+            )),
+          }));
+        }
+      });
+    }
+
+    return { type: "FeatureCollection", features };
+  }, [regions, plan, planStats, activeScenario]);
+
+  /**
+   * Region outlines at their top and bottom, region labels, and the faces of the active
+   * scenario's extraction volumes, all in mine-grid coordinates.
+   */
+  const handleExportRegionsDxf = useCallback((): DxfDrawing => {
+    const pointOffset = pointOffsetRef.current;
+    const entities: DxfEntity[] = [];
+
+    for (const regionPrism of regionPrismsRef.current) {
+      const snapshot = toWorldSnapshot(regionPrism.snapshot, pointOffset);
+      for (const z of [snapshot.minZ, snapshot.maxZ]) {
+        entities.push({
+          kind: "polyline",
+          layer: DXF_REGION_LAYER.name,
+          points: snapshot.footprint.map((point) => ({ x: point.x, y: point.y, z })),
+          closed: true,
+        });
+      }
+      const center = getRegionCenter(snapshot);
+      entities.push({
+        kind: "text",
+        layer: DXF_LABEL_LAYER.name,
+        position: { x: center.x, y: center.y, z: snapshot.maxZ },
+        height: Math.max(getFootprintRadius(snapshot) * 0.15, 0.5),
+        text: regionPrism.regionId,
+      });
+    }
+
+    for (const item of getScheduledOrder(plan)) {
+      for (const volume of planStats.extractionVolumesByItemId[item.id] ?? []) {
+        for (const face of getClippedPrismSurface(volume.region, volume.halfSpaces)) {
+          const corners = face.map((vertex) => ({
+            x: vertex.x + pointOffset.x,
+            y: vertex.y + pointOffset.y,
+            z: vertex.z + pointOffset.z,
+          }));
+          // Faces are convex, so a fan from the first corner covers them
+          for (let i = 1; i < corners.length - 1; i += 1) {
+            entities.push({
+              kind: "face",
+              layer: DXF_EXTRACTION_LAYER.name,
+              corners: [corners[0], corners[i], corners[i + 1]] as DxfPoint[],
+            });
+          }
+        }
+      }
+    }
+
+    return { layers: [DXF_REGION_LAYER, DXF_LABEL_LAYER, DXF_EXTRACTION_LAYER], entities };
+  }, [plan, planStats]);
+
+  /** Recreates region prisms from a GeoJSON file; footprints without elevations take the enclosed points' range. */
+  const handleImportRegionsGeoJson = useCallback(async (file: File): Promise<void> => {
+    const scene = sceneRef.current;
+    if (!scene) {
+      return;
+    }
+
+    let parsed: ReturnType<typeof parseRegionsGeoJson>;
+    try {
+      parsed = parseRegionsGeoJson(await file.text());
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      setStatus(`Failed to read GeoJSON: ${message}`);
+      return;
+    }
+
+    const pointOffset = pointOffsetRef.current;
+    let addedCount = 0;
+    let skippedCount = parsed.skippedCount;
+    for (const shape of parsed.shapes) {
+      const footprint = shape.footprint.map((point) => ({ x: point.x - pointOffset.x, y: point.y - pointOffset.y }));
+      const snapshot = shape.minZ !== null && shape.maxZ !== null
+        ? { minZ: shape.minZ - pointOffset.z, maxZ: shape.maxZ - pointOffset.z, footprint }
+        : getFootprintSnapshot(pointsRef.current, footprint);
+      const prism = snapshot ? restorePrism(scene, snapshot) : null;
+      if (!snapshot || !prism) {
+        skippedCount += 1;
+        continue;
+      }
+      if (registerRegionPrism(prism, getPointsInPrism(pointsRef.current, snapshot), shape.regionId ?? undefined)) {
+        addedCount += 1;
+      } else {
+        skippedCount += 1;
+      }
+    }
+    if (addedCount > 0) {
+      persistRegionPrisms();
+    }
+
+    setStatus(
+      skippedCount > 0
+        ? `Imported ${addedCount} regions; skipped ${skippedCount} features.`
+        : `Imported ${addedCount} regions.`,
+    );
+  }, [registerRegionPrism, persistRegionPrisms]);
+
+  /** Turns a drawn outline into a region spanning the heights of the points inside it. */
+  const handleCompleteFootprint = useCallback((footprint: Array<{ x: number; y: number }>): void => {
+    const scene = sceneRef.current;
+    if (!scene) {
+      return;
+    }
+    if (!isSimplePolygon(footprint)) {
+      setStatus("The footprint crosses itself. Draw it again.");
+      return;
+    }
+
+    const snapshot = getFootprintSnapshot(pointsRef.current, footprint);
+    if (!snapshot) {
+      setStatus("The footprint encloses no points.");
+      return;
+    }
+
+    const prism = restorePrism(scene, snapshot);
+    if (prism) {
+      addRegionPrism(prism, getPointsInPrism(pointsRef.current, snapshot));
+    }
+  }, [addRegionPrism]);
 
   useEffect(() => {
-    if (!regionsHydrated) {
+    footprintDrawingRef.current = footprintDrawing;
+  }, [footprintDrawing]);
+
+  useEffect(() => {
+    splitRegionKeyRef.current = splitRegionKey;
+  }, [splitRegionKey]);
+
+  const footprintDraft = usePlanDrawing({
+    interactionElement,
+    bounds: footprintDrawing && shapeEdit === null ? planViewBounds : null,
+    snapPoint: snapFootprintPoint,
+    onComplete: handleCompleteFootprint,
+    onCancel: handleCancelFootprint,
+  });
+
+  // Swap the region's prism for a live preview of the edited shape, with handles on it
+  useEffect(() => {
+    shapeEditKeyRef.current = shapeEdit?.key ?? null;
+    const scene = sceneRef.current;
+    const regionPrism = shapeEdit
+      ? regionPrismsRef.current.find((entry) => entry.key === shapeEdit.key)
+      : undefined;
+    if (!scene || !shapeEdit || !regionPrism) {
+      return;
+    }
+
+    regionPrism.prism.visible = false;
+    const preview = restorePrism(scene, shapeEdit.snapshot);
+    const handles = addPrismHandles(scene, shapeEdit.snapshot);
+    prismHandlesRef.current = handles;
+    shapePreviewRef.current = preview;
+    regionPrism.label.position.copy(getRegionLabelPosition(shapeEdit.snapshot));
+
+    return () => {
+      if (preview) {
+        removePrism(scene, preview);
+      }
+      removePrismHandles(scene, handles);
+      prismHandlesRef.current = null;
+      shapePreviewRef.current = null;
+      regionPrism.prism.visible = true;
+      regionPrism.label.position.copy(getRegionLabelPosition(regionPrism.snapshot));
+    };
+  }, [shapeEdit]);
+
+  const handleChangeShapeSnapshot = useCallback((snapshot: PrismSnapshot): void => {
+    setShapeEdit((prev) => (prev ? { ...prev, snapshot } : prev));
+  }, []);
+
+  // Mid-drag, move the preview and handles without a render; the point count waits for the drop
+  const handlePreviewShapeSnapshot = useCallback((snapshot: PrismSnapshot): void => {
+    const preview = shapePreviewRef.current;
+    const handles = prismHandlesRef.current;
+    const regionPrism = regionPrismsRef.current.find((entry) => entry.key === shapeEditKeyRef.current);
+    if (preview) {
+      updatePrism(preview, snapshot);
+    }
+    if (handles) {
+      updatePrismHandles(handles, snapshot);
+    }
+    regionPrism?.label.position.copy(getRegionLabelPosition(snapshot));
+  }, []);
+
+  usePrismEditor({
+    interactionElement,
+    cameraRef,
+    handlesRef: prismHandlesRef,
+    snapshot: shapeEdit?.snapshot ?? null,
+    onChangeSnapshot: handleChangeShapeSnapshot,
+    onPreviewSnapshot: handlePreviewShapeSnapshot,
+    onDraggingChange: onCurrentlySelectingChange,
+  });
+
+  const shapeEditSummary = useMemo((): ShapeEditSummary | null => {
+    const regionPrism = shapeEdit
+      ? regionPrismsRef.current.find((entry) => entry.key === shapeEdit.key)
+      : undefined;
+    if (!shapeEdit || !regionPrism) {
+      return null;
+    }
+
+    const points = getPointsInPrism(pointsRef.current, shapeEdit.snapshot);
+    return {
+      regionId: regionPrism.regionId,
+      vertexCount: shapeEdit.snapshot.footprint.length,
+      pointCount: points.length,
+      tonnage: getTonnage(points),
+      minZ: shapeEdit.snapshot.minZ + pointOffsetRef.current.z,
+      maxZ: shapeEdit.snapshot.maxZ + pointOffsetRef.current.z,
+    };
+  }, [shapeEdit]);
+
+  const handleRequestShapeEdit = useCallback((key: string): void => {
+    const regionPrism = regionPrismsRef.current.find((entry) => entry.key === key);
+    if (!regionPrism) {
+      return;
+    }
+    setEditingRegionKey(null);
+    setShapeEdit({
+      key,
+      snapshot: {
+        minZ: regionPrism.snapshot.minZ,
+        maxZ: regionPrism.snapshot.maxZ,
+        footprint: regionPrism.snapshot.footprint.map((point) => ({ x: point.x, y: point.y })),
+      },
+    });
+    setStatus(`Editing the shape of ${regionPrism.regionId}.`);
+  }, []);
+
+  const handleSetShapeElevation = useCallback((edge: "top" | "bottom", z: number): void => {
+    const renderZ = z - pointOffsetRef.current.z;
+    setShapeEdit((prev) => (prev ? { ...prev, snapshot: setPrismElevation(prev.snapshot, edge, renderZ) } : prev));
+  }, []);
+
+  const handleSaveShapeEdit = useCallback((): void => {
+    const scene = sceneRef.current;
+    const regionPrism = shapeEdit
+      ? regionPrismsRef.current.find((entry) => entry.key === shapeEdit.key)
+      : undefined;
+    if (!scene || !shapeEdit || !regionPrism) {
+      return;
+    }
+
+    const prism = restorePrism(scene, shapeEdit.snapshot);
+    if (!prism) {
+      setStatus("Shape could not be built; keep editing or cancel.");
+      return;
+    }
+
+    const { key, snapshot } = shapeEdit;
+    prism.userData.regionKey = key;
+    prism.traverse((node) => {
+      node.userData.regionKey = key;
+    });
+    removePrism(scene, regionPrism.prism);
+    regionPrism.prism = prism;
+    regionPrism.snapshot = snapshot;
+    persistRegionPrisms();
+
+    const selectedPoints = getPointsInPrism(pointsRef.current, snapshot);
+    setRegions((prev) =>
+      prev.map((region) =>
+        region.key === key
+          ? getRegionMetaFromSelection(
+            key,
+            region.regionId,
+            snapshot,
+            selectedPoints,
+            pointOffsetRef.current,
+            attributeNamesRef.current,
+          )
+          : region,
+      ),
+    );
+    setShapeEdit(null);
+    setStatus("Region shape updated.");
+  }, [shapeEdit, persistRegionPrisms]);
+
+  const handleCancelShapeEdit = useCallback((): void => {
+    setShapeEdit(null);
+    setStatus("Shape edit cancelled.");
+  }, []);
+
+  /**
+   * Gives a region new footprints after a boolean or split. The region keeps the first, along with
+   * its key and plan items; any others become new regions named after it. Callers save the regions.
+   */
+  const replaceRegionFootprints = useCallback((key: string, snapshots: PrismSnapshot[]): void => {
+    const scene = sceneRef.current;
+    const regionPrism = regionPrismsRef.current.find((entry) => entry.key === key);
+    const [snapshot, ...pieces] = snapshots;
+    if (!scene || !regionPrism || !snapshot) {
       return;
     }
 
-    setPlan((prev) => {
-      const regionKeys = new Set(regions.map((region) => region.key));
-      const next = prev.filter((item) => regionKeys.has(item.regionKey));
-      return next.length === prev.length ? prev : next;
+    const prism = restorePrism(scene, snapshot);
+    if (!prism) {
+      return;
+    }
+    prism.userData.regionKey = key;
+    prism.traverse((node) => {
+      node.userData.regionKey = key;
+    });
+    removePrism(scene, regionPrism.prism);
+    regionPrism.prism = prism;
+    regionPrism.snapshot = snapshot;
+    regionPrism.label.position.copy(getRegionLabelPosition(snapshot));
+
+    const selectedPoints = getPointsInPrism(pointsRef.current, snapshot);
+    setRegions((prev) =>
+      prev.map((region) =>
+        region.key === key
+          ? getRegionMetaFromSelection(
+            key,
+            region.regionId,
+            snapshot,
+            selectedPoints,
+            pointOffsetRef.current,
+            attributeNamesRef.current,
+          )
+          : region,
+      ),
+    );
+
+    pieces.forEach((piece, index) => {
+      const piecePrism = restorePrism(scene, piece);
+      if (piecePrism) {
+        registerRegionPrism(piecePrism, getPointsInPrism(pointsRef.current, piece), `${regionPrism.regionId}-${index + 2}`);
+      }
     });
-  }, [regions, regionsHydrated]);
+  }, [registerRegionPrism]);
+
+  const handleToggleSplitLine = useCallback((): void => {
+    const [key] = selectedRegionKeys;
+    if (splitRegionKey !== null || key === undefined || selectedRegionKeys.length !== 1) {
+      setSplitRegionKey(null);
+      setStatus(getSelectionModeHint(selectionModeRef.current));
+      return;
+    }
+
+    setViewMode("plan");
+    setFootprintDrawing(false);
+    setSplitRegionKey(key);
+    setStatus("Click two points on the split line; Escape cancels");
+  }, [selectedRegionKeys, splitRegionKey]);
+
+  const handleCancelSplitLine = useCallback((): void => {
+    setSplitRegionKey(null);
+    setStatus(getSelectionModeHint(selectionModeRef.current));
+  }, []);
+
+  const handleCompleteSplitLine = useCallback((line: Array<{ x: number; y: number }>): void => {
+    const regionPrism = regionPrismsRef.current.find((entry) => entry.key === splitRegionKey);
+    const [start, end] = line;
+    if (!regionPrism || !start || !end) {
+      return;
+    }
+
+    const result = splitFootprint(regionPrism.snapshot, start, end);
+    if (result.error !== null) {
+      setStatus(`${result.error} Draw the line again.`);
+      return;
+    }
+
+    setSplitRegionKey(null);
+    replaceRegionFootprints(regionPrism.key, result.snapshots);
+    persistRegionPrisms();
+    setStatus(`Split ${regionPrism.regionId} into ${result.snapshots.length} regions.`);
+  }, [splitRegionKey, replaceRegionFootprints, persistRegionPrisms]);
+
+  const splitLineDraft = usePlanDrawing({
+    interactionElement,
+    bounds: splitRegionKey !== null && shapeEdit === null ? planViewBounds : null,
+    snapPoint: snapFootprintPoint,
+    vertexLimit: 2,
+    onComplete: handleCompleteSplitLine,
+    onCancel: handleCancelSplitLine,
+  });
 
   useEffect(() => {
     if (!regionsHydrated) {
       return;
     }
 
+    const regionKeys = new Set(regions.map((region) => region.key));
+    prunePlanRegions((regionKey) => regionKeys.has(regionKey));
+  }, [regions, regionsHydrated, prunePlanRegions]);
+
+  useEffect(() => {
+    const currentDatasetId = datasetIdRef.current;
+    if (!regionsHydrated || currentDatasetId === null) {
+      return;
+    }
+
     const timeoutId = window.setTimeout(() => {
-      saveStoredPlan(plan);
+      void saveStoredScenarios(currentDatasetId, scenarios);
     }, 300);
 
     return () => {
       window.clearTimeout(timeoutId);
     };
-  }, [plan, regionsHydrated]);
+  }, [scenarios, regionsHydrated]);
+
+  useEffect(() => {
+    const currentDatasetId = datasetIdRef.current;
+    if (!regionsHydrated || currentDatasetId === null || !activeScenario) {
+      return;
+    }
+    saveActiveScenarioId(currentDatasetId, activeScenario.id);
+  }, [activeScenario?.id, regionsHydrated]);
+
+  // The clipped solids only change with the plan, so the timeline just shows and hides them
+  useEffect(() => {
+    buildPlanExtractionVolumes(plan, planStats.extractionVolumesByItemId);
+    return () => {
+      clearPlanExtractionVolumes();
+    };
+  }, [plan, planStats]);
 
+  // On the timeline, show what has been dug up to the chosen period and hide it from the stockpile
   useEffect(() => {
-    syncPlanExtractionVolumes(plan, planStats.extractedPointsByItemId);
-  }, [plan, planStats.extractedPointsByItemId]);
+    const dug = timelinePeriod === null ? plan : plan.filter((item) => item.period <= timelinePeriod);
+    const dugIds = new Set(dug.map((item) => item.id));
+    for (const [itemId, volume] of planExtractionVolumesRef.current) {
+      volume.visible = dugIds.has(itemId);
+    }
+
+    const pointClouds = pointCloudsRef.current;
+    if (!pointClouds) {
+      return;
+    }
+    if (timelinePeriod === null) {
+      setHiddenPoints(pointClouds, null);
+      return;
+    }
+
+    const taken = new Set<Point>();
+    for (const item of dug) {
+      for (const point of planStats.extractedPointsByItemId[item.id] ?? []) {
+        taken.add(point);
+      }
+    }
+    const hidden = new Uint8Array(pointsRef.current.length);
+    pointsRef.current.forEach((point, index) => {
+      if (taken.has(point)) {
+        hidden[index] = 1;
+      }
+    });
+    setHiddenPoints(pointClouds, hidden);
+  }, [plan, planStats, timelinePeriod]);
 
   const handleAddRegionToPlan = useCallback((region: RegionMeta): void => {
     const planItemId = crypto.randomUUID();
-    setPlan((prev) => {
-      const next = [
-        ...prev,
-        {
-          id: planItemId,
-          regionKey: region.key,
-          angle: 0,
-          quantity: Math.max(0, Math.min(region.pointCount, 100)),
-        },
-      ];
-      saveStoredPlan(next);
-      return next;
-    });
+    setPlan((prev) => [
+      ...prev,
+      {
+        id: planItemId,
+        regionKey: region.key,
+        period: getLastPeriod(prev),
+        angle: 0,
+        dip: DEFAULT_FACE_DIP,
+        mode: DEFAULT_EXTRACTION_MODE,
+        increment: DEFAULT_EXTRACTION_INCREMENT,
+        quantity: Math.round(Math.max(0, Math.min(region.tonnage, DEFAULT_PLAN_TONNES))),
+      },
+    ]);
+  }, [setPlan]);
+
+  const handleSelectScenario = useCallback((scenarioId: string): void => {
+    setActiveScenarioId(scenarioId);
+    setTimelinePeriod(null);
   }, []);
 
-  function syncPlanExtractionVolumes(items: PlanItem[], extractedPointsByItemId: Record<string, Point[]>): void {
-    const scene = sceneRef.current;
-    if (!scene) {
+  const handleCreateScenario = useCallback((): void => {
+    const scenarioId = crypto.randomUUID();
+    setScenarios((prev) => [...prev, { id: scenarioId, name: getNewScenarioName(prev), plan: [] }]);
+    handleSelectScenario(scenarioId);
+  }, [handleSelectScenario]);
+
+  // Plan item ids are unique across scenarios, so the copy gets fresh ones
+  const handleDuplicateScenario = useCallback((scenarioId: string): void => {
+    const source = scenarios.find((scenario) => scenario.id === scenarioId);
+    if (!source) {
       return;
     }
+    const copy: PlanScenario = {
+      id: crypto.randomUUID(),
+      name: `${source.name} copy`,
+      plan: source.plan.map((item) => ({ ...item, id: crypto.randomUUID() })),
+    };
+    setScenarios((prev) => [...prev, copy]);
+    handleSelectScenario(copy.id);
+  }, [scenarios, handleSelectScenario]);
 
-    const prismByKey = new Map(regionPrismsRef.current.map((regionPrism) => [regionPrism.key, regionPrism]));
+  const handleRenameScenario = useCallback((scenarioId: string, name: string): void => {
+    const trimmed = name.trim();
+    if (trimmed === "") {
+      return;
+    }
+    setScenarios((prev) =>
+      prev.map((scenario) => (scenario.id === scenarioId ? { ...scenario, name: trimmed } : scenario)),
+    );
+  }, []);
+
+  // A dataset always keeps one scenario; deleting the active one falls back to the first left
+  const handleDeleteScenario = useCallback((scenarioId: string): void => {
+    setScenarios((prev) => (prev.length > 1 ? prev.filter((scenario) => scenario.id !== scenarioId) : prev));
+    scenarioStatsCachesRef.current.delete(scenarioId);
+    if (scenarioId === activeScenarioIdRef.current) {
+      setActiveScenarioId(null);
+      setTimelinePeriod(null);
+    }
+  }, []);
 
+  const handleSummariseScenarios = useCallback((): ScenarioSummary[] => {
+    const caches = scenarioStatsCachesRef.current;
+    return scenarios.map((scenario) => {
+      const cache = caches.get(scenario.id) ?? new Map();
+      caches.set(scenario.id, cache);
+      return summariseScenario(scenario, regions, regionPrismsRef.current, pointsRef.current, cache);
+    });
+  }, [scenarios, regions]);
+
+  function clearPlanExtractionVolumes(): void {
+    const scene = sceneRef.current;
     for (const volume of planExtractionVolumesRef.current.values()) {
-      scene.remove(volume);
+      if (scene) {
+        removePrism(scene, volume);
+      }
     }
     planExtractionVolumesRef.current.clear();
+  }
 
-    for (const item of items) {
-      const extractedPoints = extractedPointsByItemId[item.id] ?? [];
-      if (extractedPoints.length === 0) {
-        continue;
-      }
+  function buildPlanExtractionVolumes(
+    items: PlanItem[],
+    extractionVolumesByItemId: Record<string, ExtractionVolume[]>,
+  ): void {
+    const scene = sceneRef.current;
+    if (!scene) {
+      return;
+    }
 
-      const regionPrism = prismByKey.get(item.regionKey);
-      if (!regionPrism) {
-        continue;
-      }
+    clearPlanExtractionVolumes();
 
-      const extractionSnapshot = createExtractionSnapshot(
-        regionPrism.snapshot,
-        item.angle,
-        extractedPoints,
-      );
-      if (!extractionSnapshot) {
+    for (const item of items) {
+      const volumes = extractionVolumesByItemId[item.id] ?? [];
+      if (volumes.length === 0) {
         continue;
       }
 
-      const extractionVolume = restorePrism(scene, extractionSnapshot);
-      if (!extractionVolume) {
+      // Benches and slices can leave a partly worked block, so one item may need several solids.
+      const extractionVolume = new THREE.Group();
+      for (const volume of volumes) {
+        const solid = addClippedPrism(scene, volume.region, volume.halfSpaces);
+        if (solid) {
+          extractionVolume.add(solid);
+        }
+      }
+      if (extractionVolume.children.length === 0) {
         continue;
       }
 
@@ -909,6 +2188,7 @@ export function Visualiser() {
         }
       });
 
+      scene.add(extractionVolume);
       planExtractionVolumesRef.current.set(item.id, extractionVolume);
     }
   }
@@ -920,11 +2200,40 @@ export function Visualiser() {
     setPlan((prev) =>
       prev.map((item) => (item.id === planItemId ? { ...item, angle: normalized } : item)),
     );
-  }, []);
+  }, [setPlan]);
+
+  const handleUpdatePlanPeriod = useCallback((planItemId: string, period: number): void => {
+    const normalized = normalizePeriod(period);
+    setPlan((prev) =>
+      prev.map((item) => (item.id === planItemId ? { ...item, period: normalized } : item)),
+    );
+  }, [setPlan]);
+
+  const handleUpdatePlanDip = useCallback((planItemId: string, dip: number): void => {
+    const normalized = clampDip(Math.round(dip));
+    setPlan((prev) =>
+      prev.map((item) => (item.id === planItemId ? { ...item, dip: normalized } : item)),
+    );
+  }, [setPlan]);
+
+  const handleUpdatePlanMode = useCallback((planItemId: string, mode: ExtractionMode): void => {
+    setPlan((prev) =>
+      prev.map((item) => (item.id === planItemId ? { ...item, mode } : item)),
+    );
+  }, [setPlan]);
+
+  const handleUpdatePlanIncrement = useCallback((planItemId: string, increment: number): void => {
+    const normalized = Number.isFinite(increment) && increment > 0
+      ? increment
+      : DEFAULT_EXTRACTION_INCREMENT;
+    setPlan((prev) =>
+      prev.map((item) => (item.id === planItemId ? { ...item, increment: normalized } : item)),
+    );
+  }, [setPlan]);
 
   const handleDeletePlanItem = useCallback((planItemId: string): void => {
     setPlan((prev) => prev.filter((item) => item.id !== planItemId));
-  }, []);
+  }, [setPlan]);
 
   const handleUpdatePlanQuantity = useCallback((planItemId: string, quantity: number): void => {
     const normalized = Number.isFinite(quantity)
@@ -933,7 +2242,117 @@ export function Visualiser() {
     setPlan((prev) =>
       prev.map((item) => (item.id === planItemId ? { ...item, quantity: normalized } : item)),
     );
-  }, []);
+  }, [setPlan]);
+
+  // The recipe defines the whole blend, so it replaces the plan; each region keeps how it was dug
+  const handleApplyRecipe = useCallback((quantities: RecipeQuantity[]): void => {
+    setPlan((prev) =>
+      quantities
+        .map((entry) => ({
+          id: crypto.randomUUID(),
+          regionKey: entry.regionKey,
+          ...getRecipeItemTemplate(prev, entry.regionKey),
+          quantity: Math.round(entry.quantity),
+        }))
+        .filter((item) => item.quantity > 0),
+    );
+    setStatus(`Plan replaced with a ${quantities.length}-region recipe.`);
+  }, [setPlan]);
+
+  const handleDescribeRecipeCandidates = useCallback((regionKeys: string[]): RecipeCandidate[] => {
+    const prismByKey = new Map(regionPrismsRef.current.map((regionPrism) => [regionPrism.key, regionPrism]));
+    return regionKeys.flatMap((regionKey) => {
+      const regionPrism = prismByKey.get(regionKey);
+      if (!regionPrism) {
+        return [];
+      }
+      const step = { ...getRecipeItemTemplate(plan, regionKey), quantity: 0 };
+      const points = getPointsInPrism(pointsRef.current, regionPrism.snapshot);
+      return [getRecipeCandidate(regionKey, regionPrism.regionId, points, step, attribute)];
+    });
+    // The version stands in for the points and prisms read from refs
+  }, [plan, attribute, sceneDataVersion]);
+
+  // Round down so the faces stop on the same report the optimiser did.
+  const applyBlendQuantities = useCallback((quantities: Record<string, number>): void => {
+    setPlan((prev) =>
+      prev.map((item) => {
+        const quantity = quantities[item.id];
+        return quantity === undefined ? item : { ...item, quantity: Math.floor(quantity) };
+      }),
+    );
+  }, [setPlan]);
+
+  const handleOptimiseBlend = useCallback(async (
+    settings: BlendSettings,
+    control: WorkControl,
+  ): Promise<BlendResult | null> => {
+    const blendRegions = collectPlanRegions(plan, regionPrismsRef.current, pointsRef.current);
+    if (blendRegions.length === 0) {
+      return null;
+    }
+
+    const result = await optimiseBlend(blendRegions, settings, control);
+    if (result.feasible) {
+      applyBlendQuantities(result.quantities);
+      setStatus("Plan quantities optimised.");
+    } else {
+      setStatus("No plan meets every blend limit; the plan is unchanged.");
+    }
+    return result;
+  }, [plan, applyBlendQuantities]);
+
+  const handleApplyBlend = useCallback((quantities: Record<string, number>): void => {
+    applyBlendQuantities(quantities);
+    setStatus("Closest blend applied to the plan.");
+  }, [applyBlendQuantities]);
+
+  const handleAnalysePlanUncertainty = useCallback(async (
+    settings: UncertaintySettings,
+    control: WorkControl,
+  ): Promise<PlanUncertainty | null> => {
+    const planRegions = collectPlanRegions(plan, regionPrismsRef.current, pointsRef.current);
+    if (planRegions.length === 0) {
+      return null;
+    }
+    return analysePlanUncertainty(planRegions, attribute, settings, control);
+  }, [plan, attribute]);
+
+  // Earlier digs in the same region's schedule go first, so the sweep starts from what they leave.
+  const handleSweepPlanAngle = useCallback((planItemId: string, stepDegrees: number): AngleSample[] => {
+    const scheduled = getScheduledOrder(plan);
+    const itemIndex = scheduled.findIndex((item) => item.id === planItemId);
+    const item = scheduled[itemIndex];
+    const regionPrism = item ? regionPrismsRef.current.find((entry) => entry.key === item.regionKey) : undefined;
+    if (!item || !regionPrism) {
+      return [];
+    }
+
+    const earlierSteps = scheduled
+      .slice(0, itemIndex)
+      .filter((entry) => entry.regionKey === item.regionKey);
+    return sweepFaceAngles(
+      getPointsInPrism(pointsRef.current, regionPrism.snapshot),
+      earlierSteps,
+      item,
+      stepDegrees,
+      attribute,
+    );
+  }, [plan, attribute]);
+
+  // Overlapping regions share reports, so each is counted once
+  const handleDescribeRegionGrades = useCallback((regionKeys: string[]): GradeDistribution | null => {
+    const points = new Set<Point>();
+    for (const regionPrism of regionPrismsRef.current) {
+      if (regionKeys.includes(regionPrism.key)) {
+        for (const point of getPointsInPrism(pointsRef.current, regionPrism.snapshot)) {
+          points.add(point);
+        }
+      }
+    }
+    return getGradeDistribution([...points], attribute);
+    // The version stands in for the points and prisms read from refs
+  }, [attribute, sceneDataVersion]);
 
   const handleRequestRegionEdit = useCallback((key: string): void => {
     setEditingRegionKey(key);
@@ -994,9 +2413,10 @@ export function Visualiser() {
 
   useEffect(() => {
     applyRegionSelectionVisuals(selectedRegionKeys);
-  }, [selectedRegionKeys, applyRegionSelectionVisuals, regions.length]);
+  }, [selectedRegionKeys, applyRegionSelectionVisuals, regions]);
 
-  const handleDeleteRegion = useCallback((key: string): void => {
+  /** Takes regions out of the scene and the plan without saving, so a batch of them can be saved once. */
+  const removeRegions = useCallback((keys: Set<string>): void => {
     const scene = sceneRef.current;
     if (!scene) {
       return;
@@ -1004,7 +2424,7 @@ export function Visualiser() {
 
     const nextRegionPrisms: RegionPrism[] = [];
     for (const regionPrism of regionPrismsRef.current) {
-      if (regionPrism.key === key) {
+      if (keys.has(regionPrism.key)) {
         scene.remove(regionPrism.prism);
         scene.remove(regionPrism.label);
       } else {
@@ -1012,12 +2432,66 @@ export function Visualiser() {
       }
     }
     regionPrismsRef.current = nextRegionPrisms;
+    setRegions((prev) => prev.filter((region) => !keys.has(region.key)));
+    setSelectedRegionKeys((prev) => prev.filter((value) => !keys.has(value)));
+    prunePlanRegions((regionKey) => !keys.has(regionKey));
+    setEditingRegionKey((prev) => (prev !== null && keys.has(prev) ? null : prev));
+    setShapeEdit((prev) => (prev && keys.has(prev.key) ? null : prev));
+    setSplitRegionKey((prev) => (prev !== null && keys.has(prev) ? null : prev));
+  }, [prunePlanRegions]);
+
+  const handleDeleteRegion = useCallback((key: string): void => {
+    removeRegions(new Set([key]));
     persistRegionPrisms();
-    setRegions((prev) => prev.filter((region) => region.key !== key));
-    setSelectedRegionKeys((prev) => prev.filter((value) => value !== key));
-    setPlan((prev) => prev.filter((item) => item.regionKey !== key));
-    setEditingRegionKey((prev) => (prev === key ? null : prev));
-  }, [persistRegionPrisms]);
+  }, [removeRegions, persistRegionPrisms]);
+
+  /**
+   * Applies a footprint boolean to the selected regions. The first region selected takes the
+   * result; a union absorbs the others along with their plan items, while intersection and
+   * difference leave them in place.
+   */
+  const handleCombineRegions = useCallback((operation: FootprintOperation): void => {
+    if (shapeEdit !== null) {
+      setStatus("Save or cancel the shape edit first.");
+      return;
+    }
+
+    const selected = selectedRegionKeys
+      .map((key) => regionPrismsRef.current.find((entry) => entry.key === key))
+      .filter((entry): entry is RegionPrism => entry !== undefined);
+    const [target, ...others] = selected;
+    const result = combineFootprints(selected.map((entry) => entry.snapshot), operation);
+    if (!target || result.error !== null) {
+      setStatus(result.error ?? "Select at least two regions.");
+      return;
+    }
+
+    replaceRegionFootprints(target.key, result.snapshots);
+    let movedCount = 0;
+    if (operation === "union") {
+      const otherKeys = new Set(others.map((entry) => entry.key));
+      movedCount = scenarios.reduce(
+        (count, scenario) => count + scenario.plan.filter((item) => otherKeys.has(item.regionKey)).length,
+        0,
+      );
+      reassignPlanRegions(otherKeys, target.key);
+      removeRegions(otherKeys);
+    }
+    persistRegionPrisms();
+    setStatus(result.snapshots.length > 1
+      ? `${target.regionId} was cut into ${result.snapshots.length} regions.`
+      : movedCount > 0
+        ? `${target.regionId} updated; ${movedCount} plan items moved to it.`
+        : `${target.regionId} updated.`);
+  }, [
+    shapeEdit,
+    selectedRegionKeys,
+    scenarios,
+    replaceRegionFootprints,
+    reassignPlanRegions,
+    removeRegions,
+    persistRegionPrisms,
+  ]);
 
   const handleClearSelections = useCallback((): void => {
     setSelectedRegionKeys([]);
@@ -1032,23 +2506,77 @@ export function Visualiser() {
       <div ref={viewportRef} className="visualiser-viewport" />
       <Overlay
         selectionRect={selectionRect}
+        selectionPath={selectionPath}
+        selectionMode={selectionMode}
+        onChangeSelectionMode={handleChangeSelectionMode}
+        viewMode={viewMode}
+        onChangeViewMode={handleChangeViewMode}
+        planViewBounds={planViewBounds}
+        footprintDrawing={footprintDrawing}
+        splitLineDrawing={splitRegionKey !== null}
+        planDraft={splitRegionKey !== null ? splitLineDraft : footprintDraft}
+        onToggleFootprintDrawing={handleToggleFootprintDrawing}
+        snapFootprint={snapFootprint}
+        onChangeSnapFootprint={setSnapFootprint}
         editingRegion={editingRegion}
         onSaveRegionEdit={handleSaveRegionEdit}
         onCancelRegionEdit={handleCancelRegionEdit}
         onRequestRegionEdit={handleRequestRegionEdit}
+        onCreateRegionFromCoordinates={handleCreateRegionFromCoordinates}
+        onExportRegionsGeoJson={handleExportRegionsGeoJson}
+        onImportRegionsGeoJson={handleImportRegionsGeoJson}
+        onExportRegionsDxf={handleExportRegionsDxf}
+        onCombineRegions={handleCombineRegions}
+        onToggleSplitLine={handleToggleSplitLine}
+        shapeEdit={shapeEditSummary}
+        onRequestShapeEdit={handleRequestShapeEdit}
+        onSetShapeElevation={handleSetShapeElevation}
+        onSaveShapeEdit={handleSaveShapeEdit}
+        onCancelShapeEdit={handleCancelShapeEdit}
         status={status}
+        timeWindow={timeWindow}
+        onChangeTimeWindow={setTimeWindow}
+        datasets={datasets}
+        datasetId={datasetId}
+        onSelectDataset={setDatasetId}
+        onDatasetsChanged={refreshDatasets}
+        attributes={attributeNames}
+        attribute={attribute}
+        onSelectAttribute={setAttribute}
         regions={regions}
         selectedRegionKeys={selectedRegionKeys}
         onSelectRegion={handleSelectRegion}
         onDeleteRegion={handleDeleteRegion}
         onClearSelections={handleClearSelections}
+        onDescribeRegionGrades={handleDescribeRegionGrades}
         plan={plan}
+        scenarios={scenarios}
+        activeScenarioId={activeScenario?.id ?? null}
+        onSelectScenario={handleSelectScenario}
+        onCreateScenario={handleCreateScenario}
+        onDuplicateScenario={handleDuplicateScenario}
+        onRenameScenario={handleRenameScenario}
+        onDeleteScenario={handleDeleteScenario}
+        onSummariseScenarios={handleSummariseScenarios}
         outcomeByItemId={planStats.outcomeByItemId}
         grandTotal={planStats.grandTotal}
         onAddRegionToPlan={handleAddRegionToPlan}
         onUpdatePlanAngle={handleUpdatePlanAngle}
+        onUpdatePlanPeriod={handleUpdatePlanPeriod}
+        periodOutcomes={planStats.periodOutcomes}
+        timelinePeriod={timelinePeriod}
+        onChangeTimelinePeriod={setTimelinePeriod}
+        onUpdatePlanDip={handleUpdatePlanDip}
+        onUpdatePlanMode={handleUpdatePlanMode}
+        onUpdatePlanIncrement={handleUpdatePlanIncrement}
+        onSweepPlanAngle={handleSweepPlanAngle}
         onUpdatePlanQuantity={handleUpdatePlanQuantity}
         onDeletePlanItem={handleDeletePlanItem}
+        onDescribeRecipeCandidates={handleDescribeRecipeCandidates}
+        onApplyRecipe={handleApplyRecipe}
+        onOptimiseBlend={handleOptimiseBlend}
+        onApplyBlend={handleApplyBlend}
+        onAnalysePlanUncertainty={handleAnalysePlanUncertainty}
       />
     </div>
   );